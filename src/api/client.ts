@@ -1,7 +1,25 @@
 // src/api/client.ts
 
 import * as vscode from 'vscode';
+import { AsyncLocalStorage } from 'async_hooks';
 import { ApiResponse } from './types';
+import { SseParser, ServerSentEvent } from './sse';
+
+export interface RequestOptions {
+  skipAuth?: boolean;
+  /** Safe to retry on network errors and 5xx. Defaults to true for GET, PUT and DELETE. */
+  idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+const DEFAULT_STREAM_RETRY_MS = 1000;
+const MAX_STREAM_RECONNECTS = 10;
+
+const cancellationScope = new AsyncLocalStorage<vscode.CancellationToken>();
+let refreshInFlight: Promise<boolean> | null = null;
 
 export class ApiClient {
   private baseUrl: string;
@@ -41,15 +59,28 @@ export class ApiClient {
 
   // ============ HTTP Methods ============
 
+  /**
+   * Run `fn` with a cancellation token in scope.
+   * Every request made while `fn` runs is aborted when the token is cancelled,
+   * so chat commands don't have to thread the token through each API call.
+   */
+  runWithCancellation<T>(token: vscode.CancellationToken, fn: () => Promise<T>): Promise<T> {
+    return cancellationScope.run(token, fn);
+  }
+
   private async request<T>(
     method: string,
     path: string,
     body?: unknown,
-    options: { skipAuth?: boolean; rawResponse?: boolean } = {}
+    options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${path}`;
     const config = vscode.workspace.getConfiguration('lightcloud');
     const consoleUrl = config.get('consoleUrl') as string || 'https://console.light-cloud.com';
+    const timeoutMs = (config.get<number>('requestTimeoutSeconds') || 30) * 1000;
+    const maxRetries = config.get<number>('maxRetries') ?? 3;
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    const cancellation = cancellationScope.getStore();
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -71,66 +102,130 @@ export class ApiClient {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
-        redirect: 'manual', // Don't auto-follow redirects - API should return JSON
-      });
+    let refreshed = false;
 
-      // Handle 3xx redirects (shouldn't happen with API calls)
-      if (response.status >= 300 && response.status < 400) {
-        return {
-          success: false,
-          error: { code: 'REDIRECT', message: 'Unexpected redirect response from API' }
-        };
+    for (let attempt = 0; ; attempt++) {
+      if (cancellation?.isCancellationRequested) {
+        return { success: false, error: { code: 'CANCELLED', message: 'Request cancelled' } };
       }
 
-      // Handle 401 - trigger re-authentication
-      if (response.status === 401) {
-        const refreshed = await this.refreshToken();
-        if (refreshed) {
-          // Retry with new token
-          return this.request<T>(method, path, body, options);
+      const abort = createAbortSignal(timeoutMs, cancellation);
+      let response: Response;
+
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: body ? JSON.stringify(body) : undefined,
+          redirect: 'manual', // Don't auto-follow redirects - API should return JSON
+          signal: abort.signal,
+        });
+      } catch (error) {
+        abort.dispose();
+
+        if (cancellation?.isCancellationRequested) {
+          return { success: false, error: { code: 'CANCELLED', message: 'Request cancelled' } };
         }
+
+        const timedOut = abort.timedOut();
+        if (idempotent && attempt < maxRetries) {
+          await delay(backoffDelay(attempt), cancellation);
+          continue;
+        }
+
         return {
           success: false,
-          error: { code: 'UNAUTHORIZED', message: 'Session expired. Please login again.' }
+          error: timedOut
+            ? { code: 'TIMEOUT', message: `Request timed out after ${timeoutMs / 1000}s` }
+            : { code: 'NETWORK_ERROR', message: error instanceof Error ? error.message : 'Network request failed' }
         };
       }
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({}));
+      try {
+        // Handle 3xx redirects (shouldn't happen with API calls)
+        if (response.status >= 300 && response.status < 400) {
+          return {
+            success: false,
+            error: { code: 'REDIRECT', message: 'Unexpected redirect response from API' }
+          };
+        }
+
+        // Handle 401 - refresh once and retry with the new token
+        if (response.status === 401 && !options.skipAuth) {
+          if (!refreshed && await this.refreshToken()) {
+            refreshed = true;
+            headers['Authorization'] = `Bearer ${await this.getToken()}`;
+            attempt--; // A token refresh doesn't count as a retry
+            continue;
+          }
+          return {
+            success: false,
+            error: { code: 'UNAUTHORIZED', message: 'Session expired. Please login again.' }
+          };
+        }
+
+        // 429/503 mean the request wasn't processed, so any method may be retried.
+        // Other 5xx responses are only retried for idempotent calls.
+        const retryable = response.status === 429 || response.status === 503
+          || (idempotent && RETRYABLE_STATUSES.includes(response.status));
+        if (retryable && attempt < maxRetries) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          await delay(retryAfter ?? backoffDelay(attempt), cancellation);
+          continue;
+        }
+
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => ({})) as { code?: string; message?: string };
+          return {
+            success: false,
+            error: {
+              code: errorBody.code || `HTTP_${response.status}`,
+              message: errorBody.message || response.statusText
+            }
+          };
+        }
+
+        const data = await response.json() as T;
+        return { success: true, data };
+
+      } catch (error) {
+        if (cancellation?.isCancellationRequested) {
+          return { success: false, error: { code: 'CANCELLED', message: 'Request cancelled' } };
+        }
         return {
           success: false,
           error: {
-            code: errorBody.code || `HTTP_${response.status}`,
-            message: errorBody.message || response.statusText
+            code: abort.timedOut() ? 'TIMEOUT' : 'NETWORK_ERROR',
+            message: error instanceof Error ? error.message : 'Network request failed'
           }
         };
+      } finally {
+        abort.dispose();
       }
+    }
+  }
 
-      const data = await response.json();
-      return { success: true, data };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Network request failed'
-        }
-      };
+  /**
+   * Refresh the access token. Concurrent callers share a single in-flight refresh
+   * so a burst of 401s doesn't spend the refresh token more than once.
+   */
+  private refreshToken(): Promise<boolean> {
+    if (!refreshInFlight) {
+      refreshInFlight = this.doRefreshToken().finally(() => {
+        refreshInFlight = null;
+      });
     }
+    return refreshInFlight;
   }
 
-  private async refreshToken(): Promise<boolean> {
+  private async doRefreshToken(): Promise<boolean> {
     const refreshToken = await this.secretStorage.get(ApiClient.REFRESH_TOKEN_KEY);
     if (!refreshToken) return false;
 
     const config = vscode.workspace.getConfiguration('lightcloud');
     const consoleUrl = config.get('consoleUrl') as string || 'https://console.light-cloud.com';
+    const timeoutMs = (config.get<number>('requestTimeoutSeconds') || 30) * 1000;
+    const abort = createAbortSignal(timeoutMs);
 
     try {
       const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
@@ -140,10 +235,11 @@ export class ApiClient {
           'Origin': consoleUrl,
         },
         body: JSON.stringify({ refreshToken }),
+        signal: abort.signal,
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = await response.json() as { accessToken: string; refreshToken?: string };
         await this.setToken(data.accessToken);
         if (data.refreshToken) {
           await this.setRefreshToken(data.refreshToken);
@@ -152,17 +248,19 @@ export class ApiClient {
       }
     } catch {
       // Refresh failed
+    } finally {
+      abort.dispose();
     }
     return false;
   }
 
   // ============ Public API Methods ============
 
-  async get<T>(path: string, options?: { skipAuth?: boolean }): Promise<ApiResponse<T>> {
+  async get<T>(path: string, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('GET', path, undefined, options);
   }
 
-  async post<T>(path: string, body?: unknown, options?: { skipAuth?: boolean }): Promise<ApiResponse<T>> {
+  async post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('POST', path, body, options);
   }
 
@@ -176,58 +274,193 @@ export class ApiClient {
 
   // ============ SSE Stream ============
 
+  /**
+   * Open a Server-Sent Events stream.
+   * Dropped connections are re-established with backoff, resuming from the last
+   * received event via `Last-Event-ID`. Resolves to a function that closes the stream.
+   * With `onClose`, a stream the server ends (204, or closing the connection) is
+   * reported there instead of being reconnected.
+   */
   async stream(
     path: string,
-    onMessage: (data: string) => void,
-    onError?: (error: Error) => void
+    onEvent: (event: ServerSentEvent) => void,
+    onError?: (error: Error) => void,
+    onClose?: () => void
   ): Promise<() => void> {
-    const token = await this.getToken();
+    if (!await this.getToken()) {
+      onError?.(new Error('Not authenticated'));
+      return () => {};
+    }
+
     const url = `${this.baseUrl}${path}`;
     const config = vscode.workspace.getConfiguration('lightcloud');
     const consoleUrl = config.get('consoleUrl') as string || 'https://console.light-cloud.com';
 
     const abortController = new AbortController();
+    const cancellationListener = cancellationScope.getStore()?.onCancellationRequested(() => abortController.abort());
+    const parser = new SseParser(onEvent);
+
+    const fail = (error: Error) => {
+      if (!abortController.signal.aborted) {
+        onError?.(error);
+      }
+    };
+    const close = () => {
+      if (!abortController.signal.aborted) {
+        onClose?.();
+      }
+    };
 
     (async () => {
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
+      let failures = 0;
+      let refreshed = false;
+
+      while (!abortController.signal.aborted) {
+        parser.reset();
+
+        try {
+          const headers: Record<string, string> = {
+            'Authorization': `Bearer ${await this.getToken()}`,
             'Accept': 'text/event-stream',
+            'Cache-Control': 'no-cache',
             'Origin': consoleUrl,
-          },
-          signal: abortController.signal,
-        });
-
-        if (!response.ok || !response.body) {
-          throw new Error(`Stream failed: ${response.status}`);
-        }
+          };
+          if (parser.lastId) {
+            headers['Last-Event-ID'] = parser.lastId;
+          }
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
+          const response = await fetch(url, { headers, signal: abortController.signal });
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+          if (response.status === 401) {
+            if (!refreshed && await this.refreshToken()) {
+              refreshed = true;
+              continue;
+            }
+            fail(new Error('Session expired. Please login again.'));
+            return;
+          }
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+          // 204 No Content means the server wants us to stop reconnecting
+          if (response.status === 204) {
+            close();
+            return;
+          }
 
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              onMessage(line.slice(6));
+          if (!response.ok || !response.body) {
+            const error = new Error(`Stream failed: ${response.status}`);
+            if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+              fail(error);
+              return;
             }
+            throw error;
+          }
+
+          failures = 0;
+          refreshed = false;
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parser.feed(decoder.decode(value, { stream: true }));
+          }
+
+          if (onClose) {
+            close();
+            return;
+          }
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            return;
+          }
+
+          failures++;
+          if (failures > MAX_STREAM_RECONNECTS) {
+            fail(error instanceof Error ? error : new Error('Stream failed'));
+            return;
           }
         }
-      } catch (error) {
-        if (error instanceof Error && error.name !== 'AbortError') {
-          onError?.(error);
-        }
+
+        // Connection closed - wait before reconnecting
+        const retryMs = parser.retryMs ?? DEFAULT_STREAM_RETRY_MS;
+        await sleep(Math.min(MAX_RETRY_DELAY_MS, retryMs * 2 ** failures), abortController.signal);
       }
-    })();
+    })().finally(() => cancellationListener?.dispose());
 
     return () => abortController.abort();
   }
 }
+
+// ============ Helpers ============
+
+/**
+ * Combine a timeout with an optional cancellation token into one AbortSignal
+ */
+function createAbortSignal(timeoutMs: number, cancellation?: vscode.CancellationToken) {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const listener = cancellation?.onCancellationRequested(() => controller.abort());
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      listener?.dispose();
+    },
+  };
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+  if (Number.isNaN(ms)) return undefined;
+
+  return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, ms));
+}
+
+function delay(ms: number, cancellation?: vscode.CancellationToken): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    const listener = cancellation?.onCancellationRequested(done);
+
+    function done() {
+      clearTimeout(timer);
+      listener?.dispose();
+      resolve();
+    }
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
@@ -5,7 +5,10 @@ import {
   ApiResponse,
   Application,
   Environment,
+  EnvironmentSettings,
   Deployment,
+  EnvironmentVariable,
+  CustomDomain,
   User,
   GitHubInstallation,
   Repository,
@@ -15,8 +18,14 @@ import {
   DeployRequest,
   UploadRequestUrlRequest,
   UploadRequestUrlResponse,
+  UploadManifestRequest,
+  UploadManifestResponse,
+  DeployFromUploadRequest,
   DetectedProject,
   PaginatedResponse,
+  LogStreamHandlers,
+  BuildStageEvent,
+  BuildCompleteEvent,
 } from './types';
 
 export class LightCloudApi {
@@ -54,7 +63,7 @@ export class LightCloudApi {
     const result = await this.client.post<PaginatedResponse<Application>>('/api/applications', {
       targetOrganisationId: organisationId,
       limit: 100, // Get all applications
-    });
+    }, { idempotent: true });
 
     if (result.success && result.data) {
       return {
@@ -73,7 +82,7 @@ export class LightCloudApi {
     return this.client.post<Application>('/api/applications/get', {
       targetOrganisationId: organisationId,
       applicationId,
-    });
+    }, { idempotent: true });
   }
 
   async createApplication(request: CreateApplicationRequest): Promise<ApiResponse<Application>> {
@@ -97,6 +106,13 @@ export class LightCloudApi {
     });
   }
 
+  async deployFromUpload(request: DeployFromUploadRequest): Promise<ApiResponse<Deployment>> {
+    return this.client.post<Deployment>('/api/applications/deploy-upload', {
+      ...request,
+      aiSource: 'lightcloud_copilot',
+    });
+  }
+
   async deleteApplication(organisationId: string, applicationId: string): Promise<ApiResponse<void>> {
     return this.client.post<void>('/api/applications/delete', {
       targetOrganisationId: organisationId,
@@ -108,7 +124,7 @@ export class LightCloudApi {
     return this.client.post<Application>('/api/applications/status', {
       targetOrganisationId: organisationId,
       applicationId,
-    });
+    }, { idempotent: true });
   }
 
   async detectFramework(organisationId: string, owner: string, repo: string, branch: string): Promise<ApiResponse<DetectedProject>> {
@@ -117,7 +133,7 @@ export class LightCloudApi {
       owner,
       repo,
       branch,
-    });
+    }, { idempotent: true });
   }
 
   // ============ Environments ============
@@ -126,14 +142,14 @@ export class LightCloudApi {
     return this.client.post<Environment[]>('/api/environments', {
       targetOrganisationId: organisationId,
       applicationId,
-    });
+    }, { idempotent: true });
   }
 
   async getEnvironment(organisationId: string, environmentId: string): Promise<ApiResponse<Environment>> {
     return this.client.post<Environment>('/api/environments/get', {
       targetOrganisationId: organisationId,
       environmentId,
-    });
+    }, { idempotent: true });
   }
 
   async createEnvironment(
@@ -159,6 +175,18 @@ export class LightCloudApi {
     });
   }
 
+  async updateEnvironmentSettings(
+    organisationId: string,
+    environmentId: string,
+    settings: EnvironmentSettings
+  ): Promise<ApiResponse<Environment>> {
+    return this.client.post<Environment>('/api/environments/update', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      ...settings,
+    }, { idempotent: true });
+  }
+
   async deleteEnvironment(organisationId: string, environmentId: string): Promise<ApiResponse<void>> {
     return this.client.post<void>('/api/environments/delete', {
       targetOrganisationId: organisationId,
@@ -166,24 +194,138 @@ export class LightCloudApi {
     });
   }
 
-  async getEnvironmentLogs(organisationId: string, environmentId: string): Promise<ApiResponse<string[]>> {
+  async getEnvironmentLogs(
+    organisationId: string,
+    environmentId: string,
+    options?: { since?: string; limit?: number }
+  ): Promise<ApiResponse<string[]>> {
     return this.client.post<string[]>('/api/environments/logs', {
       targetOrganisationId: organisationId,
       environmentId,
-    });
+      ...options,
+    }, { idempotent: true });
   }
 
-  streamEnvironmentLogs(
+  /**
+   * Stream build and runtime logs for an environment.
+   * `log` (and untyped) events go to `onLog`, `stage` events report build progress,
+   * and a `complete` event closes the stream once the build has finished
+   * (unless `closeOnComplete` is false, e.g. when tailing runtime logs).
+   * Without `onClose`, a stream the server ends is reconnected.
+   */
+  async streamEnvironmentLogs(
     organisationId: string,
     environmentId: string,
-    onLog: (log: string) => void,
-    onError?: (error: Error) => void
+    handlers: LogStreamHandlers,
+    options?: { since?: string; closeOnComplete?: boolean }
   ): Promise<() => void> {
-    return this.client.stream(
-      `/${organisationId}/${environmentId}/logs/stream`,
-      onLog,
-      onError
+    const closeOnComplete = options?.closeOnComplete ?? true;
+    let completed = false;
+    let stop: (() => void) | undefined;
+
+    const query = options?.since ? `?since=${encodeURIComponent(options.since)}` : '';
+    stop = await this.client.stream(
+      `/${organisationId}/${environmentId}/logs/stream${query}`,
+      (event) => {
+        if (completed) return;
+
+        switch (event.event) {
+          case 'stage': {
+            const stage = parseEventData<BuildStageEvent>(event.data);
+            if (stage) handlers.onStage?.(stage);
+            break;
+          }
+          case 'complete': {
+            const result = parseEventData<BuildCompleteEvent>(event.data) || { status: 'healthy' };
+            handlers.onComplete?.(result);
+            if (closeOnComplete) {
+              completed = true;
+              stop?.();
+            }
+            break;
+          }
+          case 'error':
+            handlers.onError?.(new Error(event.data));
+            break;
+          default:
+            for (const line of event.data.split('\n')) {
+              handlers.onLog(line);
+            }
+        }
+      },
+      handlers.onError,
+      handlers.onClose && (() => {
+        if (!completed) handlers.onClose!();
+      })
     );
+
+    // The build may have completed before the stream handle was returned
+    if (completed) {
+      stop();
+    }
+
+    return stop;
+  }
+
+  // ============ Environment Variables ============
+
+  async listEnvironmentVariables(organisationId: string, environmentId: string): Promise<ApiResponse<EnvironmentVariable[]>> {
+    return this.client.post<EnvironmentVariable[]>('/api/environments/env-vars', {
+      targetOrganisationId: organisationId,
+      environmentId,
+    }, { idempotent: true });
+  }
+
+  async setEnvironmentVariables(
+    organisationId: string,
+    environmentId: string,
+    variables: Record<string, string>
+  ): Promise<ApiResponse<EnvironmentVariable[]>> {
+    return this.client.post<EnvironmentVariable[]>('/api/environments/env-vars/set', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      variables,
+      aiSource: 'lightcloud_copilot',
+    }, { idempotent: true });
+  }
+
+  async deleteEnvironmentVariables(
+    organisationId: string,
+    environmentId: string,
+    keys: string[]
+  ): Promise<ApiResponse<void>> {
+    return this.client.post<void>('/api/environments/env-vars/delete', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      keys,
+    }, { idempotent: true });
+  }
+
+  // ============ Custom Domains ============
+
+  async addCustomDomain(organisationId: string, environmentId: string, domain: string): Promise<ApiResponse<CustomDomain>> {
+    return this.client.post<CustomDomain>('/api/environments/domains/add', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      domain,
+      aiSource: 'lightcloud_copilot',
+    });
+  }
+
+  async verifyCustomDomain(organisationId: string, environmentId: string, domain: string): Promise<ApiResponse<CustomDomain>> {
+    return this.client.post<CustomDomain>('/api/environments/domains/verify', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      domain,
+    }, { idempotent: true });
+  }
+
+  async removeCustomDomain(organisationId: string, environmentId: string, domain: string): Promise<ApiResponse<void>> {
+    return this.client.post<void>('/api/environments/domains/remove', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      domain,
+    });
   }
 
   // ============ Deployments ============
@@ -192,13 +334,43 @@ export class LightCloudApi {
     return this.client.post<Deployment[]>('/api/deployments', {
       targetOrganisationId: organisationId,
       environmentId,
-    });
+    }, { idempotent: true });
   }
 
   async getDeployment(organisationId: string, deploymentId: string): Promise<ApiResponse<Deployment>> {
     return this.client.post<Deployment>('/api/deployments/get', {
       targetOrganisationId: organisationId,
       deploymentId,
+    }, { idempotent: true });
+  }
+
+  async rollbackDeployment(
+    organisationId: string,
+    environmentId: string,
+    deploymentId: string
+  ): Promise<ApiResponse<Deployment>> {
+    return this.client.post<Deployment>('/api/deployments/rollback', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      deploymentId,
+      aiSource: 'lightcloud_copilot',
+    });
+  }
+
+  /**
+   * Deploy the build of a deployment from another environment of the same application,
+   * without rebuilding it from source
+   */
+  async promoteDeployment(
+    organisationId: string,
+    environmentId: string,
+    deploymentId: string
+  ): Promise<ApiResponse<Deployment>> {
+    return this.client.post<Deployment>('/api/deployments/promote', {
+      targetOrganisationId: organisationId,
+      environmentId,
+      deploymentId,
+      aiSource: 'lightcloud_copilot',
     });
   }
 
@@ -227,7 +399,7 @@ export class LightCloudApi {
   async checkRepoAccess(organisationId: string, accountLogins: string[]): Promise<ApiResponse<{ accounts: Record<string, { installed: boolean; linkedToThisOrg: boolean }> }>> {
     return this.client.post<{ accounts: Record<string, { installed: boolean; linkedToThisOrg: boolean }> }>(`/api/github-app/organisation/${organisationId}/check-accounts`, {
       accountLogins,
-    });
+    }, { idempotent: true });
   }
 
   // ============ Upload ============
@@ -239,6 +411,10 @@ export class LightCloudApi {
     });
   }
 
+  async createUploadManifest(request: UploadManifestRequest): Promise<ApiResponse<UploadManifestResponse>> {
+    return this.client.post<UploadManifestResponse>('/api/upload/manifest', request, { idempotent: true });
+  }
+
   async completeUpload(
     organisationId: string,
     uploadId: string,
@@ -278,3 +454,11 @@ export class LightCloudApi {
     return this.client.get<Record<string, unknown>>('/api/config/cloudrun');
   }
 }
+
+function parseEventData<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,133 @@
+// src/api/sse.ts
+
+export interface ServerSentEvent {
+  /** Event type, `message` when the server didn't send an `event:` field */
+  event: string;
+  data: string;
+  /** Last event ID in effect when this event was dispatched */
+  id?: string;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ * Follows the WHATWG HTML EventSource parsing rules: CR, LF and CRLF line endings,
+ * comments, multi-line `data:`, `id:` persistence and `retry:` hints.
+ */
+export class SseParser {
+  private buffer = '';
+  private sawCarriageReturn = false;
+  private isFirstChunk = true;
+
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  /** Reconnection delay requested by the server via `retry:` */
+  retryMs: number | undefined;
+
+  constructor(
+    private onEvent: (event: ServerSentEvent) => void,
+    lastEventId?: string
+  ) {
+    this.lastEventId = lastEventId;
+  }
+
+  get lastId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  feed(chunk: string): void {
+    if (this.isFirstChunk) {
+      this.isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    for (const char of chunk) {
+      // A CR followed by LF is a single line ending, even across chunk boundaries
+      if (this.sawCarriageReturn) {
+        this.sawCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === '\r') {
+        this.sawCarriageReturn = true;
+        this.processLine(this.buffer);
+        this.buffer = '';
+      } else if (char === '\n') {
+        this.processLine(this.buffer);
+        this.buffer = '';
+      } else {
+        this.buffer += char;
+      }
+    }
+  }
+
+  /**
+   * Discard any partially received event, e.g. when the connection drops
+   */
+  reset(): void {
+    this.buffer = '';
+    this.sawCarriageReturn = false;
+    this.eventType = '';
+    this.dataLines = [];
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      return; // Comment / keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retryMs = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return;
+    }
+
+    const event: ServerSentEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+    };
+
+    this.eventType = '';
+    this.dataLines = [];
+    this.onEvent(event);
+  }
+}
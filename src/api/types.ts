@@ -9,9 +9,14 @@ export interface CreateApplicationRequest {
   githubRepoUrl: string;
   githubBranch?: string;
   isPrivate?: boolean;
+  /** App directory within the repository, for monorepos */
+  rootDirectory?: string;
   deploymentType: 'static' | 'container';
   framework?: Framework;
   runtime?: Runtime;
+  /** Node.js or Python release line, e.g. `20` or `3.12` */
+  runtimeVersion?: string;
+  installCommand?: string;
   buildCommand?: string;
   outputDirectory?: string;
   startCommand?: string;
@@ -28,21 +33,78 @@ export interface CreateApplicationFromUploadRequest {
   name: string;
   uploadId: string;
   projectId?: string;
+  /** App directory within the upload, for monorepos */
+  rootDirectory?: string;
   deploymentType: 'static' | 'container';
   framework?: Framework;
   runtime?: Runtime;
+  /** Node.js or Python release line, e.g. `20` or `3.12` */
+  runtimeVersion?: string;
+  installCommand?: string;
   buildCommand?: string;
   outputDirectory?: string;
   startCommand?: string;
   environmentVars?: Record<string, string>;
+  containerPort?: number;
+  memory?: string;
+  cpu?: string;
+  region?: string;
   aiSource?: AiSource;
 }
 
+/**
+ * Resources and variables of a new application's production environment, e.g. from `lightcloud.json`
+ */
+export type DeploymentSettings = Pick<CreateApplicationRequest, 'environmentVars' | 'containerPort' | 'memory' | 'cpu' | 'region'>;
+
+/**
+ * Build and runtime settings of an existing environment; omitted settings are left unchanged
+ */
+export interface EnvironmentSettings {
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand?: string;
+  outputDirectory?: string;
+  containerPort?: number;
+  memory?: string;
+  cpu?: string;
+  region?: string;
+}
+
 export interface UploadRequestUrlRequest {
   targetOrganisationId: string;
   fileName?: string;
   contentType?: string;
   fileSize?: number;
+  /** Ask for a resumable upload session instead of a single PUT */
+  resumable?: boolean;
+  /**
+   * Every file of the source. The archive then only needs the files that differ
+   * from `baseUploadId`; the rest are taken from it.
+   */
+  manifest?: ManifestEntry[];
+  baseUploadId?: string;
+}
+
+export interface ManifestEntry {
+  /** Relative path with `/` separators */
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface UploadManifestRequest {
+  targetOrganisationId: string;
+  applicationId: string;
+  files: ManifestEntry[];
+}
+
+export interface DeployFromUploadRequest {
+  targetOrganisationId: string;
+  applicationId: string;
+  environmentId?: string;
+  uploadId: string;
+  aiSource?: AiSource;
 }
 
 export interface DeployRequest {
@@ -69,6 +131,15 @@ export interface UploadRequestUrlResponse {
   gcsPath: string;
   expiresAt: string;
   maxSize: number;
+  /** `signedUrl` starts a resumable session (POST with `x-goog-resumable: start`) */
+  resumable?: boolean;
+}
+
+export interface UploadManifestResponse {
+  /** Previous upload of the application the diff is against, if it has one with a manifest */
+  baseUploadId?: string;
+  /** Paths whose content the server doesn't have */
+  missing: string[];
 }
 
 export interface PaginatedResponse<T> {
@@ -87,6 +158,7 @@ export interface Application {
   runtime?: string;
   github_repo_url?: string;
   github_branch?: string;
+  root_directory?: string;
   source_type: 'github' | 'upload';
   status: DeploymentStatus;
   url?: string;
@@ -104,6 +176,14 @@ export interface Environment {
   status: DeploymentStatus;
   url?: string;
   custom_domain?: string;
+  install_command?: string;
+  build_command?: string;
+  start_command?: string;
+  output_directory?: string;
+  container_port?: number;
+  memory?: string;
+  cpu?: string;
+  region?: string;
   created_at: string;
   updated_at: string;
 }
@@ -121,6 +201,32 @@ export interface Deployment {
   deployment_logs?: string[];
 }
 
+export interface EnvironmentVariable {
+  key: string;
+  value: string;
+  is_secret?: boolean;
+  updated_at?: string;
+}
+
+export interface CustomDomain {
+  domain: string;
+  environment_id: string;
+  status: DomainStatus;
+  tls_status?: CertificateStatus;
+  dns_records: DnsRecord[];
+  error_message?: string;
+  verified_at?: string;
+  created_at: string;
+}
+
+export interface DnsRecord {
+  type: 'A' | 'AAAA' | 'CNAME' | 'TXT';
+  name: string;
+  value: string;
+  ttl?: number;
+  verified?: boolean;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -159,6 +265,30 @@ export interface Branch {
   };
 }
 
+// ============ Stream Types ============
+
+export interface BuildStageEvent {
+  stage: string;
+  status?: DeploymentStatus;
+  deploymentId?: string;
+}
+
+export interface BuildCompleteEvent {
+  status: DeploymentStatus;
+  deploymentId?: string;
+  url?: string;
+}
+
+export interface LogStreamHandlers {
+  onLog: (line: string) => void;
+  onStage?: (event: BuildStageEvent) => void;
+  /** Called once when the build finishes; the stream is closed afterwards */
+  onComplete?: (event: BuildCompleteEvent) => void;
+  onError?: (error: Error) => void;
+  /** Called if the server ends the stream before the build completes; it is not reconnected */
+  onClose?: () => void;
+}
+
 // ============ Enums ============
 
 export type DeploymentStatus =
@@ -170,6 +300,19 @@ export type DeploymentStatus =
   | 'failed'
   | 'deleting';
 
+export type DomainStatus =
+  | 'pending_dns'
+  | 'verifying'
+  | 'provisioning_certificate'
+  | 'active'
+  | 'failed';
+
+export type CertificateStatus =
+  | 'pending'
+  | 'provisioning'
+  | 'active'
+  | 'failed';
+
 export type Framework =
   | 'react'
   | 'nextjs'
@@ -179,7 +322,20 @@ export type Framework =
   | 'html'
   | 'express'
   | 'fastapi'
-  | 'flask';
+  | 'flask'
+  | 'nuxt'
+  | 'remix'
+  | 'astro'
+  | 'sveltekit'
+  | 'gatsby'
+  | 'nestjs'
+  | 'fastify'
+  | 'hono'
+  | 'django'
+  | 'rails'
+  | 'laravel'
+  | 'springboot'
+  | 'dotnet';
 
 export type Runtime =
   | 'nodejs'
@@ -217,12 +373,37 @@ export interface DetectedProject {
   buildCommand?: string;
   startCommand?: string;
   outputDirectory?: string;
-  packageManager?: 'npm' | 'yarn' | 'pnpm' | 'pip' | 'poetry';
+  packageManager?: PackageManager;
+  installCommand?: string;
+  /** Node.js or Python version or range the project asks for, as written */
   nodeVersion?: string;
   pythonVersion?: string;
+  /** File the version was read from, e.g. `.nvmrc` */
+  versionSource?: string;
+  /** Release line to build with, e.g. `20`, once resolved against the platform's supported versions */
+  runtimeVersion?: string;
   hasDockerfile?: boolean;
   envFiles?: string[];
   detectedDependencies?: string[];
+  /** How sure the framework detection is, from 0 to 1 */
+  confidence?: number;
+  /** What the framework detection is based on */
+  evidence?: string[];
+  /** Other frameworks that matched almost as well; present only when the detection is ambiguous */
+  alternatives?: FrameworkAlternative[];
+}
+
+export type NodePackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+export type PythonPackageManager = 'pip' | 'poetry' | 'uv' | 'pipenv';
+
+export type PackageManager = NodePackageManager | PythonPackageManager;
+
+export interface FrameworkAlternative {
+  framework: Framework;
+  runtime: Runtime;
+  confidence: number;
+  evidence: string[];
 }
 
 export interface GitInfo {
@@ -4,8 +4,14 @@ import * as vscode from 'vscode';
 import { LightCloudApi } from '../api/endpoints';
 import { GitDetector } from '../detection/git-detector';
 import { FrameworkDetector } from '../detection/framework-detector';
+import { formatFrameworkName } from '../detection/frameworks';
 import { DetectedProject, GitInfo } from '../api/types';
 import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { resolveOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { Project, defaultAppName } from '../utils/project-resolver';
+import { resolveRuntimeVersion, showRuntimeVersionWarning } from '../utils/runtime-version-resolver';
+import { AppliedManifest, MANIFEST_FILENAME, deploymentSettings, loadManifest, showManifestFailure, showMissingEnvReferences } from '../utils/manifest';
 
 export class DeployCommand {
 
@@ -19,81 +25,77 @@ export class DeployCommand {
     request: vscode.ChatRequest,
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken,
-    workspaceFolder: vscode.WorkspaceFolder
+    project: Project
   ): Promise<vscode.ChatResult> {
     stream.progress('Analyzing project...');
 
-    // Step 1: Detect git info
-    const gitInfo = await this.gitDetector.detect(workspaceFolder);
+    // Step 1: Detect git info (the repository covers the whole workspace folder)
+    const gitInfo = await this.gitDetector.detect(project.workspaceFolder);
 
-    // Step 2: Detect framework
-    const detected = await this.frameworkDetector.detect(workspaceFolder);
+    // Step 2: Detect framework in the app directory
+    const detected = await this.frameworkDetector.detect(project.folder);
 
-    // Step 3: Get user profile for organisation
-    const profileResult = await this.api.getProfile();
-    if (!profileResult.success || !profileResult.data?.organisations?.length) {
-      stream.markdown('Could not fetch your organisations. Please check your login.\n');
-      return { metadata: { command: 'deploy', status: 'error' } };
+    // Step 3: Settings from lightcloud.json take priority over detection
+    const manifest = loadManifest(project.folder.uri.fsPath, detected);
+    if (manifest && 'status' in manifest) {
+      showManifestFailure(stream, manifest);
+      return { metadata: { command: 'deploy', status: manifest.status } };
     }
 
-    // Use configured default organisation, or prompt user to select if multiple
-    const config = vscode.workspace.getConfiguration('lightcloud');
-    const defaultOrgId = config.get('defaultOrganisation') as string;
-
-    let organisation = profileResult.data.organisations[0];
-
-    if (defaultOrgId) {
-      const matchedOrg = profileResult.data.organisations.find((o: any) => o.id === defaultOrgId);
-      if (matchedOrg) {
-        organisation = matchedOrg;
-      }
-    } else if (profileResult.data.organisations.length > 1) {
-      // Multiple orgs - prompt user to select
-      const orgOptions = profileResult.data.organisations.map((o: any) => ({
-        label: o.name,
-        description: o.slug,
-        org: o,
-      }));
-
-      const selected = await vscode.window.showQuickPick(orgOptions, {
-        placeHolder: 'Select organisation to deploy to',
-        title: 'Choose Organisation',
-      });
-
-      if (!selected) {
+    // Step 4: Resolve organisation (--org, .lightcloud, default setting or prompt)
+    const organisation = await resolveOrganisation(this.api, getStringFlag(parseArgs(request.prompt), 'org'), {
+      placeHolder: 'Select organisation to deploy to',
+    });
+    if ('status' in organisation) {
+      if (organisation.status === 'cancelled') {
         stream.markdown('Deployment cancelled - no organisation selected.\n');
-        return { metadata: { command: 'deploy', status: 'cancelled' } };
+      } else {
+        showOrganisationFailure(stream, organisation);
       }
+      return { metadata: { command: 'deploy', status: organisation.status } };
+    }
 
-      organisation = selected.org;
+    // Step 5: Pin the runtime version the project asks for
+    showRuntimeVersionWarning(stream, await resolveRuntimeVersion(this.api, detected));
+    if (manifest) {
+      showMissingEnvReferences(stream, manifest.env);
     }
 
-    // Step 4: Determine deployment path
+    // Step 6: Determine deployment path
     if (gitInfo.isGitHub) {
-      return this.handleGitHubDeploy(stream, token, workspaceFolder, gitInfo, detected, organisation.id);
+      return this.handleGitHubDeploy(stream, token, project, gitInfo, detected, organisation.id, manifest);
     } else {
-      return this.handleLocalDeploy(stream, token, workspaceFolder, gitInfo, detected, organisation.id);
+      return this.handleLocalDeploy(stream, token, project, gitInfo, detected, organisation.id, manifest);
     }
   }
 
   private async handleGitHubDeploy(
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken,
-    workspaceFolder: vscode.WorkspaceFolder,
+    project: Project,
     gitInfo: GitInfo,
     detected: DetectedProject,
-    organisationId: string
+    organisationId: string,
+    manifest?: AppliedManifest
   ): Promise<vscode.ChatResult> {
     // Check if GitHub is connected by listing installations
     const installationsResult = await this.api.listGitHubInstallations();
     const installations = (installationsResult.data as any)?.installations || [];
     const isGitHubConnected = installationsResult.success && installations.length > 0;
+    const name = manifest?.manifest.name || defaultAppName(project, gitInfo.repo);
+    const settings = manifest && deploymentSettings(manifest.settings, manifest.env);
 
     if (!isGitHubConnected) {
       // GitHub not connected - show options
       stream.markdown('## 📋 Project Analysis\n\n');
       stream.markdown(`**Detected:** ${detected.framework || detected.runtime || 'Unknown'} application\n`);
+      if (manifest) {
+        stream.markdown(`**Settings:** \`${MANIFEST_FILENAME}\`\n`);
+      }
       stream.markdown(`**Repository:** github.com/${gitInfo.owner}/${gitInfo.repo}\n`);
+      if (project.rootDirectory) {
+        stream.markdown(`**Directory:** ${project.rootDirectory}\n`);
+      }
       stream.markdown(`**Branch:** ${gitInfo.branch || 'main'}\n\n`);
       stream.markdown('⚠️ **GitHub not connected**\n\n');
       stream.markdown('To deploy from GitHub, Light Cloud needs access to your repository.\n\n');
@@ -102,10 +104,12 @@ export class DeployCommand {
         command: 'lightcloud.connectGitHubAndDeploy',
         title: '🔗 Connect GitHub & Deploy',
         arguments: [{
-          workspaceFolder: workspaceFolder.uri.fsPath,
-          name: gitInfo.repo || workspaceFolder.name,
+          workspaceFolder: project.workspaceFolder.uri.fsPath,
+          rootDirectory: project.rootDirectory,
+          name,
           gitInfo,
           detected,
+          settings,
           organisationId,
         }],
       });
@@ -113,9 +117,11 @@ export class DeployCommand {
         command: 'lightcloud.uploadAndDeploy',
         title: '📤 Upload instead',
         arguments: [{
-          workspaceFolder: workspaceFolder.uri.fsPath,
-          name: gitInfo.repo || workspaceFolder.name,
+          workspaceFolder: project.workspaceFolder.uri.fsPath,
+          rootDirectory: project.rootDirectory,
+          name,
           detected,
+          settings,
           organisationId,
         }],
       });
@@ -143,21 +149,33 @@ export class DeployCommand {
     // Show deployment info
     stream.markdown('## 🚀 Deploying...\n\n');
     stream.markdown(`**Project:** ${this.formatFramework(detected)}\n`);
-    stream.markdown(`**Source:** github.com/${gitInfo.owner}/${gitInfo.repo} (${gitInfo.branch} branch)\n\n`);
+    if (manifest) {
+      stream.markdown(`**Settings:** \`${MANIFEST_FILENAME}\`\n`);
+    }
+    stream.markdown(`**Source:** github.com/${gitInfo.owner}/${gitInfo.repo} (${gitInfo.branch} branch)\n`);
+    if (project.rootDirectory) {
+      stream.markdown(`**Directory:** ${project.rootDirectory}\n`);
+    }
+    stream.markdown('\n');
 
     stream.progress('Creating application...');
 
     // Actually deploy
     const result = await this.api.createApplication({
       targetOrganisationId: organisationId,
-      name: gitInfo.repo!,
+      name,
       githubRepoUrl: `https://github.com/${gitInfo.owner}/${gitInfo.repo}`,
       githubBranch: gitInfo.branch || 'main',
+      rootDirectory: project.rootDirectory || undefined,
       deploymentType: detected.deploymentType,
       framework: detected.framework,
       runtime: detected.runtime,
+      runtimeVersion: detected.runtimeVersion,
+      installCommand: detected.installCommand,
       buildCommand: detected.buildCommand,
+      startCommand: detected.startCommand,
       outputDirectory: detected.outputDirectory,
+      ...settings,
     });
 
     if (!result.success || !result.data) {
@@ -168,9 +186,9 @@ export class DeployCommand {
     const app = result.data as any;
     const prodEnv = app.environments?.find((e: any) => e.is_production) || app.environments?.[0];
 
-    // Save to .lightcloud config for /redeploy support
+    // Save to .lightcloud config for /redeploy support (in the app directory)
     const configManager = getConfigManager();
-    configManager.write({
+    await configManager.write({
       organisationId,
       applicationId: app.id,
       applicationName: app.name,
@@ -204,7 +222,7 @@ export class DeployCommand {
     stream.button({
       command: 'lightcloud.redeploy',
       title: '🔄 Redeploy',
-      arguments: [{ applicationId: app.id, organisationId }],
+      arguments: [{ applicationId: app.id, organisationId, projectPath: configManager.getDirectory() }],
     });
 
     return { metadata: { command: 'deploy', status: 'success', applicationId: app.id } };
@@ -213,16 +231,18 @@ export class DeployCommand {
   private async handleLocalDeploy(
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken,
-    workspaceFolder: vscode.WorkspaceFolder,
+    project: Project,
     gitInfo: GitInfo,
     detected: DetectedProject,
-    organisationId: string
+    organisationId: string,
+    manifest?: AppliedManifest
   ): Promise<vscode.ChatResult> {
-    const folderName = workspaceFolder.name;
-
     stream.markdown('## 📋 Project Analysis\n\n');
     stream.markdown(`**Detected:** ${this.formatFramework(detected)}\n`);
-    stream.markdown(`**Location:** ${workspaceFolder.uri.fsPath}\n\n`);
+    if (manifest) {
+      stream.markdown(`**Settings:** \`${MANIFEST_FILENAME}\`\n`);
+    }
+    stream.markdown(`**Location:** ${project.folder.uri.fsPath}\n\n`);
     stream.markdown('⚠️ No GitHub repository detected.\n\n');
     stream.markdown('How would you like to deploy?\n\n');
 
@@ -230,9 +250,11 @@ export class DeployCommand {
       command: 'lightcloud.uploadAndDeploy',
       title: '📤 Upload source directly',
       arguments: [{
-        workspaceFolder: workspaceFolder.uri.fsPath,
-        name: folderName,
+        workspaceFolder: project.workspaceFolder.uri.fsPath,
+        rootDirectory: project.rootDirectory,
+        name: manifest?.manifest.name || defaultAppName(project),
         detected,
+        settings: manifest && deploymentSettings(manifest.settings, manifest.env),
         organisationId,
       }],
     });
@@ -246,23 +268,17 @@ export class DeployCommand {
 
   private formatFramework(detected: DetectedProject): string {
     if (detected.framework) {
-      const frameworkNames: Record<string, string> = {
-        react: 'React',
-        nextjs: 'Next.js',
-        vue: 'Vue.js',
-        angular: 'Angular',
-        svelte: 'Svelte',
-        express: 'Express.js',
-        fastapi: 'FastAPI',
-        flask: 'Flask',
-      };
-      return `${frameworkNames[detected.framework] || detected.framework} application`;
+      return `${formatFrameworkName(detected.framework)} application`;
     }
     if (detected.runtime) {
       const runtimeNames: Record<string, string> = {
         nodejs: 'Node.js',
         python: 'Python',
         go: 'Go',
+        java: 'Java',
+        ruby: 'Ruby',
+        php: 'PHP',
+        dotnet: '.NET',
       };
       return `${runtimeNames[detected.runtime] || detected.runtime} application`;
     }
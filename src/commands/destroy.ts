@@ -3,6 +3,8 @@
 import * as vscode from 'vscode';
 import { LightCloudApi } from '../api/endpoints';
 import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { resolveOrganisation, checkLinkedOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
 
 export class DestroyCommand {
   constructor(private api: LightCloudApi) {}
@@ -12,13 +14,24 @@ export class DestroyCommand {
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken
   ): Promise<vscode.ChatResult> {
-    let target = request.prompt.trim();
+    const args = parseArgs(request.prompt, ['app']);
+    const orgFlag = getStringFlag(args, 'org');
+    const isAppDelete = args.flags['app'] === true;
+    const targetName = args.positional.join(' ');
     const configManager = getConfigManager();
 
     // If no target specified, check for .lightcloud config
-    if (!target) {
+    if (!targetName) {
       const savedConfig = configManager.read();
       if (savedConfig?.applicationId && savedConfig?.applicationName) {
+        if (savedConfig.organisationId) {
+          const orgFailure = await checkLinkedOrganisation(this.api, orgFlag, savedConfig.organisationId, savedConfig.applicationName);
+          if (orgFailure) {
+            showOrganisationFailure(stream, orgFailure);
+            return { metadata: { command: 'destroy', status: orgFailure.status } };
+          }
+        }
+
         // Use the saved application from config
         stream.markdown('## ⚠️ Delete Application\n\n');
         stream.markdown(`Found linked application from \`.lightcloud\` config.\n\n`);
@@ -40,6 +53,7 @@ export class DestroyCommand {
             id: savedConfig.applicationId,
             name: savedConfig.applicationName,
             organisationId: savedConfig.organisationId,
+            projectPath: configManager.getDirectory(),
           }],
         });
         stream.button({
@@ -47,6 +61,30 @@ export class DestroyCommand {
           title: '❌ Cancel',
         });
 
+        // Branch previews from /preview can go on their own once the branch is merged
+        const previews = Object.entries(savedConfig.previews || {});
+        if (previews.length > 0) {
+          stream.markdown('\n### Preview environments\n\n');
+          stream.markdown('To clean up a branch preview instead, delete just its environment:\n\n');
+          for (const [branch, preview] of previews) {
+            stream.markdown(`- \`${branch}\` → **${preview.environmentName}**${preview.url ? ` (${preview.url})` : ''}\n`);
+          }
+          stream.markdown('\n');
+          for (const [branch, preview] of previews) {
+            stream.button({
+              command: 'lightcloud.confirmDestroy',
+              title: `🧹 Delete ${branch} Preview`,
+              arguments: [{
+                type: 'environment',
+                id: preview.environmentId,
+                name: preview.environmentName,
+                organisationId: savedConfig.organisationId,
+                projectPath: configManager.getDirectory(),
+              }],
+            });
+          }
+        }
+
         return { metadata: { command: 'destroy', status: 'confirm', target: savedConfig.applicationName } };
       }
 
@@ -56,20 +94,15 @@ export class DestroyCommand {
       return { metadata: { command: 'destroy', status: 'missing-target' } };
     }
 
-    const profileResult = await this.api.getProfile();
-    if (!profileResult.success || !profileResult.data?.organisations?.length) {
-      stream.markdown('Could not fetch your profile.\n');
-      return { metadata: { command: 'destroy', status: 'error' } };
+    const organisation = await resolveOrganisation(this.api, orgFlag);
+    if ('status' in organisation) {
+      showOrganisationFailure(stream, organisation);
+      return { metadata: { command: 'destroy', status: organisation.status } };
     }
 
-    const organisation = profileResult.data.organisations[0];
     const appsResult = await this.api.listApplications(organisation.id);
     const apps = appsResult.data || [];
 
-    // Check if deleting entire app
-    const isAppDelete = target.includes('--app');
-    const targetName = target.replace('--app', '').trim();
-
     if (isAppDelete) {
       // Find app by name
       const app = apps.find(a =>
@@ -127,7 +160,7 @@ export class DestroyCommand {
           stream.button({
             command: 'lightcloud.confirmDestroy',
             title: '🗑️ Confirm Delete',
-            arguments: [{ type: 'environment', id: env.id, name: env.name, organisationId: organisation.id }],
+            arguments: [{ type: 'environment', id: env.id, name: env.name, organisationId: organisation.id, projectPath: configManager.getDirectory() }],
           });
           stream.button({
             command: 'lightcloud.cancel',
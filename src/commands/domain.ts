@@ -0,0 +1,237 @@
+// src/commands/domain.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { CustomDomain } from '../api/types';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { formatStatusEmoji, formatDuration } from '../utils/formatting';
+import { resolveEnvironment, showResolveFailure, ResolvedEnvironment } from '../utils/environment-resolver';
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+export class DomainCommand {
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const [subcommand, domainArg] = args.positional;
+
+    stream.progress('Resolving environment...');
+
+    const resolved = await resolveEnvironment(this.api, getStringFlag(args, 'env'), getStringFlag(args, 'org'));
+    if ('status' in resolved) {
+      showResolveFailure(stream, resolved);
+      return { metadata: { command: 'domain', status: resolved.status } };
+    }
+
+    const domain = (domainArg || resolved.environment.custom_domain || '').toLowerCase();
+
+    switch (subcommand) {
+      case undefined:
+        return this.show(stream, resolved);
+
+      case 'add':
+        return this.add(stream, token, resolved, domainArg?.toLowerCase());
+
+      case 'verify':
+        return this.verify(stream, token, resolved, domain);
+
+      case 'remove':
+        return this.remove(stream, resolved, domain);
+
+      default:
+        stream.markdown(`Unknown subcommand \`${subcommand}\`.\n\n`);
+        stream.markdown('```\n@lightcloud /domain add app.example.com\n@lightcloud /domain verify\n@lightcloud /domain remove app.example.com\n```\n');
+        return { metadata: { command: 'domain', status: 'unknown-subcommand' } };
+    }
+  }
+
+  private async show(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment
+  ): Promise<vscode.ChatResult> {
+    const { environment } = resolved;
+
+    stream.markdown('## 🌐 Custom Domain\n\n');
+    stream.markdown(`**Environment:** ${environment.name}\n`);
+    if (environment.url) {
+      stream.markdown(`**Default URL:** ${environment.url}\n`);
+    }
+
+    if (!environment.custom_domain) {
+      stream.markdown('\nNo custom domain configured.\n\n');
+      stream.markdown('```\n@lightcloud /domain add app.example.com\n```\n');
+      return { metadata: { command: 'domain', status: 'none' } };
+    }
+
+    stream.markdown(`**Custom domain:** ${environment.custom_domain}\n\n`);
+    stream.markdown('Use `/domain verify` to check DNS and certificate status.\n');
+    return { metadata: { command: 'domain', status: 'configured', domain: environment.custom_domain } };
+  }
+
+  private async add(
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    resolved: ResolvedEnvironment,
+    domain?: string
+  ): Promise<vscode.ChatResult> {
+    if (!domain || !DOMAIN_PATTERN.test(domain)) {
+      stream.markdown('Please provide a valid domain name:\n\n');
+      stream.markdown('```\n@lightcloud /domain add app.example.com\n```\n');
+      return { metadata: { command: 'domain', status: 'invalid-arguments' } };
+    }
+
+    const { organisationId, environment } = resolved;
+    stream.progress(`Adding ${domain}...`);
+
+    const result = await this.api.addCustomDomain(organisationId, environment.id, domain);
+    if (!result.success || !result.data) {
+      stream.markdown(`❌ **Could not add domain:** ${result.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'domain', status: 'error' } };
+    }
+
+    stream.markdown('## 🌐 Custom Domain Added\n\n');
+    stream.markdown(`**${domain}** → ${environment.name}\n\n`);
+    this.showDnsRecords(stream, result.data);
+
+    return this.waitForActive(stream, token, organisationId, environment.id, domain);
+  }
+
+  private async verify(
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    resolved: ResolvedEnvironment,
+    domain: string
+  ): Promise<vscode.ChatResult> {
+    if (!domain) {
+      stream.markdown('No custom domain configured. Use `/domain add <domain>` first.\n');
+      return { metadata: { command: 'domain', status: 'none' } };
+    }
+
+    stream.markdown(`## 🔍 Verifying ${domain}\n\n`);
+    return this.waitForActive(stream, token, resolved.organisationId, resolved.environment.id, domain);
+  }
+
+  private async remove(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment,
+    domain: string
+  ): Promise<vscode.ChatResult> {
+    if (!domain) {
+      stream.markdown('No custom domain configured on this environment.\n');
+      return { metadata: { command: 'domain', status: 'none' } };
+    }
+
+    const { organisationId, environment } = resolved;
+
+    stream.markdown('## ⚠️ Remove Custom Domain\n\n');
+    stream.markdown('```diff\n');
+    stream.markdown(`- Domain: ${domain}\n`);
+    stream.markdown(`- TLS certificate for ${domain}\n`);
+    stream.markdown('```\n\n');
+    stream.markdown(`**${environment.name}** will stay reachable at its default URL${environment.url ? ` (${environment.url})` : ''}.\n\n`);
+
+    stream.button({
+      command: 'lightcloud.confirmRemoveDomain',
+      title: '🗑️ Confirm Remove',
+      arguments: [{ organisationId, environmentId: environment.id, domain }],
+    });
+    stream.button({
+      command: 'lightcloud.cancel',
+      title: '❌ Cancel',
+    });
+
+    return { metadata: { command: 'domain', status: 'confirm', domain } };
+  }
+
+  /**
+   * Poll verification until the domain is active, fails, the wait times out or the request is cancelled
+   */
+  private async waitForActive(
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    organisationId: string,
+    environmentId: string,
+    domain: string
+  ): Promise<vscode.ChatResult> {
+    const maxWaitMs = 3 * 60 * 1000; // 3 minutes
+    const pollIntervalMs = 5000;
+    const startTime = Date.now();
+    let lastStatus: string | undefined;
+    let current: CustomDomain | undefined;
+
+    while (Date.now() - startTime < maxWaitMs && !token.isCancellationRequested) {
+      const result = await this.api.verifyCustomDomain(organisationId, environmentId, domain);
+
+      if (!result.success || !result.data) {
+        stream.markdown(`❌ **Verification failed:** ${result.error?.message || 'Unknown error'}\n`);
+        return { metadata: { command: 'domain', status: 'error' } };
+      }
+
+      current = result.data;
+      const statusLine = `${current.status}${current.tls_status ? ` (TLS: ${current.tls_status})` : ''}`;
+      if (statusLine !== lastStatus) {
+        stream.markdown(`${formatStatusEmoji(current.status)} ${statusLine} — ${formatDuration(Date.now() - startTime)}\n\n`);
+        lastStatus = statusLine;
+      }
+
+      if (current.status === 'active') {
+        stream.markdown(`## ✅ ${domain} is live\n\n`);
+        stream.markdown(`🔗 **URL:** https://${domain}\n`);
+        return { metadata: { command: 'domain', status: 'active', domain } };
+      }
+
+      if (current.status === 'failed') {
+        stream.markdown(`❌ **Domain setup failed:** ${current.error_message || 'Unknown error'}\n\n`);
+        this.showDnsRecords(stream, current);
+        return { metadata: { command: 'domain', status: 'failed', domain } };
+      }
+
+      stream.progress(`Waiting for ${current.status === 'pending_dns' ? 'DNS records' : 'certificate'}...`);
+      await this.sleep(pollIntervalMs, token);
+    }
+
+    if (token.isCancellationRequested) {
+      stream.markdown(`⏹️ Stopped checking **${domain}**. Setup carries on in Light Cloud; run \`/domain verify\` to check on it.\n`);
+      return { metadata: { command: 'domain', status: 'cancelled', domain } };
+    }
+
+    stream.markdown(`⏳ **${domain}** is not active yet. DNS changes can take up to 48 hours to propagate.\n\n`);
+    stream.markdown('Run `/domain verify` again later to check progress.\n');
+    return { metadata: { command: 'domain', status: current?.status || 'pending', domain } };
+  }
+
+  /**
+   * Wait between polls, returning early when the request is cancelled
+   */
+  private sleep(ms: number, token: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      const listener = token.onCancellationRequested(done);
+    });
+  }
+
+  private showDnsRecords(stream: vscode.ChatResponseStream, domain: CustomDomain): void {
+    if (!domain.dns_records.length) {
+      return;
+    }
+
+    stream.markdown('Create these DNS records with your DNS provider:\n\n');
+    stream.markdown('| Type | Name | Value | Status |\n');
+    stream.markdown('|------|------|-------|--------|\n');
+    for (const record of domain.dns_records) {
+      const status = record.verified ? '✅ Found' : '⏳ Not found';
+      stream.markdown(`| ${record.type} | \`${record.name}\` | \`${record.value}\` | ${status} |\n`);
+    }
+    stream.markdown('\n');
+  }
+}
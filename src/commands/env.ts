@@ -0,0 +1,376 @@
+// src/commands/env.ts
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LightCloudApi } from '../api/endpoints';
+import { EnvParser } from '../detection/env-parser';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { formatMaskedValue, formatRelativeTime } from '../utils/formatting';
+import { resolveEnvironment, resolvePaletteEnvironment, showResolveFailure, ResolvedEnvironment } from '../utils/environment-resolver';
+import { getConfigManager, runInProject } from '../utils/config-manager';
+import { resolveProject } from '../utils/project-resolver';
+
+const ENV_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/i;
+
+export class EnvCommand {
+  private envParser = new EnvParser();
+
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const [subcommand = 'list', ...rest] = args.positional;
+
+    stream.progress('Resolving environment...');
+
+    const resolved = await resolveEnvironment(this.api, getStringFlag(args, 'env'), getStringFlag(args, 'org'));
+    if ('status' in resolved) {
+      showResolveFailure(stream, resolved);
+      return { metadata: { command: 'env', status: resolved.status } };
+    }
+
+    switch (subcommand) {
+      case 'list':
+        return this.list(stream, resolved);
+
+      case 'set':
+        return this.set(stream, resolved, rest);
+
+      case 'unset':
+        return this.unset(stream, resolved, rest);
+
+      case 'import':
+        return this.import(stream, resolved, rest[0] || '.env', workspaceFolder);
+
+      default:
+        stream.markdown(`Unknown subcommand \`${subcommand}\`.\n\n`);
+        stream.markdown('```\n@lightcloud /env list\n@lightcloud /env set KEY=value\n@lightcloud /env unset KEY\n@lightcloud /env import .env.production\n```\n');
+        stream.markdown('\nAdd `--env <name>` to target an environment other than the linked one.\n');
+        return { metadata: { command: 'env', status: 'unknown-subcommand' } };
+    }
+  }
+
+  private async list(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment
+  ): Promise<vscode.ChatResult> {
+    const { organisationId, applicationName, environment } = resolved;
+    const result = await this.api.listEnvironmentVariables(organisationId, environment.id);
+
+    if (!result.success) {
+      stream.markdown(`❌ **Could not fetch environment variables:** ${result.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'env', status: 'error' } };
+    }
+
+    const variables = result.data || [];
+
+    stream.markdown(`## 🔐 Environment Variables\n\n`);
+    stream.markdown(`**Application:** ${applicationName}\n`);
+    stream.markdown(`**Environment:** ${environment.name}\n\n`);
+
+    if (variables.length === 0) {
+      stream.markdown('No environment variables set.\n\n');
+      stream.markdown('Use `/env set KEY=value` or `/env import` to add some.\n');
+      return { metadata: { command: 'env', status: 'empty' } };
+    }
+
+    stream.markdown('| Variable | Value | Updated |\n');
+    stream.markdown('|----------|-------|---------|\n');
+    for (const v of variables) {
+      const updated = v.updated_at ? formatRelativeTime(v.updated_at) : '-';
+      stream.markdown(`| \`${v.key}\` | \`${formatMaskedValue(v.value)}\` | ${updated} |\n`);
+    }
+    stream.markdown('\n*Values are masked. Use the Light Cloud console to reveal them.*\n');
+
+    return { metadata: { command: 'env', status: 'success', count: variables.length } };
+  }
+
+  private async set(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment,
+    assignments: string[]
+  ): Promise<vscode.ChatResult> {
+    const variables: Record<string, string> = {};
+    const invalid: string[] = [];
+
+    for (const assignment of assignments) {
+      const eq = assignment.indexOf('=');
+      const key = eq > 0 ? assignment.slice(0, eq) : '';
+      if (!ENV_KEY_PATTERN.test(key)) {
+        invalid.push(assignment);
+        continue;
+      }
+      variables[key] = assignment.slice(eq + 1);
+    }
+
+    if (invalid.length > 0 || Object.keys(variables).length === 0) {
+      stream.markdown('Please provide variables as `KEY=value`:\n\n');
+      stream.markdown('```\n@lightcloud /env set API_URL=https://api.example.com DEBUG=false\n```\n');
+      return { metadata: { command: 'env', status: 'invalid-arguments' } };
+    }
+
+    return this.apply(stream, resolved, variables, 'set');
+  }
+
+  private async unset(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment,
+    keys: string[]
+  ): Promise<vscode.ChatResult> {
+    if (keys.length === 0) {
+      stream.markdown('Please specify the variables to remove:\n\n');
+      stream.markdown('```\n@lightcloud /env unset API_KEY\n```\n');
+      return { metadata: { command: 'env', status: 'invalid-arguments' } };
+    }
+
+    const { organisationId, applicationId, environment } = resolved;
+    stream.progress(`Removing ${keys.length} variable${keys.length > 1 ? 's' : ''}...`);
+
+    const result = await this.api.deleteEnvironmentVariables(organisationId, environment.id, keys);
+    if (!result.success) {
+      stream.markdown(`❌ **Could not remove variables:** ${result.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'env', status: 'error' } };
+    }
+
+    stream.markdown(`✅ Removed from **${environment.name}**:\n\n`);
+    stream.markdown('```diff\n');
+    for (const key of keys) {
+      stream.markdown(`- ${key}\n`);
+    }
+    stream.markdown('```\n\n');
+    this.showRedeployHint(stream, organisationId, applicationId);
+
+    return { metadata: { command: 'env', status: 'success', removed: keys.length } };
+  }
+
+  private async import(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment,
+    fileName: string,
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<vscode.ChatResult> {
+    if (!workspaceFolder) {
+      stream.markdown('Please open a project folder to import a `.env` file.\n');
+      return { metadata: { command: 'env', status: 'no-workspace' } };
+    }
+
+    // Only files of the app itself, not `../../other/.env`
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, path.resolve(workspaceFolder.uri.fsPath, fileName));
+    if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      stream.markdown(`❌ \`${fileName}\` is outside ${workspaceFolder.name}. Import a file from the app directory.\n`);
+      return { metadata: { command: 'env', status: 'invalid-arguments' } };
+    }
+
+    if (!fs.existsSync(path.join(workspaceFolder.uri.fsPath, relativePath))) {
+      stream.markdown(`File \`${fileName}\` not found in ${workspaceFolder.name}.\n`);
+      return { metadata: { command: 'env', status: 'not-found' } };
+    }
+
+    const variables = this.envParser.parseEnvFile(workspaceFolder, relativePath);
+    const count = Object.keys(variables).length;
+    if (count === 0) {
+      stream.markdown(`No variables with values found in \`${fileName}\`.\n`);
+      return { metadata: { command: 'env', status: 'empty' } };
+    }
+
+    if (!await this.confirmImport(fileName, count, resolved.environment.name)) {
+      stream.markdown('Import cancelled. No variables were changed.\n');
+      return { metadata: { command: 'env', status: 'cancelled' } };
+    }
+
+    return this.apply(stream, resolved, variables, 'import');
+  }
+
+  private async apply(
+    stream: vscode.ChatResponseStream,
+    resolved: ResolvedEnvironment,
+    variables: Record<string, string>,
+    action: 'set' | 'import'
+  ): Promise<vscode.ChatResult> {
+    const { organisationId, applicationId, environment } = resolved;
+
+    // Fetch current values so we can show what changes
+    const existingResult = await this.api.listEnvironmentVariables(organisationId, environment.id);
+    const existing = new Map((existingResult.data || []).map(v => [v.key, v.value]));
+
+    stream.progress('Updating environment variables...');
+
+    const result = await this.api.setEnvironmentVariables(organisationId, environment.id, variables);
+    if (!result.success) {
+      stream.markdown(`❌ **Could not update variables:** ${result.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'env', status: 'error' } };
+    }
+
+    stream.markdown(`✅ Updated **${environment.name}**:\n\n`);
+    stream.markdown('```diff\n');
+    for (const [key, value] of Object.entries(variables)) {
+      if (!existing.has(key)) {
+        stream.markdown(`+ ${key}=${formatMaskedValue(value)}\n`);
+      } else if (existing.get(key) !== value) {
+        stream.markdown(`~ ${key}=${formatMaskedValue(value)}\n`);
+      } else {
+        stream.markdown(`  ${key} (unchanged)\n`);
+      }
+    }
+    stream.markdown('```\n\n');
+    this.showRedeployHint(stream, organisationId, applicationId);
+
+    return { metadata: { command: 'env', status: 'success', action, count: Object.keys(variables).length } };
+  }
+
+  private showRedeployHint(stream: vscode.ChatResponseStream, organisationId: string, applicationId: string): void {
+    stream.markdown('Changes take effect on the next deployment.\n\n');
+    stream.button({
+      command: 'lightcloud.redeploy',
+      title: '🔄 Redeploy',
+      arguments: [{ applicationId, organisationId, projectPath: getConfigManager().getDirectory() }],
+    });
+  }
+
+  // ============ Command Palette ============
+
+  /**
+   * Prompt for a key and value and set it on the linked environment
+   */
+  async promptSet(): Promise<void> {
+    const resolved = await this.resolveForPalette();
+    if (!resolved) return;
+
+    const key = await vscode.window.showInputBox({
+      title: `Set Environment Variable (${resolved.environment.name})`,
+      prompt: 'Variable name',
+      placeHolder: 'API_KEY',
+      validateInput: (value) => ENV_KEY_PATTERN.test(value) ? undefined : 'Use letters, digits and underscores only',
+    });
+    if (!key) return;
+
+    const value = await vscode.window.showInputBox({
+      title: `Set ${key}`,
+      prompt: 'Value',
+      password: true,
+    });
+    if (value === undefined) return;
+
+    const result = await this.api.setEnvironmentVariables(
+      resolved.organisationId,
+      resolved.environment.id,
+      { [key]: value }
+    );
+
+    if (result.success) {
+      vscode.window.showInformationMessage(`${key} set on ${resolved.environment.name}. Redeploy to apply.`);
+    } else {
+      vscode.window.showErrorMessage(`Could not set ${key}: ${result.error?.message}`);
+    }
+  }
+
+  /**
+   * Pick variables to remove from the linked environment
+   */
+  async promptUnset(): Promise<void> {
+    const resolved = await this.resolveForPalette();
+    if (!resolved) return;
+
+    const listResult = await this.api.listEnvironmentVariables(resolved.organisationId, resolved.environment.id);
+    if (!listResult.success) {
+      vscode.window.showErrorMessage(`Could not fetch environment variables: ${listResult.error?.message}`);
+      return;
+    }
+
+    const variables = listResult.data || [];
+    if (variables.length === 0) {
+      vscode.window.showInformationMessage(`No environment variables set on ${resolved.environment.name}.`);
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      variables.map(v => ({ label: v.key, description: formatMaskedValue(v.value) })),
+      { title: 'Remove Environment Variables', placeHolder: 'Select variables to remove', canPickMany: true }
+    );
+    if (!selected?.length) return;
+
+    const keys = selected.map(s => s.label);
+    const result = await this.api.deleteEnvironmentVariables(resolved.organisationId, resolved.environment.id, keys);
+
+    if (result.success) {
+      vscode.window.showInformationMessage(`Removed ${keys.join(', ')} from ${resolved.environment.name}. Redeploy to apply.`);
+    } else {
+      vscode.window.showErrorMessage(`Could not remove variables: ${result.error?.message}`);
+    }
+  }
+
+  /**
+   * Pick a .env file from the linked app directory and import it into its environment
+   */
+  async promptImport(): Promise<void> {
+    const project = await resolveProject(undefined, { linkedOnly: true, placeHolder: 'Select the app to import variables into' });
+    if ('status' in project) {
+      if (project.status !== 'cancelled') {
+        vscode.window.showErrorMessage(project.message);
+      }
+      return;
+    }
+    const workspaceFolder = project.folder;
+
+    const envFiles = fs.readdirSync(workspaceFolder.uri.fsPath)
+      .filter(name => name === '.env' || name.startsWith('.env.'));
+    if (envFiles.length === 0) {
+      vscode.window.showErrorMessage(`No .env files found in ${project.name}.`);
+      return;
+    }
+
+    const fileName = envFiles.length === 1
+      ? envFiles[0]
+      : await vscode.window.showQuickPick(envFiles, { title: 'Import Environment Variables', placeHolder: 'Select a .env file' });
+    if (!fileName) return;
+
+    const resolved = await runInProject(workspaceFolder.uri.fsPath, () => resolveEnvironment(this.api));
+    if ('status' in resolved) {
+      vscode.window.showErrorMessage(resolved.message);
+      return;
+    }
+
+    const variables = this.envParser.parseEnvFile(workspaceFolder, fileName);
+    const count = Object.keys(variables).length;
+    if (count === 0) {
+      vscode.window.showInformationMessage(`No variables with values found in ${fileName}.`);
+      return;
+    }
+
+    if (!await this.confirmImport(fileName, count, resolved.environment.name)) return;
+
+    const result = await this.api.setEnvironmentVariables(resolved.organisationId, resolved.environment.id, variables);
+
+    if (result.success) {
+      vscode.window.showInformationMessage(`Imported ${count} variables into ${resolved.environment.name}. Redeploy to apply.`);
+    } else {
+      vscode.window.showErrorMessage(`Import failed: ${result.error?.message}`);
+    }
+  }
+
+  private async confirmImport(fileName: string, count: number, environmentName: string): Promise<boolean> {
+    const confirm = await vscode.window.showWarningMessage(
+      `Import ${count} variable${count > 1 ? 's' : ''} from ${fileName} into ${environmentName}? Existing values will be overwritten.`,
+      { modal: true },
+      'Import'
+    );
+    return confirm === 'Import';
+  }
+
+  private async resolveForPalette(): Promise<ResolvedEnvironment | null> {
+    const resolved = await resolvePaletteEnvironment(this.api);
+    if ('status' in resolved) {
+      if (resolved.status !== 'cancelled') {
+        vscode.window.showErrorMessage(resolved.message);
+      }
+      return null;
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,167 @@
+// src/commands/history.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Deployment } from '../api/types';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { formatStatusEmoji, formatDuration, formatCommit, formatRelativeTime } from '../utils/formatting';
+import { resolveEnvironment, resolvePaletteEnvironment, showResolveFailure } from '../utils/environment-resolver';
+import { DeploymentLogsProvider } from '../views/deployment-logs-provider';
+
+const DEFAULT_LIMIT = 15;
+
+export class HistoryCommand {
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const limit = parseInt(getStringFlag(args, 'limit') || '', 10) || DEFAULT_LIMIT;
+
+    stream.progress('Fetching deployment history...');
+
+    const resolved = await resolveEnvironment(this.api, getStringFlag(args, 'env') || args.positional[0], getStringFlag(args, 'org'));
+    if ('status' in resolved) {
+      showResolveFailure(stream, resolved);
+      return { metadata: { command: 'history', status: resolved.status } };
+    }
+
+    const { organisationId, applicationName, environment } = resolved;
+    const deployments = await this.fetchDeployments(organisationId, environment.id);
+
+    if (!deployments) {
+      stream.markdown('❌ **Could not fetch deployment history.**\n');
+      return { metadata: { command: 'history', status: 'error' } };
+    }
+
+    stream.markdown('## 🕘 Deployment History\n\n');
+    stream.markdown(`**Application:** ${applicationName}\n`);
+    stream.markdown(`**Environment:** ${environment.name}\n\n`);
+
+    if (deployments.length === 0) {
+      stream.markdown('No deployments found.\n');
+      return { metadata: { command: 'history', status: 'empty' } };
+    }
+
+    // Command links need a trusted MarkdownString restricted to the logs command
+    const table = new vscode.MarkdownString('', true);
+    table.isTrusted = { enabledCommands: ['lightcloud.showDeploymentLogs'] };
+
+    table.appendMarkdown('| Started | Stage | Status | Duration | Commit | Logs |\n');
+    table.appendMarkdown('|---------|-------|--------|----------|--------|------|\n');
+
+    for (const deployment of deployments.slice(0, limit)) {
+      const logsArgs = encodeURIComponent(JSON.stringify([{ organisationId, deploymentId: deployment.id }]));
+      const logsLink = `[View](command:lightcloud.showDeploymentLogs?${logsArgs})`;
+
+      table.appendMarkdown(
+        `| ${formatRelativeTime(deployment.started_at)} ` +
+        `| ${deployment.deployment_stage || '-'} ` +
+        `| ${formatStatusEmoji(deployment.status)} ${deployment.status} ` +
+        `| ${this.formatDeploymentDuration(deployment)} ` +
+        `| ${formatCommit(deployment.commit_sha, deployment.commit_message, 40)} ` +
+        `| ${logsLink} |\n`
+      );
+    }
+
+    stream.markdown(table);
+
+    if (deployments.length > limit) {
+      stream.markdown(`\n*Showing ${limit} of ${deployments.length} deployments. Use \`--limit <n>\` to see more.*\n`);
+    }
+
+    stream.button({
+      command: 'lightcloud.showHistory',
+      title: '🕘 Browse History',
+      arguments: [{ organisationId, environmentId: environment.id, environmentName: environment.name }],
+    });
+
+    return { metadata: { command: 'history', status: 'success', count: deployments.length } };
+  }
+
+  /**
+   * Quick pick over the deployment history; opens the selected deployment's logs
+   */
+  async showHistory(args?: { organisationId: string; environmentId: string; environmentName?: string }): Promise<void> {
+    if (!args?.organisationId || !args?.environmentId) {
+      const resolved = await resolvePaletteEnvironment(this.api);
+      if ('status' in resolved) {
+        if (resolved.status !== 'cancelled') {
+          vscode.window.showErrorMessage(resolved.message);
+        }
+        return;
+      }
+      args = {
+        organisationId: resolved.organisationId,
+        environmentId: resolved.environment.id,
+        environmentName: resolved.environment.name,
+      };
+    }
+
+    const deployments = await this.fetchDeployments(args.organisationId, args.environmentId);
+    if (!deployments) {
+      vscode.window.showErrorMessage('Could not fetch deployment history.');
+      return;
+    }
+    if (deployments.length === 0) {
+      vscode.window.showInformationMessage('No deployments found.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      deployments.map(d => ({
+        label: `${formatStatusEmoji(d.status)} ${d.commit_sha?.slice(0, 7) || d.id}`,
+        description: `${d.status} · ${this.formatDeploymentDuration(d)} · ${formatRelativeTime(d.started_at)}`,
+        detail: [d.deployment_stage, d.commit_message?.split('\n')[0]].filter(Boolean).join(' — '),
+        deployment: d,
+      })),
+      {
+        title: `Deployment History${args.environmentName ? ` (${args.environmentName})` : ''}`,
+        placeHolder: 'Select a deployment to view its logs',
+        matchOnDescription: true,
+        matchOnDetail: true,
+      }
+    );
+
+    if (selected) {
+      await this.showDeploymentLogs({ organisationId: args.organisationId, deploymentId: selected.deployment.id });
+    }
+  }
+
+  /**
+   * Open a deployment's logs in a read-only virtual document
+   */
+  async showDeploymentLogs(args?: { organisationId: string; deploymentId: string }): Promise<void> {
+    if (!args?.organisationId || !args?.deploymentId) {
+      vscode.window.showErrorMessage('No deployment specified.');
+      return;
+    }
+
+    const uri = DeploymentLogsProvider.uriFor(args.organisationId, args.deploymentId);
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.languages.setTextDocumentLanguage(document, 'log');
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  private async fetchDeployments(organisationId: string, environmentId: string): Promise<Deployment[] | null> {
+    const result = await this.api.listDeployments(organisationId, environmentId);
+    if (!result.success) {
+      return null;
+    }
+
+    return [...(result.data || [])].sort(
+      (a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime()
+    );
+  }
+
+  private formatDeploymentDuration(deployment: Deployment): string {
+    if (!deployment.completed_at) {
+      return ['pending', 'building', 'deploying'].includes(deployment.status) ? 'in progress' : '-';
+    }
+    const durationMs = new Date(deployment.completed_at).getTime() - new Date(deployment.started_at).getTime();
+    return formatDuration(Math.max(0, durationMs));
+  }
+}
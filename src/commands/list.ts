@@ -3,6 +3,8 @@
 import * as vscode from 'vscode';
 import { LightCloudApi } from '../api/endpoints';
 import { formatStatusEmoji } from '../utils/formatting';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { resolveOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
 
 export class ListCommand {
   constructor(private api: LightCloudApi) {}
@@ -12,15 +14,15 @@ export class ListCommand {
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken
   ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
     stream.progress('Fetching applications...');
 
-    const profileResult = await this.api.getProfile();
-    if (!profileResult.success || !profileResult.data?.organisations?.length) {
-      stream.markdown('Could not fetch your profile.\n');
-      return { metadata: { command: 'list', status: 'error' } };
+    const organisation = await resolveOrganisation(this.api, getStringFlag(args, 'org'));
+    if ('status' in organisation) {
+      showOrganisationFailure(stream, organisation);
+      return { metadata: { command: 'list', status: organisation.status } };
     }
 
-    const organisation = profileResult.data.organisations[0];
     const appsResult = await this.api.listApplications(organisation.id);
 
     if (!appsResult.success) {
@@ -32,6 +34,7 @@ export class ListCommand {
 
     if (apps.length === 0) {
       stream.markdown('## 📦 Applications\n\n');
+      stream.markdown(`**Organisation:** ${organisation.name}\n\n`);
       stream.markdown('No applications found.\n\n');
       stream.markdown('Use `/deploy` to create your first application!\n');
       return { metadata: { command: 'list', status: 'empty' } };
@@ -42,6 +45,7 @@ export class ListCommand {
     const consoleUrl = config.get('consoleUrl') || 'https://console.light-cloud.com';
 
     stream.markdown('## 📦 Applications\n\n');
+    stream.markdown(`**Organisation:** ${organisation.name}\n\n`);
     stream.markdown(`Found ${apps.length} application${apps.length > 1 ? 's' : ''}:\n\n`);
 
     for (const app of apps) {
@@ -67,6 +71,6 @@ export class ListCommand {
 
     stream.markdown('Use `/status <app-name>` to see details for a specific app.\n');
 
-    return { metadata: { command: 'list', status: 'success', count: apps.length } };
+    return { metadata: { command: 'list', status: 'success', count: apps.length, organisationId: organisation.id } };
   }
 }
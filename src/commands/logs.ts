@@ -0,0 +1,312 @@
+// src/commands/logs.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { createLogFilter, parseDuration, parseSeverity, LogSeverity } from '../utils/log-filter';
+import { resolveEnvironment, resolvePaletteEnvironment, showResolveFailure } from '../utils/environment-resolver';
+
+const RECENT_LOG_LIMIT = 500;
+const CHAT_LOG_LINES = 50;
+const MAX_FOLLOW_MS = 30 * 60 * 1000; // 30 minutes
+
+interface LogTarget {
+  organisationId: string;
+  environmentId: string;
+  environmentName?: string;
+  grep?: string;
+  level?: LogSeverity;
+  since?: string;
+}
+
+// Shared across the chat participant and command palette so logs always land in one place
+let logsChannel: vscode.OutputChannel | undefined;
+
+function getLogsChannel(): vscode.OutputChannel {
+  if (!logsChannel) {
+    logsChannel = vscode.window.createOutputChannel('Light Cloud Logs', 'log');
+  }
+  return logsChannel;
+}
+
+export class LogsCommand {
+  private stopActiveTail?: () => void;
+
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt, ['follow']);
+    const follow = args.flags['follow'] === true;
+    const grep = getStringFlag(args, 'grep');
+
+    let since: string | undefined;
+    const sinceFlag = getStringFlag(args, 'since');
+    if (sinceFlag) {
+      const sinceMs = parseDuration(sinceFlag);
+      if (!sinceMs) {
+        stream.markdown(`Invalid \`--since\` value \`${sinceFlag}\`. Use a duration like \`30s\`, \`10m\`, \`2h\` or \`1d\`.\n`);
+        return { metadata: { command: 'logs', status: 'invalid-arguments' } };
+      }
+      since = new Date(Date.now() - sinceMs).toISOString();
+    }
+
+    let level: LogSeverity | undefined;
+    const levelFlag = getStringFlag(args, 'level');
+    if (levelFlag) {
+      level = parseSeverity(levelFlag);
+      if (!level) {
+        stream.markdown(`Invalid \`--level\` value \`${levelFlag}\`. Use \`debug\`, \`info\`, \`warning\` or \`error\`.\n`);
+        return { metadata: { command: 'logs', status: 'invalid-arguments' } };
+      }
+    }
+
+    stream.progress('Fetching logs...');
+
+    const resolved = await resolveEnvironment(this.api, getStringFlag(args, 'env') || args.positional[0], getStringFlag(args, 'org'));
+    if ('status' in resolved) {
+      showResolveFailure(stream, resolved);
+      return { metadata: { command: 'logs', status: resolved.status } };
+    }
+
+    const target: LogTarget = {
+      organisationId: resolved.organisationId,
+      environmentId: resolved.environment.id,
+      environmentName: resolved.environment.name,
+      grep,
+      level,
+      since,
+    };
+    const filter = createLogFilter({ grep, level });
+
+    const logsResult = await this.api.getEnvironmentLogs(target.organisationId, target.environmentId, {
+      since,
+      limit: RECENT_LOG_LIMIT,
+    });
+    if (!logsResult.success) {
+      stream.markdown(`❌ **Could not fetch logs:** ${logsResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'logs', status: 'error' } };
+    }
+
+    const lines = (logsResult.data || []).filter(filter);
+    const channel = getLogsChannel();
+    this.writeHeader(channel, target);
+    lines.forEach(line => channel.appendLine(line));
+
+    stream.markdown(`## 📜 Logs: ${resolved.environment.name}\n\n`);
+    const filters = this.describeFilters(target, sinceFlag);
+    if (filters) {
+      stream.markdown(`*${filters}*\n\n`);
+    }
+
+    if (!follow) {
+      if (lines.length === 0) {
+        stream.markdown('No matching log lines.\n\n');
+      } else {
+        const shown = lines.slice(-CHAT_LOG_LINES);
+        if (lines.length > shown.length) {
+          stream.markdown(`Showing the last ${shown.length} of ${lines.length} lines. The full output is in the **Light Cloud Logs** panel.\n\n`);
+        }
+        stream.markdown('```log\n' + shown.join('\n') + '\n```\n\n');
+      }
+
+      stream.button({
+        command: 'lightcloud.streamLogs',
+        title: '▶️ Follow',
+        arguments: [target],
+      });
+      stream.button({
+        command: 'lightcloud.openLogs',
+        title: '📄 Open in Output',
+        arguments: [target],
+      });
+
+      return { metadata: { command: 'logs', status: 'success', count: lines.length } };
+    }
+
+    // Follow mode - tail until the chat request is cancelled
+    if (lines.length > 0) {
+      stream.markdown('```log\n' + lines.slice(-CHAT_LOG_LINES).join('\n') + '\n```\n\n');
+    }
+    stream.markdown('Following new log lines. Stop the chat request to end.\n\n');
+    stream.markdown('```log\n');
+
+    const ended = await this.follow(target, filter, (line) => {
+      if (!token.isCancellationRequested) {
+        stream.markdown(`${line}\n`);
+      }
+    }, token);
+
+    stream.markdown('```\n\n');
+    stream.markdown(`*Stopped following logs${ended === 'timeout' ? ' after 30 minutes' : ''}.*\n`);
+    return { metadata: { command: 'logs', status: 'followed', reason: ended } };
+  }
+
+  /**
+   * Show recent logs in the Light Cloud Logs output channel
+   */
+  async openLogs(args?: Partial<LogTarget>): Promise<void> {
+    const target = await this.resolveTarget(args);
+    if (!target) return;
+
+    const channel = getLogsChannel();
+    this.writeHeader(channel, target);
+    channel.show(true);
+
+    const result = await this.api.getEnvironmentLogs(target.organisationId, target.environmentId, {
+      since: target.since,
+      limit: RECENT_LOG_LIMIT,
+    });
+
+    if (!result.success) {
+      channel.appendLine(`Could not fetch logs: ${result.error?.message || 'Unknown error'}`);
+      return;
+    }
+
+    const lines = (result.data || []).filter(createLogFilter(target));
+    if (lines.length === 0) {
+      channel.appendLine('No logs available.');
+      return;
+    }
+    lines.forEach(line => channel.appendLine(line));
+  }
+
+  /**
+   * Tail logs into the Light Cloud Logs output channel until stopped
+   */
+  async streamLogs(args?: Partial<LogTarget>): Promise<void> {
+    const target = await this.resolveTarget(args);
+    if (!target) return;
+
+    const channel = getLogsChannel();
+    this.writeHeader(channel, target);
+    channel.appendLine('Following live logs. Run "Light Cloud: Stop Following Logs" to end.');
+    channel.appendLine('');
+    channel.show(true);
+
+    const cancellation = new vscode.CancellationTokenSource();
+    this.follow(target, createLogFilter(target), () => {}, cancellation.token).then((ended) => {
+      channel.appendLine('');
+      channel.appendLine(`Stopped following logs${ended === 'timeout' ? ' after 30 minutes' : ''}.`);
+      cancellation.dispose();
+    });
+  }
+
+  stopLogs(): void {
+    if (this.stopActiveTail) {
+      this.stopActiveTail();
+    } else {
+      vscode.window.showInformationMessage('No log stream is running.');
+    }
+  }
+
+  dispose(): void {
+    this.stopActiveTail?.();
+  }
+
+  /**
+   * Stream logs into the output channel (and `onLine`) until cancelled, stopped or timed out.
+   * Only one tail runs at a time; starting a new one stops the previous.
+   */
+  private async follow(
+    target: LogTarget,
+    filter: (line: string) => boolean,
+    onLine: (line: string) => void,
+    token: vscode.CancellationToken
+  ): Promise<'cancelled' | 'stopped' | 'timeout' | 'error'> {
+    this.stopActiveTail?.();
+
+    const channel = getLogsChannel();
+
+    let resolveEnded: (reason: 'cancelled' | 'stopped' | 'timeout' | 'error') => void = () => {};
+    const ended = new Promise<'cancelled' | 'stopped' | 'timeout' | 'error'>(resolve => {
+      resolveEnded = resolve;
+    });
+
+    let stopStream: (() => void) | undefined;
+    let finished = false;
+
+    const finish = (reason: 'cancelled' | 'stopped' | 'timeout' | 'error') => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      cancellationListener.dispose();
+      stopStream?.();
+      if (this.stopActiveTail === stop) {
+        this.stopActiveTail = undefined;
+      }
+      resolveEnded(reason);
+    };
+
+    const stop = () => finish('stopped');
+    const timer = setTimeout(() => finish('timeout'), MAX_FOLLOW_MS);
+    const cancellationListener = token.onCancellationRequested(() => finish('cancelled'));
+    this.stopActiveTail = stop;
+
+    stopStream = await this.api.streamEnvironmentLogs(target.organisationId, target.environmentId, {
+      onLog: (line) => {
+        if (finished || !filter(line)) return;
+        channel.appendLine(line);
+        onLine(line);
+      },
+      onStage: (event) => {
+        channel.appendLine(`--- ${event.stage}${event.status ? ` (${event.status})` : ''} ---`);
+      },
+      onComplete: (event) => {
+        channel.appendLine(`--- Build finished: ${event.status} ---`);
+      },
+      onError: (error) => {
+        channel.appendLine(`Stream error: ${error.message}`);
+        finish('error');
+      },
+    }, { closeOnComplete: false });
+
+    // The tail may have been stopped while the stream was connecting
+    if (finished) {
+      stopStream();
+    }
+
+    return ended;
+  }
+
+  private async resolveTarget(args?: Partial<LogTarget>): Promise<LogTarget | null> {
+    if (args?.organisationId && args?.environmentId) {
+      return args as LogTarget;
+    }
+
+    const resolved = await resolvePaletteEnvironment(this.api);
+    if ('status' in resolved) {
+      if (resolved.status !== 'cancelled') {
+        vscode.window.showErrorMessage(resolved.message);
+      }
+      return null;
+    }
+
+    return {
+      ...args,
+      organisationId: resolved.organisationId,
+      environmentId: resolved.environment.id,
+      environmentName: resolved.environment.name,
+    };
+  }
+
+  private writeHeader(channel: vscode.OutputChannel, target: LogTarget): void {
+    channel.appendLine('');
+    channel.appendLine(`==== ${target.environmentName || target.environmentId} — ${new Date().toLocaleString()} ====`);
+    const filters = this.describeFilters(target);
+    if (filters) {
+      channel.appendLine(filters);
+    }
+  }
+
+  private describeFilters(target: LogTarget, sinceLabel?: string): string {
+    const parts: string[] = [];
+    if (sinceLabel || target.since) parts.push(`since ${sinceLabel || target.since}`);
+    if (target.level) parts.push(`level ≥ ${target.level}`);
+    if (target.grep) parts.push(`matching "${target.grep}"`);
+    return parts.length > 0 ? `Filtered: ${parts.join(', ')}` : '';
+  }
+}
@@ -0,0 +1,112 @@
+// src/commands/org.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Organisation } from '../api/types';
+import { parseArgs } from '../utils/args';
+import { getConfigManager } from '../utils/config-manager';
+import { findCurrentOrganisation, findOrganisation } from '../utils/organisation-resolver';
+
+export class OrgCommand {
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const [subcommand, ...rest] = args.positional;
+
+    stream.progress('Fetching organisations...');
+
+    const profileResult = await this.api.getProfile();
+    if (!profileResult.success || !profileResult.data?.organisations?.length) {
+      stream.markdown('❌ Could not fetch your organisations. Please check your login.\n');
+      return { metadata: { command: 'org', status: 'error' } };
+    }
+
+    const organisations = profileResult.data.organisations;
+
+    switch (subcommand) {
+      case undefined:
+      case 'list':
+        return this.list(stream, organisations);
+
+      case 'switch':
+        return this.switch(stream, organisations, rest.join(' '));
+
+      default:
+        stream.markdown(`Unknown subcommand \`${subcommand}\`.\n\n`);
+        stream.markdown('```\n@lightcloud /org list\n@lightcloud /org switch <name>\n```\n');
+        return { metadata: { command: 'org', status: 'unknown-subcommand' } };
+    }
+  }
+
+  private list(stream: vscode.ChatResponseStream, organisations: Organisation[]): vscode.ChatResult {
+    const current = findCurrentOrganisation(organisations);
+
+    stream.markdown('## 🏢 Organisations\n\n');
+    stream.markdown('| | Name | Slug | Role |\n');
+    stream.markdown('|-|------|------|------|\n');
+    for (const org of organisations) {
+      const marker = org.id === current?.id ? '✓' : '';
+      stream.markdown(`| ${marker} | ${org.name} | \`${org.slug}\` | ${org.role || '-'} |\n`);
+    }
+
+    if (current) {
+      const source = getConfigManager().read()?.organisationId === current.id ? '`.lightcloud.local`' : 'your default setting';
+      stream.markdown(`\n**Current:** ${current.name} (from ${source})\n\n`);
+    } else if (organisations.length > 1) {
+      stream.markdown('\nNo default organisation set - you will be asked to choose when needed.\n\n');
+    }
+
+    if (organisations.length > 1) {
+      stream.markdown('Use `/org switch <name>` to change the default, or `--org <name>` on any command.\n');
+    }
+
+    return { metadata: { command: 'org', status: 'success', count: organisations.length, organisationId: current?.id } };
+  }
+
+  private async switch(
+    stream: vscode.ChatResponseStream,
+    organisations: Organisation[],
+    name: string
+  ): Promise<vscode.ChatResult> {
+    let selected: Organisation | undefined;
+
+    if (name) {
+      selected = findOrganisation(organisations, name);
+      if (!selected) {
+        stream.markdown(`❌ Organisation "${name}" not found. You belong to: ${organisations.map(o => o.name).join(', ')}.\n`);
+        return { metadata: { command: 'org', status: 'not-found' } };
+      }
+    } else {
+      const picked = await vscode.window.showQuickPick(
+        organisations.map(o => ({ label: o.name, description: o.slug, org: o })),
+        {
+          placeHolder: 'Select your default organisation',
+          title: 'Choose Organisation',
+        }
+      );
+      if (!picked) {
+        stream.markdown('Cancelled - default organisation unchanged.\n');
+        return { metadata: { command: 'org', status: 'cancelled' } };
+      }
+      selected = picked.org;
+    }
+
+    await vscode.workspace.getConfiguration('lightcloud')
+      .update('defaultOrganisation', selected.id, vscode.ConfigurationTarget.Global);
+
+    stream.markdown(`✅ Default organisation set to **${selected.name}**.\n`);
+
+    const linkedId = getConfigManager().read()?.organisationId;
+    if (linkedId && linkedId !== selected.id) {
+      const linked = organisations.find(o => o.id === linkedId);
+      stream.markdown(`\n⚠️ This workspace is linked to ${linked ? `**${linked.name}**` : 'another organisation'} in \`.lightcloud.local\`, which takes precedence here.\n`);
+    }
+
+    return { metadata: { command: 'org', status: 'success', organisationId: selected.id } };
+  }
+}
@@ -5,7 +5,15 @@ import { LightCloudApi } from '../api/endpoints';
 import { GitDetector } from '../detection/git-detector';
 import { FrameworkDetector } from '../detection/framework-detector';
 import { EnvParser } from '../detection/env-parser';
-import { DetectedProject, GitInfo } from '../api/types';
+import { formatFrameworkName } from '../detection/frameworks';
+import { DetectedProject, GitInfo, Organisation } from '../api/types';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { checkLinkedOrganisation, resolveOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { getConfigManager } from '../utils/config-manager';
+import { Project, defaultAppName } from '../utils/project-resolver';
+import { resolveRuntimeVersion, showRuntimeVersionWarning } from '../utils/runtime-version-resolver';
+import { MANIFEST_FILENAME, deploymentSettings, loadManifest, showManifestFailure, showMissingEnvReferences } from '../utils/manifest';
+import { SettingsDiff, diffLinkedEnvironment, hasChanges, showSettingsDiff } from '../utils/settings-diff';
 
 export class PlanCommand {
   private envParser = new EnvParser();
@@ -20,28 +28,71 @@ export class PlanCommand {
     request: vscode.ChatRequest,
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken,
-    workspaceFolder: vscode.WorkspaceFolder
+    project: Project
   ): Promise<vscode.ChatResult> {
     stream.progress('Analyzing project for deployment plan...');
 
     // Detect git info
-    const gitInfo = await this.gitDetector.detect(workspaceFolder);
+    const gitInfo = await this.gitDetector.detect(project.workspaceFolder);
 
     // Detect framework
-    const detected = await this.frameworkDetector.detect(workspaceFolder);
+    const detected = await this.frameworkDetector.detect(project.folder);
+
+    // An app directory linked by `.lightcloud` is planned against its live environment
+    const savedConfig = getConfigManager().read();
+    const linked = savedConfig?.applicationId && savedConfig.organisationId && savedConfig.environmentId
+      ? { ...savedConfig, applicationId: savedConfig.applicationId, organisationId: savedConfig.organisationId, environmentId: savedConfig.environmentId }
+      : undefined;
+
+    // Settings from lightcloud.json take priority over detection
+    const manifest = loadManifest(project.folder.uri.fsPath, detected, linked?.environmentName || 'production');
+    if (manifest && 'status' in manifest) {
+      showManifestFailure(stream, manifest);
+      return { metadata: { command: 'plan', status: manifest.status } };
+    }
+    const settings = manifest && deploymentSettings(manifest.settings, manifest.env);
+    const name = linked?.applicationName || manifest?.manifest.name || defaultAppName(project, gitInfo.repo);
 
     // Parse env variables
-    const envVars = this.envParser.parse(workspaceFolder, '.env.example');
+    const envVars = this.envParser.parse(project.folder, '.env.example');
     const hasEnvFile = envVars.length > 0;
 
-    // Get user profile
-    const profileResult = await this.api.getProfile();
-    if (!profileResult.success || !profileResult.data?.organisations?.length) {
-      stream.markdown('Could not fetch your organisations. Please check your login.\n');
-      return { metadata: { command: 'plan', status: 'error' } };
+    let diff: SettingsDiff | undefined;
+    let organisation: Organisation | undefined;
+    if (linked) {
+      const orgFailure = await checkLinkedOrganisation(
+        this.api,
+        getStringFlag(parseArgs(request.prompt), 'org'),
+        linked.organisationId,
+        linked.applicationName
+      );
+      if (orgFailure) {
+        showOrganisationFailure(stream, orgFailure);
+        return { metadata: { command: 'plan', status: orgFailure.status } };
+      }
+    } else {
+      // Organisation the application would be created in
+      const resolved = await resolveOrganisation(this.api, getStringFlag(parseArgs(request.prompt), 'org'), {
+        placeHolder: 'Select organisation to deploy to',
+      });
+      if ('status' in resolved) {
+        showOrganisationFailure(stream, resolved);
+        return { metadata: { command: 'plan', status: resolved.status } };
+      }
+      organisation = resolved;
     }
 
-    const organisation = profileResult.data.organisations[0];
+    const runtimeVersion = await resolveRuntimeVersion(this.api, detected);
+
+    // Compare with the live environment once detection is final
+    if (linked) {
+      const result = await diffLinkedEnvironment(this.api, linked, detected, manifest);
+      if ('status' in result) {
+        stream.markdown(`❌ **Could not fetch ${linked.applicationName || 'the linked application'}:** ${result.message}\n`);
+        return { metadata: { command: 'plan', status: result.status } };
+      }
+      diff = result;
+    }
 
     // Build the plan
     stream.markdown('## 📋 Deployment Plan\n\n');
@@ -59,17 +110,30 @@ export class PlanCommand {
       stream.markdown(`- **Repository:** ${gitInfo.remoteUrl || 'No remote'}\n`);
       stream.markdown(`- **Method:** Source upload (non-GitHub remote)\n`);
     } else {
-      stream.markdown(`- **Location:** ${workspaceFolder.uri.fsPath}\n`);
+      stream.markdown(`- **Location:** ${project.folder.uri.fsPath}\n`);
       stream.markdown(`- **Method:** Source upload (no git)\n`);
     }
 
     // Project detection
     stream.markdown('\n### Detected Configuration\n\n');
     stream.markdown('```yaml\n');
-    stream.markdown(`name: ${gitInfo.repo || workspaceFolder.name}\n`);
+    stream.markdown(`name: ${name}\n`);
+    if (project.rootDirectory) {
+      stream.markdown(`root_directory: ${project.rootDirectory}\n`);
+    }
     stream.markdown(`framework: ${detected.framework || 'auto-detect'}\n`);
     stream.markdown(`runtime: ${detected.runtime || 'auto-detect'}\n`);
     stream.markdown(`type: ${detected.deploymentType}\n`);
+    if (runtimeVersion) {
+      const key = runtimeVersion.runtime === 'python' ? 'python_version' : 'node_version';
+      stream.markdown(`${key}: ${runtimeVersion.version || runtimeVersion.requested}  # ${runtimeVersion.source}: ${runtimeVersion.requested}\n`);
+    }
+    if (detected.packageManager) {
+      stream.markdown(`package_manager: ${detected.packageManager}\n`);
+    }
+    if (detected.installCommand) {
+      stream.markdown(`install_command: ${detected.installCommand}\n`);
+    }
     if (detected.buildCommand) {
       stream.markdown(`build_command: ${detected.buildCommand}\n`);
     }
@@ -79,18 +143,55 @@ export class PlanCommand {
     if (detected.outputDirectory) {
       stream.markdown(`output_directory: ${detected.outputDirectory}\n`);
     }
+    if (settings?.containerPort) {
+      stream.markdown(`port: ${settings.containerPort}\n`);
+    }
+    if (settings?.memory) {
+      stream.markdown(`memory: ${settings.memory}\n`);
+    }
+    if (settings?.cpu) {
+      stream.markdown(`cpu: ${settings.cpu}\n`);
+    }
     stream.markdown('```\n\n');
 
+    if (manifest) {
+      stream.markdown(`*Settings from \`${MANIFEST_FILENAME}\` take priority over detection.*\n\n`);
+      showMissingEnvReferences(stream, manifest.env);
+    }
+
+    showRuntimeVersionWarning(stream, runtimeVersion);
+
+    if (detected.evidence?.length) {
+      stream.markdown(`*Detected from ${detected.evidence.join(', ')} (${formatConfidence(detected.confidence)} confidence)*\n\n`);
+    }
+
+    // Several frameworks matched about as well; the first one is used
+    if (detected.framework && detected.alternatives?.length) {
+      stream.markdown('⚠️ **Ambiguous framework detection.** This project also looks like:\n\n');
+      for (const alternative of detected.alternatives) {
+        stream.markdown(`- **${formatFrameworkName(alternative.framework)}** (${formatConfidence(alternative.confidence)}): ${alternative.evidence.join(', ')}\n`);
+      }
+      stream.markdown(`\nThe deployment will use **${formatFrameworkName(detected.framework)}**. Check the configuration above before deploying.\n\n`);
+    }
+
+    // A linked application already exists; show what would change on it instead
+    if (!organisation) {
+      return this.showChanges(stream, diff!);
+    }
+
     // Changes preview (diff style)
     stream.markdown('### What Will Happen\n\n');
     stream.markdown('```diff\n');
-    stream.markdown(`+ Application: ${gitInfo.repo || workspaceFolder.name} will be created\n`);
+    stream.markdown(`+ Application: ${name} will be created\n`);
     stream.markdown(`+ Environment: production will be created\n`);
     if (detected.deploymentType === 'static') {
       stream.markdown(`+ Static site will be built and deployed to CDN\n`);
     } else {
       stream.markdown(`+ Container will be built and deployed to Cloud Run\n`);
     }
+    if (settings?.environmentVars) {
+      stream.markdown(`+ Variables: ${Object.keys(settings.environmentVars).join(', ')} will be set from ${MANIFEST_FILENAME}\n`);
+    }
     if (detected.detectedDependencies?.includes('postgresql')) {
       stream.markdown(`? Database: PostgreSQL detected - would you like to provision one?\n`);
     }
@@ -115,16 +216,19 @@ export class PlanCommand {
     // Organisation
     stream.markdown('### Target\n\n');
     stream.markdown(`- **Organisation:** ${organisation.name}\n`);
-    stream.markdown(`- **Region:** auto (closest to you)\n\n`);
+    stream.markdown(`- **Region:** ${settings?.region || 'auto (closest to you)'}\n\n`);
 
     // Action buttons
     stream.button({
       command: 'lightcloud.confirmDeploy',
       title: '✅ Deploy Now',
       arguments: [{
-        name: gitInfo.repo || workspaceFolder.name,
+        workspaceFolder: project.workspaceFolder.uri.fsPath,
+        rootDirectory: project.rootDirectory,
+        name,
         gitInfo,
         detected,
+        settings,
         organisationId: organisation.id,
       }],
     });
@@ -138,9 +242,30 @@ export class PlanCommand {
         config: {
           gitInfo,
           detected,
+          settings,
+          rootDirectory: project.rootDirectory,
           organisationId: organisation.id,
         }
       }
     };
   }
+
+  private showChanges(stream: vscode.ChatResponseStream, diff: SettingsDiff): vscode.ChatResult {
+    stream.markdown(`### What Will Change on ${diff.applicationName} (${diff.environmentName})\n\n`);
+    showSettingsDiff(stream, diff);
+    if (hasChanges(diff)) {
+      stream.markdown('*Run `/sync` to apply these changes, then `/redeploy` to rebuild with them.*\n');
+    }
+    return {
+      metadata: {
+        command: 'plan',
+        status: 'success',
+        changes: diff.settings.length + diff.variables.length,
+      }
+    };
+  }
+}
+
+function formatConfidence(confidence = 0): string {
+  return `${Math.round(confidence * 100)}%`;
 }
@@ -0,0 +1,137 @@
+// src/commands/preview.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Environment } from '../api/types';
+import { GitDetector } from '../detection/git-detector';
+import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { checkLinkedOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { Project } from '../utils/project-resolver';
+
+/**
+ * Environment name for a branch's preview, e.g. `feature/Login` → `preview-feature-login`
+ */
+export function previewEnvironmentName(branch: string): string {
+  const slug = branch.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+  return `preview-${slug || 'branch'}`;
+}
+
+/**
+ * Deploy a branch of the linked application to its own preview environment,
+ * creating the environment the first time, so every feature branch has a live URL
+ */
+export class PreviewCommand {
+  constructor(
+    private api: LightCloudApi,
+    private gitDetector: GitDetector
+  ) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    project?: Project
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const configManager = getConfigManager();
+    const savedConfig = configManager.read();
+
+    if (!project || !savedConfig?.applicationId || !savedConfig?.organisationId) {
+      stream.markdown('## ⚠️ No Application Linked\n\n');
+      stream.markdown('No `.lightcloud` config found in this workspace.\n\n');
+      stream.markdown('Use `/deploy` to deploy your application first; previews are created for it.\n');
+      return { metadata: { command: 'preview', status: 'no-config' } };
+    }
+    const { organisationId, applicationId } = savedConfig;
+
+    const orgFailure = await checkLinkedOrganisation(this.api, getStringFlag(args, 'org'), organisationId, savedConfig.applicationName);
+    if (orgFailure) {
+      showOrganisationFailure(stream, orgFailure);
+      return { metadata: { command: 'preview', status: orgFailure.status } };
+    }
+
+    const branch = args.positional[0] || (await this.gitDetector.detect(project.workspaceFolder)).branch;
+    if (!branch) {
+      stream.markdown('❌ Could not tell which branch is checked out.\n\n');
+      stream.markdown('Name the branch to preview:\n\n```\n@lightcloud /preview feature/login\n```\n');
+      return { metadata: { command: 'preview', status: 'no-branch' } };
+    }
+
+    stream.progress('Fetching application...');
+    const appResult = await this.api.getApplication(organisationId, applicationId);
+    if (!appResult.success || !appResult.data) {
+      stream.markdown(`❌ **Could not fetch ${savedConfig.applicationName || 'the linked application'}:** ${appResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'preview', status: 'error' } };
+    }
+    const app = appResult.data;
+
+    if (app.source_type !== 'github') {
+      stream.markdown(`⚠️ **${app.name}** is deployed from uploads, so it has no branches to preview.\n\n`);
+      stream.markdown('Connect it to GitHub to get a preview environment per branch.\n');
+      return { metadata: { command: 'preview', status: 'unsupported' } };
+    }
+
+    if (branch === app.github_branch) {
+      stream.markdown(`⚠️ \`${branch}\` deploys to production. Check out a feature branch, or name one:\n\n`);
+      stream.markdown('```\n@lightcloud /preview feature/login\n```\n');
+      return { metadata: { command: 'preview', status: 'production-branch' } };
+    }
+
+    // Reuse the branch's environment when it already exists
+    const name = previewEnvironmentName(branch);
+    const envsResult = await this.api.listEnvironments(organisationId, applicationId);
+    if (!envsResult.success) {
+      stream.markdown(`❌ **Could not load environments:** ${envsResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'preview', status: 'error' } };
+    }
+    let environment: Environment | undefined = envsResult.data?.find(e => e.name === name);
+    const created = !environment;
+
+    if (!environment) {
+      stream.progress(`Creating ${name}...`);
+      const createResult = await this.api.createEnvironment(organisationId, applicationId, name, branch);
+      if (!createResult.success || !createResult.data) {
+        stream.markdown(`❌ **Could not create the preview environment:** ${createResult.error?.message || 'Unknown error'}\n`);
+        return { metadata: { command: 'preview', status: 'error' } };
+      }
+      environment = createResult.data;
+    }
+
+    stream.progress(`Deploying ${branch}...`);
+    const deployResult = await this.api.deployEnvironment(organisationId, environment.id);
+    if (!deployResult.success) {
+      stream.markdown(`❌ **Preview deployment failed:** ${deployResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'preview', status: 'error' } };
+    }
+
+    const url = environment.url || environment.custom_domain;
+    await configManager.savePreview(branch, { environmentId: environment.id, environmentName: environment.name, url });
+
+    stream.markdown('## 🔍 Preview Deploying\n\n');
+    stream.markdown(`**Application:** ${app.name}\n`);
+    stream.markdown(`**Branch:** \`${branch}\`\n`);
+    stream.markdown(`**Environment:** ${environment.name}${created ? ' (new)' : ''}\n`);
+    stream.markdown(`**Status:** ${deployResult.data?.status || 'deploying'}\n\n`);
+    if (url) {
+      stream.markdown(`🔗 **Preview URL:** ${url}\n\n`);
+    }
+    stream.markdown(`Pushes to \`${branch}\` rebuild this preview. When the branch is merged, clean it up with \`/destroy\`.\n\n`);
+
+    stream.button({
+      command: 'lightcloud.streamLogs',
+      title: '▶️ Follow Logs',
+      arguments: [{ organisationId, environmentId: environment.id, environmentName: environment.name }],
+    });
+
+    return {
+      metadata: {
+        command: 'preview',
+        status: 'success',
+        environmentId: environment.id,
+        created,
+        url,
+      }
+    };
+  }
+}
@@ -0,0 +1,130 @@
+// src/commands/promote.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Deployment } from '../api/types';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { formatDeploymentLabel } from '../utils/formatting';
+import { resolveEnvironment, showResolveFailure } from '../utils/environment-resolver';
+import { getConfigManager } from '../utils/config-manager';
+import { SUCCESSFUL_STATUSES } from './rollback';
+
+/**
+ * Promote the build running in one environment of the linked app to another,
+ * e.g. staging to production, after confirming the difference between them
+ */
+export class PromoteCommand {
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const org = getStringFlag(args, 'org');
+    const [fromName, toName] = args.positional;
+
+    if (!fromName || !toName) {
+      stream.markdown('## ⬆️ Promote\n\n');
+      stream.markdown('Name the environment to promote from and the one to promote to:\n\n');
+      stream.markdown('```\n@lightcloud /promote staging production\n```\n');
+      return { metadata: { command: 'promote', status: 'missing-target' } };
+    }
+
+    if (fromName.toLowerCase() === toName.toLowerCase()) {
+      stream.markdown(`❌ Promote between two different environments, not **${fromName}** to itself.\n`);
+      return { metadata: { command: 'promote', status: 'invalid' } };
+    }
+
+    stream.progress('Comparing environments...');
+
+    const from = await resolveEnvironment(this.api, fromName, org);
+    if ('status' in from) {
+      showResolveFailure(stream, from);
+      return { metadata: { command: 'promote', status: from.status } };
+    }
+    const to = await resolveEnvironment(this.api, toName, org);
+    if ('status' in to) {
+      showResolveFailure(stream, to);
+      return { metadata: { command: 'promote', status: to.status } };
+    }
+
+    const { organisationId, applicationId, applicationName } = from;
+    const [appResult, fromResult, toResult] = await Promise.all([
+      this.api.getApplication(organisationId, applicationId),
+      this.api.listDeployments(organisationId, from.environment.id),
+      this.api.listDeployments(organisationId, to.environment.id),
+    ]);
+
+    if (!fromResult.success || !toResult.success) {
+      const error = fromResult.error || toResult.error;
+      stream.markdown(`❌ **Could not fetch deployments:** ${error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'promote', status: 'error' } };
+    }
+
+    const source = this.live(fromResult.data || []);
+    const current = this.live(toResult.data || []);
+
+    if (!source) {
+      stream.markdown(`No successful deployment is running in **${from.environment.name}** to promote.\n\n`);
+      stream.markdown(`Deploy it first, then run \`/promote ${from.environment.name} ${to.environment.name}\` again.\n`);
+      return { metadata: { command: 'promote', status: 'no-deployment' } };
+    }
+
+    if (current && source.commit_sha && current.commit_sha === source.commit_sha) {
+      stream.markdown(`✅ **${to.environment.name}** is already running \`${source.commit_sha.slice(0, 7)}\` from **${from.environment.name}**.\n`);
+      return { metadata: { command: 'promote', status: 'up-to-date' } };
+    }
+
+    stream.markdown(`## ⬆️ Promote ${from.environment.name} → ${to.environment.name}\n\n`);
+    stream.markdown(`**Application:** ${applicationName}\n\n`);
+    stream.markdown('```diff\n');
+    stream.markdown(`- ${to.environment.name}: ${current ? formatDeploymentLabel(current) : 'nothing deployed'}\n`);
+    stream.markdown(`+ ${to.environment.name}: ${formatDeploymentLabel(source)}, from ${from.environment.name}\n`);
+    stream.markdown('```\n\n');
+
+    const compareUrl = this.compareUrl(appResult.data?.github_repo_url, current?.commit_sha, source.commit_sha);
+    if (compareUrl) {
+      stream.markdown(`📝 **Commits:** [${current!.commit_sha!.slice(0, 7)}...${source.commit_sha!.slice(0, 7)}](${compareUrl})\n\n`);
+    }
+
+    stream.markdown(`The build running in **${from.environment.name}** is deployed as-is, with **${to.environment.name}**'s own settings and variables.\n\n`);
+
+    stream.button({
+      command: 'lightcloud.confirmPromote',
+      title: `⬆️ Promote to ${to.environment.name}`,
+      arguments: [{
+        organisationId,
+        applicationId,
+        environmentId: to.environment.id,
+        environmentName: to.environment.name,
+        deploymentId: source.id,
+        label: `${formatDeploymentLabel(source)} from ${from.environment.name}`,
+        projectPath: getConfigManager().getDirectory(),
+      }],
+    });
+    stream.button({
+      command: 'lightcloud.cancel',
+      title: '❌ Cancel',
+    });
+
+    return { metadata: { command: 'promote', status: 'confirm', deploymentId: source.id } };
+  }
+
+  /**
+   * The newest deployment that went live
+   */
+  private live(deployments: Deployment[]): Deployment | undefined {
+    return [...deployments]
+      .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+      .find(d => SUCCESSFUL_STATUSES.includes(d.status));
+  }
+
+  private compareUrl(repoUrl?: string, base?: string, head?: string): string | undefined {
+    if (!repoUrl?.includes('github.com') || !base || !head) {
+      return undefined;
+    }
+    return `${repoUrl.replace(/\.git$/, '').replace(/\/$/, '')}/compare/${base}...${head}`;
+  }
+}
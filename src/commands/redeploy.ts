@@ -3,14 +3,33 @@
 import * as vscode from 'vscode';
 import { LightCloudApi } from '../api/endpoints';
 import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { checkLinkedOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { ApiResponse, Deployment } from '../api/types';
+import { IncrementalUploader, formatUploadSummary } from '../upload/incremental';
+import { PackageTooLargeError } from '../upload/packager';
+import { UploadSessionStore } from '../upload/upload-sessions';
+import { AcceptedSecretStore, showSecretFindings } from '../upload/secrets';
+import {
+  LightCloudManifest, MANIFEST_FILENAME, environmentSettings, readManifest, resolveEnv, settingsFor, showManifestFailure, showMissingEnvReferences,
+} from '../utils/manifest';
 
 export class RedeployCommand {
-  constructor(private api: LightCloudApi) {}
+  private uploader: IncrementalUploader;
+
+  constructor(
+    private api: LightCloudApi,
+    uploadSessions?: UploadSessionStore,
+    acceptedSecrets?: AcceptedSecretStore
+  ) {
+    this.uploader = new IncrementalUploader(api, uploadSessions, acceptedSecrets);
+  }
 
   async execute(
     request: vscode.ChatRequest,
     stream: vscode.ChatResponseStream,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    workspaceFolder?: vscode.WorkspaceFolder
   ): Promise<vscode.ChatResult> {
     const configManager = getConfigManager();
     const savedConfig = configManager.read();
@@ -23,17 +42,77 @@ export class RedeployCommand {
       return { metadata: { command: 'redeploy', status: 'no-config' } };
     }
 
+    const orgFailure = await checkLinkedOrganisation(
+      this.api,
+      getStringFlag(parseArgs(request.prompt), 'org'),
+      savedConfig.organisationId,
+      savedConfig.applicationName
+    );
+    if (orgFailure) {
+      showOrganisationFailure(stream, orgFailure);
+      return { metadata: { command: 'redeploy', status: orgFailure.status } };
+    }
+
     stream.markdown('## 🔄 Redeploying...\n\n');
     stream.markdown(`**Application:** ${savedConfig.applicationName || 'Unknown'}\n`);
     stream.markdown(`**Environment:** ${savedConfig.environmentName || 'Production'}\n\n`);
 
-    stream.progress('Triggering redeployment...');
+    const appResult = await this.api.getApplication(savedConfig.organisationId, savedConfig.applicationId);
+    if (!appResult.success || !appResult.data) {
+      stream.markdown(`❌ **Could not fetch ${savedConfig.applicationName || 'the linked application'}:** ${appResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'redeploy', status: 'error' } };
+    }
+    const app = appResult.data as any;
 
-    // Trigger redeployment using environment deploy endpoint
-    const result = await this.api.deployEnvironment(
-      savedConfig.organisationId,
-      savedConfig.environmentId!
-    );
+    // Checked-in settings apply to every build, not just the first. The file is checked
+    // now, but only pushed right before the build starts, so a failed upload leaves the
+    // environment as it was.
+    const environmentName = savedConfig.environmentName || 'production';
+    const directory = configManager.getDirectory();
+    const manifest = directory ? readManifest(directory) : undefined;
+    if (manifest && 'status' in manifest) {
+      showManifestFailure(stream, manifest);
+      return { metadata: { command: 'redeploy', status: manifest.status } };
+    }
+
+    let result: ApiResponse<Deployment>;
+    if (app?.source_type === 'upload') {
+      // Uploaded apps have no repository to rebuild from; send the local changes
+      const uploadId = await this.uploadChanges(stream, savedConfig.organisationId, app, workspaceFolder);
+      if (typeof uploadId !== 'string') {
+        return uploadId;
+      }
+
+      const manifestFailure = manifest && await this.applyManifest(
+        stream, manifest, directory!, savedConfig.organisationId, savedConfig.environmentId, environmentName
+      );
+      if (manifestFailure) {
+        return manifestFailure;
+      }
+
+      stream.progress('Triggering redeployment...');
+      result = await this.api.deployFromUpload({
+        targetOrganisationId: savedConfig.organisationId,
+        applicationId: savedConfig.applicationId,
+        environmentId: savedConfig.environmentId,
+        uploadId,
+      });
+    } else {
+      const manifestFailure = manifest && await this.applyManifest(
+        stream, manifest, directory!, savedConfig.organisationId, savedConfig.environmentId, environmentName
+      );
+      if (manifestFailure) {
+        return manifestFailure;
+      }
+
+      stream.progress('Triggering redeployment...');
+
+      // Trigger redeployment using environment deploy endpoint
+      result = await this.api.deployEnvironment(
+        savedConfig.organisationId,
+        savedConfig.environmentId!
+      );
+    }
 
     if (!result.success) {
       stream.markdown(`❌ **Redeployment failed:** ${result.error?.message || 'Unknown error'}\n`);
@@ -41,7 +120,7 @@ export class RedeployCommand {
     }
 
     // Update last deployed timestamp
-    configManager.update({ lastDeployedAt: new Date().toISOString() });
+    await configManager.update({ lastDeployedAt: new Date().toISOString() });
 
     // Build URLs
     const config = vscode.workspace.getConfiguration('lightcloud');
@@ -49,8 +128,6 @@ export class RedeployCommand {
     const dashboardUrl = `${consoleUrl}/applications/${savedConfig.applicationId}/environments/${savedConfig.environmentId}/overview`;
 
     // Get deployed URL from the application
-    const appResult = await this.api.getApplication(savedConfig.organisationId, savedConfig.applicationId);
-    const app = appResult.data as any;
     const prodEnv = app?.environments?.find((e: any) => e.id === savedConfig.environmentId)
       || app?.environments?.find((e: any) => e.is_production)
       || app?.environments?.[0];
@@ -69,4 +146,93 @@ export class RedeployCommand {
 
     return { metadata: { command: 'redeploy', status: 'success' } };
   }
+
+  /**
+   * Push `lightcloud.json`'s settings and variables for the environment before it rebuilds
+   */
+  private async applyManifest(
+    stream: vscode.ChatResponseStream,
+    manifest: LightCloudManifest,
+    directory: string,
+    organisationId: string,
+    environmentId: string,
+    environmentName: string
+  ): Promise<vscode.ChatResult | undefined> {
+    stream.progress(`Applying ${MANIFEST_FILENAME}...`);
+    const settings = settingsFor(manifest, environmentName);
+
+    const update = environmentSettings(settings);
+    if (Object.values(update).some(value => value !== undefined)) {
+      const result = await this.api.updateEnvironmentSettings(organisationId, environmentId, update);
+      if (!result.success) {
+        stream.markdown(`❌ **Could not apply \`${MANIFEST_FILENAME}\`:** ${result.error?.message || 'Unknown error'}\n`);
+        return { metadata: { command: 'redeploy', status: 'error' } };
+      }
+    }
+
+    const env = resolveEnv(settings, directory);
+    if (Object.keys(env.variables).length > 0) {
+      const result = await this.api.setEnvironmentVariables(organisationId, environmentId, env.variables);
+      if (!result.success) {
+        stream.markdown(`❌ **Could not set variables from \`${MANIFEST_FILENAME}\`:** ${result.error?.message || 'Unknown error'}\n`);
+        return { metadata: { command: 'redeploy', status: 'error' } };
+      }
+    }
+
+    stream.markdown(`⚙️ Applied \`${MANIFEST_FILENAME}\` settings for **${environmentName}**\n\n`);
+    showMissingEnvReferences(stream, env);
+    return undefined;
+  }
+
+  /**
+   * Uploads the files that changed since the application's last upload.
+   * The whole workspace folder is sent, also for an app in a package of a monorepo.
+   */
+  private async uploadChanges(
+    stream: vscode.ChatResponseStream,
+    organisationId: string,
+    app: { id: string; name: string },
+    folder?: vscode.WorkspaceFolder
+  ): Promise<string | vscode.ChatResult> {
+    const directory = getConfigManager().getDirectory();
+    const workspaceFolder = folder || (directory ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(directory)) : undefined);
+    if (!workspaceFolder) {
+      stream.markdown('❌ Open the project folder to redeploy an uploaded application.\n');
+      return { metadata: { command: 'redeploy', status: 'error' } };
+    }
+
+    const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get<number>('uploadMaxSizeMB') || 100;
+
+    let summary;
+    try {
+      summary = await this.uploader.upload(workspaceFolder, {
+        organisationId,
+        applicationId: app.id,
+        fileName: `${app.name}-source.zip`,
+        maxBytes: maxSizeMB * 1024 * 1024,
+        onProgress: (msg) => stream.progress(msg),
+        onUploadProgress: (progress) => stream.progress(`Uploading... ${progress.percentage}%`),
+      });
+    } catch (error) {
+      if (error instanceof PackageTooLargeError) {
+        stream.markdown(`⚠️ **Package too large** (more than ${maxSizeMB} MB before compression)\n\n`);
+        stream.markdown('Exclude more files with `.lightcloudignore`.\n');
+        return { metadata: { command: 'redeploy', status: 'too-large' } };
+      }
+      throw error;
+    }
+
+    if ('error' in summary) {
+      stream.markdown(`❌ **Upload failed:** ${summary.error}\n`);
+      return { metadata: { command: 'redeploy', status: 'upload-failed' } };
+    }
+
+    if ('secrets' in summary) {
+      showSecretFindings(stream, summary.secrets, workspaceFolder.uri.fsPath);
+      return { metadata: { command: 'redeploy', status: 'secrets-found' } };
+    }
+
+    stream.markdown(`⬆️ ${formatUploadSummary(summary)}\n\n`);
+    return summary.uploadId;
+  }
 }
@@ -0,0 +1,145 @@
+// src/commands/rollback.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Deployment } from '../api/types';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { formatStatusEmoji, formatRelativeTime, formatCommit, formatDeploymentLabel } from '../utils/formatting';
+import { resolveEnvironment, showResolveFailure } from '../utils/environment-resolver';
+import { getConfigManager } from '../utils/config-manager';
+
+/** Statuses of a deployment that went live */
+export const SUCCESSFUL_STATUSES = ['healthy', 'deployed'];
+const MAX_LISTED_DEPLOYMENTS = 10;
+const MAX_ROLLBACK_BUTTONS = 3;
+
+export class RollbackCommand {
+  constructor(private api: LightCloudApi) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
+    const target = args.positional[0];
+
+    stream.progress('Fetching deployment history...');
+
+    const resolved = await resolveEnvironment(this.api, getStringFlag(args, 'env'), getStringFlag(args, 'org'));
+    if ('status' in resolved) {
+      showResolveFailure(stream, resolved);
+      return { metadata: { command: 'rollback', status: resolved.status } };
+    }
+
+    const { organisationId, applicationName, environment } = resolved;
+    const deploymentsResult = await this.api.listDeployments(organisationId, environment.id);
+
+    if (!deploymentsResult.success) {
+      stream.markdown(`❌ **Could not fetch deployments:** ${deploymentsResult.error?.message || 'Unknown error'}\n`);
+      return { metadata: { command: 'rollback', status: 'error' } };
+    }
+
+    const deployments = [...(deploymentsResult.data || [])].sort(
+      (a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime()
+    );
+    const live = deployments.find(d => SUCCESSFUL_STATUSES.includes(d.status));
+    const candidates = deployments.filter(d => d !== live && SUCCESSFUL_STATUSES.includes(d.status));
+
+    if (candidates.length === 0) {
+      stream.markdown('## ⏪ Rollback\n\n');
+      stream.markdown(`No previous successful deployments found for **${environment.name}**.\n`);
+      return { metadata: { command: 'rollback', status: 'no-candidates' } };
+    }
+
+    // Specific deployment requested by ID or commit SHA prefix
+    if (target) {
+      const byId = candidates.find(d => d.id === target);
+      if (!byId && !/^[0-9a-f]{7,40}$/i.test(target)) {
+        stream.markdown(`\`${target}\` is not a deployment ID or commit SHA. Give at least 7 characters of the commit, e.g. \`/rollback a1b2c3d\`.\n`);
+        return { metadata: { command: 'rollback', status: 'invalid-arguments' } };
+      }
+
+      // Deployments are newest first, so a commit deployed more than once resolves to its latest build
+      const matches = byId ? [byId] : candidates.filter(d => d.commit_sha?.toLowerCase().startsWith(target.toLowerCase()));
+      const commits = new Set(matches.map(d => d.commit_sha));
+      if (commits.size > 1) {
+        stream.markdown(`\`${target}\` matches ${commits.size} commits in **${environment.name}**:\n\n`);
+        for (const sha of commits) {
+          const match = matches.find(d => d.commit_sha === sha)!;
+          stream.markdown(`- ${formatCommit(match.commit_sha, match.commit_message)}\n`);
+        }
+        stream.markdown('\nUse more characters of the commit SHA.\n');
+        return { metadata: { command: 'rollback', status: 'ambiguous' } };
+      }
+      const deployment = matches[0];
+
+      if (!deployment) {
+        stream.markdown(`No previous successful deployment matching \`${target}\` found in **${environment.name}**.\n\n`);
+        stream.markdown('Use `/rollback` without arguments to see available deployments.\n');
+        return { metadata: { command: 'rollback', status: 'not-found' } };
+      }
+
+      stream.markdown('## ⚠️ Confirm Rollback\n\n');
+      stream.markdown(`**Application:** ${applicationName}\n`);
+      stream.markdown(`**Environment:** ${environment.name}\n\n`);
+      stream.markdown('```diff\n');
+      if (live) {
+        stream.markdown(`- Live: ${formatDeploymentLabel(live)}\n`);
+      }
+      stream.markdown(`+ Rollback to: ${formatDeploymentLabel(deployment)}\n`);
+      stream.markdown('```\n\n');
+
+      this.rollbackButton(stream, organisationId, environment.name, environment.id, deployment);
+      stream.button({
+        command: 'lightcloud.cancel',
+        title: '❌ Cancel',
+      });
+
+      return { metadata: { command: 'rollback', status: 'confirm', deploymentId: deployment.id } };
+    }
+
+    // No target - list recent deployments
+    stream.markdown('## ⏪ Rollback\n\n');
+    stream.markdown(`**Application:** ${applicationName}\n`);
+    stream.markdown(`**Environment:** ${environment.name}\n\n`);
+    stream.markdown('| | Commit | Status | Deployed |\n');
+    stream.markdown('|---|--------|--------|----------|\n');
+
+    for (const deployment of deployments.slice(0, MAX_LISTED_DEPLOYMENTS)) {
+      const marker = deployment === live ? '🟢 live' : '';
+      const status = `${formatStatusEmoji(deployment.status)} ${deployment.status}`;
+      stream.markdown(`| ${marker} | ${formatCommit(deployment.commit_sha, deployment.commit_message)} | ${status} | ${formatRelativeTime(deployment.started_at)} |\n`);
+    }
+
+    stream.markdown('\nSelect a deployment to promote back to live:\n\n');
+    for (const deployment of candidates.slice(0, MAX_ROLLBACK_BUTTONS)) {
+      this.rollbackButton(stream, organisationId, environment.name, environment.id, deployment);
+    }
+
+    stream.markdown('\n*Or use `/rollback <commit-sha>` to pick an older deployment.*\n');
+
+    return { metadata: { command: 'rollback', status: 'list', count: candidates.length } };
+  }
+
+  private rollbackButton(
+    stream: vscode.ChatResponseStream,
+    organisationId: string,
+    environmentName: string,
+    environmentId: string,
+    deployment: Deployment
+  ): void {
+    stream.button({
+      command: 'lightcloud.confirmRollback',
+      title: `⏪ Roll back to ${deployment.commit_sha?.slice(0, 7) || formatRelativeTime(deployment.started_at)}`,
+      arguments: [{
+        organisationId,
+        environmentId,
+        environmentName,
+        deploymentId: deployment.id,
+        label: formatDeploymentLabel(deployment),
+        projectPath: getConfigManager().getDirectory(),
+      }],
+    });
+  }
+}
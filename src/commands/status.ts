@@ -5,6 +5,8 @@ import { LightCloudApi } from '../api/endpoints';
 import { Application, Environment } from '../api/types';
 import { formatStatusEmoji, formatRelativeTime } from '../utils/formatting';
 import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { resolveOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
 
 export class StatusCommand {
   constructor(private api: LightCloudApi) {}
@@ -15,17 +17,15 @@ export class StatusCommand {
     token: vscode.CancellationToken,
     workspaceFolder?: vscode.WorkspaceFolder
   ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt);
     stream.progress('Fetching application status...');
 
-    // Get user profile
-    const profileResult = await this.api.getProfile();
-    if (!profileResult.success || !profileResult.data?.organisations?.length) {
-      stream.markdown('Could not fetch your profile.\n');
-      return { metadata: { command: 'status', status: 'error' } };
+    const organisation = await resolveOrganisation(this.api, getStringFlag(args, 'org'));
+    if ('status' in organisation) {
+      showOrganisationFailure(stream, organisation);
+      return { metadata: { command: 'status', status: organisation.status } };
     }
 
-    const organisation = profileResult.data.organisations[0];
-
     // Get applications
     const appsResult = await this.api.listApplications(organisation.id);
     if (!appsResult.success || !appsResult.data?.length) {
@@ -35,14 +35,14 @@ export class StatusCommand {
     }
 
     // If specific app requested via prompt or from .lightcloud config
-    let appName = request.prompt.trim();
+    let appName = args.positional.join(' ');
     let apps = appsResult.data;
 
-    // If no app name specified, check config
+    // If no app name specified, check config (only when it's linked to this organisation)
     if (!appName) {
       const configManager = getConfigManager();
       const savedConfig = configManager.read();
-      if (savedConfig?.applicationName) {
+      if (savedConfig?.applicationName && (!savedConfig.organisationId || savedConfig.organisationId === organisation.id)) {
         appName = savedConfig.applicationName;
         stream.markdown(`*Using application from \`.lightcloud\` config*\n\n`);
       }
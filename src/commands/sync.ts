@@ -0,0 +1,148 @@
+// src/commands/sync.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { FrameworkDetector } from '../detection/framework-detector';
+import { getConfigManager } from '../utils/config-manager';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { checkLinkedOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { Project } from '../utils/project-resolver';
+import { loadManifest, showManifestFailure, showMissingEnvReferences } from '../utils/manifest';
+import { applySettingsDiff, diffLinkedEnvironment, hasChanges, showSettingsDiff } from '../utils/settings-diff';
+
+/**
+ * Apply what `/plan` shows for a linked app: push the detected and `lightcloud.json`
+ * settings and variables to its environment, once confirmed (or with `--yes`).
+ * The next deployment builds with them.
+ */
+export class SyncCommand {
+  constructor(
+    private api: LightCloudApi,
+    private frameworkDetector: FrameworkDetector
+  ) {}
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    project?: Project
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt, ['yes']);
+    const savedConfig = getConfigManager().read();
+
+    if (!project || !savedConfig?.applicationId || !savedConfig?.organisationId || !savedConfig?.environmentId) {
+      stream.markdown('## ⚠️ No Application Linked\n\n');
+      stream.markdown('No `.lightcloud` config found in this workspace.\n\n');
+      stream.markdown('Use `/deploy` to deploy your application first.\n');
+      return { metadata: { command: 'sync', status: 'no-config' } };
+    }
+    const link = {
+      organisationId: savedConfig.organisationId,
+      applicationId: savedConfig.applicationId,
+      environmentId: savedConfig.environmentId,
+    };
+
+    const orgFailure = await checkLinkedOrganisation(
+      this.api,
+      getStringFlag(args, 'org'),
+      link.organisationId,
+      savedConfig.applicationName
+    );
+    if (orgFailure) {
+      showOrganisationFailure(stream, orgFailure);
+      return { metadata: { command: 'sync', status: orgFailure.status } };
+    }
+
+    stream.progress('Comparing project settings with Light Cloud...');
+
+    const detected = await this.frameworkDetector.detect(project.folder);
+    const manifest = loadManifest(project.folder.uri.fsPath, detected, savedConfig.environmentName || 'production');
+    if (manifest && 'status' in manifest) {
+      showManifestFailure(stream, manifest);
+      return { metadata: { command: 'sync', status: manifest.status } };
+    }
+
+    const diff = await diffLinkedEnvironment(this.api, link, detected, manifest);
+    if ('status' in diff) {
+      stream.markdown(`❌ **Could not fetch ${savedConfig.applicationName || 'the linked application'}:** ${diff.message}\n`);
+      return { metadata: { command: 'sync', status: diff.status } };
+    }
+
+    stream.markdown('## 🔁 Sync\n\n');
+    if (!hasChanges(diff)) {
+      showSettingsDiff(stream, diff);
+      if (manifest) {
+        showMissingEnvReferences(stream, manifest.env);
+      }
+      return { metadata: { command: 'sync', status: 'up-to-date' } };
+    }
+
+    const changes = diff.settings.length + diff.variables.length;
+
+    // Like `terraform apply`, nothing is written until the changes are confirmed
+    if (!args.flags['yes']) {
+      stream.markdown(`**Will apply to ${diff.applicationName}** (${diff.environmentName}):\n\n`);
+      showSettingsDiff(stream, diff);
+      if (manifest) {
+        showMissingEnvReferences(stream, manifest.env);
+      }
+
+      stream.markdown('Nothing is changed until you confirm. `/sync --yes` applies without asking.\n\n');
+      stream.button({
+        command: 'lightcloud.confirmSync',
+        title: `✅ Apply ${changes} Change${changes === 1 ? '' : 's'}`,
+        arguments: [{
+          organisationId: link.organisationId,
+          applicationId: link.applicationId,
+          applicationName: diff.applicationName,
+          environmentId: link.environmentId,
+          environmentName: diff.environmentName,
+          update: diff.update,
+          // Only the names: the values may be secrets, and button arguments are kept in the chat history
+          variables: Object.keys(diff.setVariables),
+          manifestEnvironment: savedConfig.environmentName || 'production',
+          changes,
+          projectPath: getConfigManager().getDirectory(),
+        }],
+      });
+      stream.button({
+        command: 'lightcloud.cancel',
+        title: '❌ Cancel',
+      });
+
+      return { metadata: { command: 'sync', status: 'confirm', changes } };
+    }
+
+    stream.progress('Applying changes...');
+    const error = await applySettingsDiff(this.api, link.organisationId, link.environmentId, diff);
+    if (error) {
+      stream.markdown(`❌ **${error}**\n`);
+      return { metadata: { command: 'sync', status: 'error' } };
+    }
+
+    stream.markdown(`✅ **Applied to ${diff.applicationName}** (${diff.environmentName}):\n\n`);
+    showSettingsDiff(stream, diff);
+    if (manifest) {
+      showMissingEnvReferences(stream, manifest.env);
+    }
+
+    stream.markdown('The running deployment is unchanged until the next build.\n\n');
+    stream.button({
+      command: 'lightcloud.redeploy',
+      title: '🔄 Redeploy Now',
+      arguments: [{
+        applicationId: link.applicationId,
+        organisationId: link.organisationId,
+        projectPath: getConfigManager().getDirectory(),
+      }],
+    });
+
+    return {
+      metadata: {
+        command: 'sync',
+        status: 'success',
+        changes,
+      }
+    };
+  }
+}
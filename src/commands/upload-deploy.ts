@@ -1,24 +1,35 @@
 // src/commands/upload-deploy.ts
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { LightCloudApi } from '../api/endpoints';
-import { SourcePackager } from '../upload/packager';
-import { SourceUploader } from '../upload/uploader';
-import { DetectedProject } from '../api/types';
+import { PackageTooLargeError } from '../upload/packager';
+import { IncrementalUploader, UploadSummary, formatUploadSummary } from '../upload/incremental';
+import { UploadSessionStore } from '../upload/upload-sessions';
+import { AcceptedSecretStore, SecretFinding, showSecretFindings } from '../upload/secrets';
+import { ApiResponse, Application, DeploymentSettings, DetectedProject } from '../api/types';
+import { getConfigManager } from '../utils/config-manager';
 
 interface UploadDeployArgs {
   workspaceFolder: string;
+  /** App directory within the workspace folder, for monorepos */
+  rootDirectory?: string;
   name: string;
   detected: DetectedProject;
+  /** From `lightcloud.json` */
+  settings?: DeploymentSettings;
   organisationId: string;
 }
 
 export class UploadDeployCommand {
-  private packager = new SourcePackager();
-  private uploader: SourceUploader;
-
-  constructor(private api: LightCloudApi) {
-    this.uploader = new SourceUploader(api);
+  private uploader: IncrementalUploader;
+
+  constructor(
+    private api: LightCloudApi,
+    uploadSessions?: UploadSessionStore,
+    acceptedSecrets?: AcceptedSecretStore
+  ) {
+    this.uploader = new IncrementalUploader(api, uploadSessions, acceptedSecrets);
   }
 
   async execute(
@@ -35,42 +46,42 @@ export class UploadDeployCommand {
       return { metadata: { command: 'upload-deploy', status: 'error' } };
     }
 
-    // Step 1: Package
-    stream.markdown('## 📦 Preparing Upload\n\n');
+    // An uploaded app linked in this organisation is redeployed in place,
+    // sending only the files that changed since its last upload
+    const configManager = getConfigManager(path.join(args.workspaceFolder, args.rootDirectory || ''));
+    const linked = configManager.read();
+    const existing = linked?.applicationId && linked.organisationId === args.organisationId
+      ? (await this.api.getApplication(args.organisationId, linked.applicationId)).data
+      : undefined;
+    const existingApp = existing?.source_type === 'upload' ? existing : undefined;
+
+    // Step 1: Package and upload (streamed, size checked while scanning)
+    stream.markdown('## 📦 Uploading\n\n');
     stream.progress('Packaging your project...');
 
-    const packageResult = await this.packager.package(workspaceFolder, (msg) => {
-      stream.progress(msg);
-    });
-
-    const sizeMB = (packageResult.totalSize / 1024 / 1024).toFixed(2);
-
-    stream.markdown(`Packaging complete:\n`);
-    stream.markdown(`- Files: ${packageResult.fileCount}\n`);
-    stream.markdown(`- Size: ${sizeMB} MB\n`);
-    stream.markdown(`- Excluding: node_modules, .git, .env\n\n`);
-
-    // Check size limit
-    const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get('uploadMaxSizeMB') || 100;
-    if (packageResult.totalSize > (maxSizeMB as number) * 1024 * 1024) {
-      stream.markdown(`⚠️ **Package too large** (${sizeMB} MB > ${maxSizeMB} MB limit)\n\n`);
-      stream.markdown('Please exclude more files or use GitHub deployment.\n');
-      return { metadata: { command: 'upload-deploy', status: 'too-large' } };
-    }
-
-    // Step 2: Upload
-    stream.markdown('## ⬆️ Uploading\n\n');
-    stream.progress('Uploading source...');
-
-    const uploadResult = await this.uploader.upload(
-      args.organisationId,
-      packageResult.buffer,
-      `${args.name}-source.zip`,
-      (progress) => {
-        const bar = this.createProgressBar(progress.percentage);
-        stream.progress(`Uploading... ${bar} ${progress.percentage}%`);
+    const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get<number>('uploadMaxSizeMB') || 100;
+
+    let uploadResult: UploadSummary | { error: string } | { secrets: SecretFinding[] };
+    try {
+      uploadResult = await this.uploader.upload(workspaceFolder, {
+        organisationId: args.organisationId,
+        applicationId: existingApp?.id,
+        fileName: `${existingApp?.name || args.name}-source.zip`,
+        maxBytes: maxSizeMB * 1024 * 1024,
+        onProgress: (msg) => stream.progress(msg),
+        onUploadProgress: (progress) => {
+          const bar = this.createProgressBar(progress.percentage);
+          stream.progress(`Uploading... ${bar} ${progress.percentage}%`);
+        },
+      });
+    } catch (error) {
+      if (error instanceof PackageTooLargeError) {
+        stream.markdown(`⚠️ **Package too large** (more than ${maxSizeMB} MB before compression)\n\n`);
+        stream.markdown('Exclude more files with `.lightcloudignore` or use GitHub deployment.\n');
+        return { metadata: { command: 'upload-deploy', status: 'too-large' } };
       }
-    );
+      throw error;
+    }
 
     if ('error' in uploadResult) {
       stream.markdown(`❌ Upload failed: ${uploadResult.error}\n`);
@@ -82,23 +93,47 @@ export class UploadDeployCommand {
       return { metadata: { command: 'upload-deploy', status: 'upload-failed' } };
     }
 
-    stream.markdown('✅ Upload complete!\n\n');
+    if ('secrets' in uploadResult) {
+      showSecretFindings(stream, uploadResult.secrets, workspaceFolder.uri.fsPath);
+      return { metadata: { command: 'upload-deploy', status: 'secrets-found' } };
+    }
+
+    stream.markdown(`✅ ${formatUploadSummary(uploadResult)}\n`);
+    stream.markdown(`- Excluded: ${uploadResult.excludedCount} (defaults, \`.gitignore\`, \`.lightcloudignore\`)\n\n`);
 
-    // Step 3: Create application
+    // Step 2: Deploy the upload to the linked application, or create one
     stream.markdown('## 🚀 Deploying\n\n');
-    stream.progress('Creating application...');
-
-    const createResult = await this.api.createApplicationFromUpload({
-      targetOrganisationId: args.organisationId,
-      name: args.name,
-      uploadId: uploadResult.uploadId,
-      deploymentType: args.detected.deploymentType,
-      framework: args.detected.framework,
-      runtime: args.detected.runtime,
-      buildCommand: args.detected.buildCommand,
-      startCommand: args.detected.startCommand,
-      outputDirectory: args.detected.outputDirectory,
-    });
+
+    let createResult: ApiResponse<Application>;
+    if (existingApp) {
+      stream.progress(`Deploying changes to ${existingApp.name}...`);
+      const deployResult = await this.api.deployFromUpload({
+        targetOrganisationId: args.organisationId,
+        applicationId: existingApp.id,
+        environmentId: linked?.environmentId,
+        uploadId: uploadResult.uploadId,
+      });
+      createResult = deployResult.success
+        ? await this.api.getApplication(args.organisationId, existingApp.id)
+        : { success: false, error: deployResult.error };
+    } else {
+      stream.progress('Creating application...');
+      createResult = await this.api.createApplicationFromUpload({
+        targetOrganisationId: args.organisationId,
+        name: args.name,
+        uploadId: uploadResult.uploadId,
+        rootDirectory: args.rootDirectory || undefined,
+        deploymentType: args.detected.deploymentType,
+        framework: args.detected.framework,
+        runtime: args.detected.runtime,
+        runtimeVersion: args.detected.runtimeVersion,
+        installCommand: args.detected.installCommand,
+        buildCommand: args.detected.buildCommand,
+        startCommand: args.detected.startCommand,
+        outputDirectory: args.detected.outputDirectory,
+        ...args.settings,
+      });
+    }
 
     if (!createResult.success || !createResult.data) {
       stream.markdown(`❌ Deployment failed: ${createResult.error?.message}\n`);
@@ -107,33 +142,90 @@ export class UploadDeployCommand {
 
     const app = createResult.data;
 
-    // Step 4: Stream build logs (if enabled)
+    // Link the app directory, so each package of a monorepo keeps its own `.lightcloud`;
+    // a redeployed app stays linked to its environment
+    const deployedEnv = (existingApp && app.environments?.find(e => e.id === linked?.environmentId))
+      || app.environments?.find(e => e.is_production)
+      || app.environments?.[0];
+    await configManager.write({
+      organisationId: args.organisationId,
+      applicationId: app.id,
+      applicationName: app.name,
+      environmentId: deployedEnv?.id,
+      environmentName: deployedEnv?.name,
+      deploymentType: app.deployment_type,
+      framework: app.framework,
+      runtime: app.runtime,
+      lastDeployedAt: new Date().toISOString(),
+    });
+
+    // Step 3: Stream build logs (if enabled)
     const showLogs = vscode.workspace.getConfiguration('lightcloud').get('showBuildLogs');
 
-    if (showLogs && app.environments?.[0]) {
+    if (showLogs && deployedEnv) {
       stream.markdown('🔨 Building... (streaming logs)\n\n');
       stream.markdown('```\n');
 
-      const env = app.environments[0];
-      const stopStream = await this.api.streamEnvironmentLogs(
-        args.organisationId,
-        env.id,
-        (log) => {
+      const env = deployedEnv;
+
+      // Resolves with the final status from the stream's `complete` event, 'cancelled',
+      // or undefined if the stream fails, ends or times out and we have to fall back to polling
+      let resolveCompletion: (status?: string) => void = () => {};
+      const completion = new Promise<string | undefined>(resolve => {
+        resolveCompletion = resolve;
+      });
+
+      const stopStream = await this.api.streamEnvironmentLogs(args.organisationId, env.id, {
+        onLog: (log) => {
           stream.markdown(`${log}\n`);
         },
-        (error) => {
+        onStage: (event) => {
+          stream.progress(`Build stage: ${event.stage}`);
+        },
+        onComplete: (event) => {
+          resolveCompletion(event.status);
+        },
+        onError: (error) => {
           stream.markdown(`\nLog stream error: ${error.message}\n`);
-        }
-      );
+          resolveCompletion(undefined);
+        },
+        onClose: () => {
+          resolveCompletion(undefined);
+        },
+      });
+
+      // Don't wait forever if the stream never reports completion
+      const timeout = setTimeout(() => resolveCompletion(undefined), 5 * 60 * 1000);
+      const cancellation = token.onCancellationRequested(() => resolveCompletion('cancelled'));
+      if (token.isCancellationRequested) {
+        resolveCompletion('cancelled');
+      }
 
-      // Wait for deployment to complete (poll status)
-      await this.waitForDeployment(args.organisationId, env.id, stream);
+      let finalStatus = await completion;
+      clearTimeout(timeout);
+      cancellation.dispose();
       stopStream();
 
+      if (finalStatus === undefined) {
+        finalStatus = await this.waitForDeployment(args.organisationId, env.id, token);
+      }
+
       stream.markdown('```\n\n');
+
+      if (finalStatus === 'failed') {
+        stream.markdown('❌ **Build failed.** Check the logs above for details.\n');
+        return { metadata: { command: 'upload-deploy', status: 'build-failed', applicationId: app.id } };
+      }
+      if (finalStatus === 'cancelled' || finalStatus === 'timeout') {
+        stream.markdown(finalStatus === 'cancelled'
+          ? '⏹️ Stopped waiting for the build. It carries on in Light Cloud.\n\n'
+          : '⏳ **Still building** after 5 minutes.\n\n');
+        stream.markdown('Use `/status` to check on it.\n');
+        return { metadata: { command: 'upload-deploy', status: finalStatus, applicationId: app.id } };
+      }
     }
 
-    // Step 5: Show result
+    // Step 4: Show result
     stream.markdown('## ✅ Deployed!\n\n');
 
     // Show the expected deployed URL (will be active once deployment completes)
@@ -173,27 +265,36 @@ export class UploadDeployCommand {
     return '█'.repeat(filled) + '░'.repeat(empty);
   }
 
+  /**
+   * Poll the environment until its build finishes, for up to 5 minutes
+   */
   private async waitForDeployment(
     organisationId: string,
     environmentId: string,
-    stream: vscode.ChatResponseStream
-  ): Promise<void> {
+    token: vscode.CancellationToken
+  ): Promise<'healthy' | 'failed' | 'timeout' | 'cancelled'> {
     const maxWaitMs = 5 * 60 * 1000; // 5 minutes
     const pollIntervalMs = 3000;
     const startTime = Date.now();
 
     while (Date.now() - startTime < maxWaitMs) {
+      if (token.isCancellationRequested) {
+        return 'cancelled';
+      }
+
       const status = await this.api.getEnvironment(organisationId, environmentId);
 
       if (status.data?.status === 'healthy') {
-        return;
+        return 'healthy';
       }
 
       if (status.data?.status === 'failed') {
-        throw new Error('Deployment failed');
+        return 'failed';
       }
 
       await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
     }
+
+    return 'timeout';
   }
 }
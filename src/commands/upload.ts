@@ -0,0 +1,251 @@
+// src/commands/upload.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { FrameworkDetector } from '../detection/framework-detector';
+import { SourcePackager, SourceScan, ExcludedPath } from '../upload/packager';
+import { UploadDeployCommand } from './upload-deploy';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { resolveOrganisation, showOrganisationFailure } from '../utils/organisation-resolver';
+import { formatBytes } from '../utils/formatting';
+import { Project, defaultAppName } from '../utils/project-resolver';
+import { resolveRuntimeVersion, showRuntimeVersionWarning } from '../utils/runtime-version-resolver';
+import { deploymentSettings, loadManifest, showManifestFailure, showMissingEnvReferences } from '../utils/manifest';
+
+const MAX_TREE_LINES = 100;
+const MAX_LARGEST = 10;
+const MAX_EXCLUDED_EXAMPLES = 5;
+
+interface TreeNode {
+  /** Undefined for files */
+  children?: Map<string, TreeNode>;
+}
+
+export class UploadCommand {
+  private packager = new SourcePackager();
+
+  constructor(
+    private api: LightCloudApi,
+    private frameworkDetector: FrameworkDetector,
+    private uploadDeploy: UploadDeployCommand
+  ) {}
+
+  /**
+   * Dry runs only read the workspace, so they don't need a login or the API
+   */
+  static isDryRun(request: vscode.ChatRequest): boolean {
+    return parseArgs(request.prompt, ['dry-run']).flags['dry-run'] === true;
+  }
+
+  async execute(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    project: Project
+  ): Promise<vscode.ChatResult> {
+    const args = parseArgs(request.prompt, ['dry-run']);
+
+    if (args.flags['dry-run'] === true) {
+      return this.dryRun(stream, project);
+    }
+
+    stream.progress('Analyzing project...');
+    const detected = await this.frameworkDetector.detect(project.folder);
+    const manifest = loadManifest(project.folder.uri.fsPath, detected);
+    if (manifest && 'status' in manifest) {
+      showManifestFailure(stream, manifest);
+      return { metadata: { command: 'upload', status: manifest.status } };
+    }
+
+    const organisation = await resolveOrganisation(this.api, getStringFlag(args, 'org'), {
+      placeHolder: 'Select organisation to deploy to',
+    });
+    if ('status' in organisation) {
+      if (organisation.status === 'cancelled') {
+        stream.markdown('Upload cancelled - no organisation selected.\n');
+      } else {
+        showOrganisationFailure(stream, organisation);
+      }
+      return { metadata: { command: 'upload', status: organisation.status } };
+    }
+
+    showRuntimeVersionWarning(stream, await resolveRuntimeVersion(this.api, detected));
+    if (manifest) {
+      showMissingEnvReferences(stream, manifest.env);
+    }
+
+    return this.uploadDeploy.execute({
+      workspaceFolder: project.workspaceFolder.uri.fsPath,
+      rootDirectory: project.rootDirectory,
+      name: manifest?.manifest.name || defaultAppName(project),
+      detected,
+      settings: manifest && deploymentSettings(manifest.settings, manifest.env),
+      organisationId: organisation.id,
+    }, stream, token);
+  }
+
+  /**
+   * Show what an upload would contain, without contacting the API.
+   * A package of a monorepo is uploaded with the whole workspace folder, so its
+   * shared code is available to the build.
+   */
+  private async dryRun(
+    stream: vscode.ChatResponseStream,
+    project: Project
+  ): Promise<vscode.ChatResult> {
+    const workspaceFolder = project.workspaceFolder;
+    stream.progress('Scanning files...');
+
+    // No size limit here, so an oversized project can be inspected in full
+    const scan = await this.packager.scan(workspaceFolder.uri.fsPath);
+
+    stream.progress('Estimating compressed size...');
+    const compressedBytes = await this.packager.estimateCompressedSize(scan);
+
+    const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get<number>('uploadMaxSizeMB') || 100;
+    const maxBytes = maxSizeMB * 1024 * 1024;
+    const overLimit = scan.totalBytes > maxBytes;
+
+    stream.markdown('## 🔍 Upload Dry Run\n\n');
+    stream.markdown(`Nothing was uploaded. This is what \`/upload\` would send from **${workspaceFolder.name}**:\n\n`);
+    stream.markdown('| | |\n');
+    stream.markdown('|---|---|\n');
+    if (project.rootDirectory) {
+      stream.markdown(`| **App directory** | \`${project.rootDirectory}\` |\n`);
+    }
+    stream.markdown(`| **Files** | ${scan.files.length} |\n`);
+    stream.markdown(`| **Size** | ${formatBytes(scan.totalBytes)} |\n`);
+    stream.markdown(`| **Compressed (estimated)** | ~${formatBytes(compressedBytes)} |\n`);
+    stream.markdown(`| **Limit** | ${maxSizeMB} MB before compression (${Math.round(scan.totalBytes / maxBytes * 100)}% used) |\n`);
+    stream.markdown(`| **Excluded** | ${scan.excludedCount} |\n\n`);
+
+    if (overLimit) {
+      stream.markdown(`⚠️ **Over the upload limit** by ${formatBytes(scan.totalBytes - maxBytes)}. `);
+      stream.markdown('Exclude more files with `.lightcloudignore`, using the largest files and directories below.\n\n');
+    }
+
+    if (scan.files.length > 0) {
+      this.showTree(stream, scan);
+      this.showLargest(stream, scan);
+    }
+
+    if (scan.excluded.length > 0) {
+      this.showExcluded(stream, scan.excluded);
+    }
+
+    return {
+      metadata: {
+        command: 'upload',
+        status: overLimit ? 'too-large' : 'dry-run',
+        fileCount: scan.files.length,
+        totalBytes: scan.totalBytes,
+      },
+    };
+  }
+
+  private showTree(stream: vscode.ChatResponseStream, scan: SourceScan): void {
+    const root: TreeNode = { children: new Map() };
+    for (const file of scan.files) {
+      const parts = file.name.split('/');
+      let node = root;
+      parts.forEach((part, index) => {
+        let child = node.children!.get(part);
+        if (!child) {
+          child = index === parts.length - 1 ? {} : { children: new Map() };
+          node.children!.set(part, child);
+        }
+        node = child;
+      });
+    }
+
+    const lines = renderTree(root, '');
+    stream.markdown('### Files\n\n');
+    stream.markdown('```\n');
+    stream.markdown(lines.slice(0, MAX_TREE_LINES).join('\n') + '\n');
+    if (lines.length > MAX_TREE_LINES) {
+      stream.markdown(`... ${lines.length - MAX_TREE_LINES} more lines\n`);
+    }
+    stream.markdown('```\n\n');
+  }
+
+  private showLargest(stream: vscode.ChatResponseStream, scan: SourceScan): void {
+    const largestFiles = [...scan.files].sort((a, b) => b.size - a.size).slice(0, MAX_LARGEST);
+
+    stream.markdown('### Largest Files\n\n');
+    stream.markdown('| File | Size |\n');
+    stream.markdown('|------|------|\n');
+    for (const file of largestFiles) {
+      stream.markdown(`| \`${file.name}\` | ${formatBytes(file.size)} |\n`);
+    }
+    stream.markdown('\n');
+
+    // Every directory counts the files below it, at any depth
+    const directories = new Map<string, { files: number; bytes: number }>();
+    for (const file of scan.files) {
+      const parts = file.name.split('/').slice(0, -1);
+      for (let depth = 1; depth <= parts.length; depth++) {
+        const name = parts.slice(0, depth).join('/');
+        const totals = directories.get(name) || { files: 0, bytes: 0 };
+        totals.files++;
+        totals.bytes += file.size;
+        directories.set(name, totals);
+      }
+    }
+
+    if (directories.size === 0) {
+      return;
+    }
+
+    const largestDirectories = [...directories.entries()]
+      .sort(([, a], [, b]) => b.bytes - a.bytes)
+      .slice(0, MAX_LARGEST);
+
+    stream.markdown('### Largest Directories\n\n');
+    stream.markdown('| Directory | Files | Size |\n');
+    stream.markdown('|-----------|-------|------|\n');
+    for (const [name, totals] of largestDirectories) {
+      stream.markdown(`| \`${name}/\` | ${totals.files} | ${formatBytes(totals.bytes)} |\n`);
+    }
+    stream.markdown('\n');
+  }
+
+  private showExcluded(stream: vscode.ChatResponseStream, excluded: ExcludedPath[]): void {
+    // Group by rule, keeping the order rules were first hit in
+    const groups = new Map<ExcludedPath['rule'], ExcludedPath[]>();
+    for (const path of excluded) {
+      groups.set(path.rule, [...(groups.get(path.rule) || []), path]);
+    }
+
+    stream.markdown('### Excluded\n\n');
+    stream.markdown('| Rule | From | Paths |\n');
+    stream.markdown('|------|------|-------|\n');
+    for (const [rule, paths] of groups) {
+      const examples = paths
+        .slice(0, MAX_EXCLUDED_EXAMPLES)
+        .map(p => `\`${p.name}${p.isDirectory ? '/' : ''}\``)
+        .join(', ');
+      const more = paths.length > MAX_EXCLUDED_EXAMPLES ? ` +${paths.length - MAX_EXCLUDED_EXAMPLES} more` : '';
+      stream.markdown(`| \`${rule.pattern}\` | ${rule.source ? `\`${rule.source}\`` : 'defaults'} | ${examples}${more} |\n`);
+    }
+    stream.markdown('\n');
+  }
+}
+
+/**
+ * Directories first, then files, each sorted by name
+ */
+function renderTree(node: TreeNode, indent: string): string[] {
+  const entries = [...node.children!.entries()].sort(([aName, a], [bName, b]) =>
+    Number(!a.children) - Number(!b.children) || aName.localeCompare(bName)
+  );
+
+  const lines: string[] = [];
+  entries.forEach(([name, child], index) => {
+    const last = index === entries.length - 1;
+    lines.push(`${indent}${last ? '└── ' : '├── '}${name}${child.children ? '/' : ''}`);
+    if (child.children) {
+      lines.push(...renderTree(child, `${indent}${last ? '    ' : '│   '}`));
+    }
+  });
+  return lines;
+}
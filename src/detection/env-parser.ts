@@ -27,9 +27,10 @@ export class EnvParser {
       // Skip comments and empty lines
       if (!trimmed || trimmed.startsWith('#')) continue;
 
-      const match = trimmed.match(/^([A-Z_][A-Z0-9_]*)=(.*)$/i);
+      const match = trimmed.match(/^(?:export\s+)?([A-Z_][A-Z0-9_]*)=(.*)$/i);
       if (match) {
-        const [, key, value] = match;
+        const key = match[1];
+        const value = this.unquote(match[2].trim());
         variables.push({
           key,
           value: value || undefined,
@@ -41,8 +42,8 @@ export class EnvParser {
     return variables;
   }
 
-  parseEnvFile(workspaceFolder: vscode.WorkspaceFolder): Record<string, string> {
-    const variables = this.parse(workspaceFolder, '.env');
+  parseEnvFile(workspaceFolder: vscode.WorkspaceFolder, fileName: string = '.env'): Record<string, string> {
+    const variables = this.parse(workspaceFolder, fileName);
     const result: Record<string, string> = {};
 
     for (const v of variables) {
@@ -53,4 +54,9 @@ export class EnvParser {
 
     return result;
   }
+
+  private unquote(value: string): string {
+    const quoted = value.match(/^(["'])(.*)\1$/);
+    return quoted ? quoted[2] : value;
+  }
 }
@@ -0,0 +1,262 @@
+// src/detection/framework-registry.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Framework, PythonPackageManager, Runtime } from '../api/types';
+import {
+  NodeCommands, NodeTooling, PackageManagerCommands,
+  detectNodeTooling, detectPythonPackageManager, nodeCommands, pythonCommands,
+} from './package-manager';
+
+export interface PackageJson {
+  name?: string;
+  main?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  engines?: Record<string, string>;
+  packageManager?: string;
+}
+
+// Evidence weights: a dependency is strong on its own, a config file or marker confirms it
+export const DEPENDENCY_WEIGHT = 0.6;
+export const MARKER_WEIGHT = 0.3;
+
+/**
+ * Read-only view of a project directory shared by all detector plugins
+ */
+export class ProjectFiles {
+  readonly packageJson?: PackageJson;
+  /** `dependencies` and `devDependencies` of package.json */
+  readonly dependencies: Record<string, string>;
+  /** Lower-cased package names from requirements.txt, pyproject.toml and Pipfile */
+  readonly pythonPackages: Set<string>;
+
+  private cache = new Map<string, string | undefined>();
+  private node?: { tooling: NodeTooling; commands: NodeCommands };
+  private python?: { packageManager: PythonPackageManager; commands: PackageManagerCommands };
+
+  constructor(readonly rootPath: string) {
+    const packageJson = this.read('package.json');
+    try {
+      this.packageJson = packageJson ? JSON.parse(packageJson) as PackageJson : undefined;
+    } catch {
+      this.packageJson = undefined;
+    }
+    this.dependencies = { ...this.packageJson?.dependencies, ...this.packageJson?.devDependencies };
+
+    this.pythonPackages = new Set(
+      ['requirements.txt', 'pyproject.toml', 'Pipfile']
+        .flatMap(file => parsePythonPackages(this.read(file) || ''))
+    );
+  }
+
+  /**
+   * The first of `candidates` (relative paths) that exists
+   */
+  find(...candidates: string[]): string | undefined {
+    return candidates.find(candidate => fs.existsSync(path.join(this.rootPath, candidate)));
+  }
+
+  read(relativePath: string): string | undefined {
+    if (!this.cache.has(relativePath)) {
+      let content: string | undefined;
+      try {
+        content = fs.readFileSync(path.join(this.rootPath, relativePath), 'utf-8');
+      } catch {
+        content = undefined;
+      }
+      this.cache.set(relativePath, content);
+    }
+    return this.cache.get(relativePath);
+  }
+
+  get nodeTooling(): NodeTooling {
+    return this.nodeToolchain().tooling;
+  }
+
+  get nodeCommands(): NodeCommands {
+    return this.nodeToolchain().commands;
+  }
+
+  get pythonPackageManager(): PythonPackageManager {
+    return this.pythonToolchain().packageManager;
+  }
+
+  get pythonCommands(): PackageManagerCommands {
+    return this.pythonToolchain().commands;
+  }
+
+  /**
+   * Command running a package.json script with the project's package manager,
+   * or undefined when package.json doesn't define it
+   */
+  script(name: string): string | undefined {
+    return this.packageJson?.scripts?.[name] ? this.nodeCommands.run(name) : undefined;
+  }
+
+  /**
+   * Names of the entries in a directory, or none if it doesn't exist
+   */
+  list(relativeDir = '.', directories = false): string[] {
+    try {
+      return fs.readdirSync(path.join(this.rootPath, relativeDir), { withFileTypes: true })
+        .filter(entry => entry.isDirectory() === directories)
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private nodeToolchain() {
+    if (!this.node) {
+      const tooling = detectNodeTooling(this);
+      this.node = { tooling, commands: nodeCommands(tooling) };
+    }
+    return this.node;
+  }
+
+  private pythonToolchain() {
+    if (!this.python) {
+      const packageManager = detectPythonPackageManager(this);
+      this.python = { packageManager, commands: pythonCommands(packageManager, this) };
+    }
+    return this.python;
+  }
+}
+
+/**
+ * Collects evidence for one framework and turns it into a confidence score
+ */
+export class Evidence {
+  private found: { description: string; weight: number }[] = [];
+
+  constructor(private files: ProjectFiles) {}
+
+  /** The first of `names` in package.json */
+  dependency(...names: string[]): this {
+    const name = names.find(n => this.files.dependencies[n]);
+    return name ? this.add(`\`${name}\` dependency`, DEPENDENCY_WEIGHT) : this;
+  }
+
+  /** The first of `names` in the Python requirements */
+  pythonPackage(...names: string[]): this {
+    const name = names.find(n => this.files.pythonPackages.has(n));
+    return name ? this.add(`\`${name}\` requirement`, DEPENDENCY_WEIGHT) : this;
+  }
+
+  /** The first of `candidates` that exists */
+  file(...candidates: string[]): this {
+    const found = this.files.find(...candidates);
+    return found ? this.add(`\`${found}\``, MARKER_WEIGHT) : this;
+  }
+
+  /** A file whose content matches `pattern` */
+  fileContaining(relativePath: string, pattern: RegExp, description: string, weight = DEPENDENCY_WEIGHT): this {
+    const content = this.files.read(relativePath);
+    return content && pattern.test(content) ? this.add(`${description} in \`${relativePath}\``, weight) : this;
+  }
+
+  add(description: string, weight: number): this {
+    this.found.push({ description, weight });
+    return this;
+  }
+
+  /** Whether anything but supporting markers was found */
+  get matched(): boolean {
+    return this.found.some(f => f.weight >= DEPENDENCY_WEIGHT);
+  }
+
+  get confidence(): number {
+    return Math.min(1, Math.round(this.found.reduce((sum, f) => sum + f.weight, 0) * 100) / 100);
+  }
+
+  get descriptions(): string[] {
+    return this.found.map(f => f.description);
+  }
+}
+
+/**
+ * What a plugin reports for a project it recognises
+ */
+export interface FrameworkDetection {
+  runtime: Runtime;
+  deploymentType: 'static' | 'container';
+  buildCommand?: string;
+  startCommand?: string;
+  outputDirectory?: string;
+  evidence: Evidence;
+}
+
+export interface FrameworkMatch extends Omit<FrameworkDetection, 'evidence'> {
+  framework: Framework;
+  /** From 0 to 1 */
+  confidence: number;
+  /** What the detection is based on, e.g. "`next` dependency" */
+  evidence: string[];
+}
+
+export interface FrameworkPlugin {
+  framework: Framework;
+  /** Display name, e.g. "Next.js" */
+  name: string;
+  /** Frameworks this one builds on; a match hides theirs (Next.js over React) */
+  supersedes?: Framework[];
+  /** Undefined when the project doesn't use this framework */
+  detect(files: ProjectFiles): FrameworkDetection | undefined;
+}
+
+export class FrameworkRegistry {
+  private plugins = new Map<Framework, FrameworkPlugin>();
+
+  constructor(plugins: FrameworkPlugin[] = []) {
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  /**
+   * Add a plugin, replacing any registered for the same framework
+   */
+  register(plugin: FrameworkPlugin): void {
+    this.plugins.set(plugin.framework, plugin);
+  }
+
+  name(framework: Framework): string | undefined {
+    return this.plugins.get(framework)?.name;
+  }
+
+  /**
+   * Every matching framework, most confident first (registration order breaks ties)
+   */
+  detect(files: ProjectFiles): FrameworkMatch[] {
+    const matches: FrameworkMatch[] = [];
+    for (const plugin of this.plugins.values()) {
+      const detection = plugin.detect(files);
+      if (!detection?.evidence.matched) {
+        continue;
+      }
+
+      const { evidence, ...rest } = detection;
+      matches.push({ ...rest, framework: plugin.framework, confidence: evidence.confidence, evidence: evidence.descriptions });
+    }
+
+    const superseded = new Set(matches.flatMap(m => this.plugins.get(m.framework)?.supersedes || []));
+    return matches
+      .filter(m => !superseded.has(m.framework))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+/**
+ * Requirement names, from `name>=1.0` lines, `"name[extra]>=1.0"` array items and `name = "^1.0"` tables
+ */
+function parsePythonPackages(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(/^\s*["']?([A-Za-z0-9][A-Za-z0-9_.-]*)/gm)) {
+    names.push(match[1].toLowerCase());
+  }
+  for (const match of content.matchAll(/["']([A-Za-z0-9][A-Za-z0-9_.-]*)\s*(?:\[[^\]]*\])?\s*(?:[<>=~!;]|["'])/g)) {
+    names.push(match[1].toLowerCase());
+  }
+  return names;
+}
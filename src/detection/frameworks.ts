@@ -0,0 +1,405 @@
+// src/detection/frameworks.ts
+
+import { Framework } from '../api/types';
+import {
+  DEPENDENCY_WEIGHT, Evidence, FrameworkPlugin, FrameworkRegistry, MARKER_WEIGHT, ProjectFiles,
+} from './framework-registry';
+
+/**
+ * The project's `build` script, else the framework's own build command if it has one
+ */
+function nodeBuild(files: ProjectFiles, fallback?: string): string | undefined {
+  return files.script('build') || (fallback ? files.nodeCommands.exec(fallback) : undefined);
+}
+
+// ============ JavaScript: meta-frameworks ============
+
+const nextjs: FrameworkPlugin = {
+  framework: 'nextjs',
+  name: 'Next.js',
+  supersedes: ['react'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('next')
+      .file('next.config.js', 'next.config.mjs', 'next.config.ts');
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'container', // Default to SSR
+      buildCommand: nodeBuild(files, 'next build'),
+      startCommand: files.script('start') || files.nodeCommands.exec('next start'),
+    };
+  },
+};
+
+const nuxt: FrameworkPlugin = {
+  framework: 'nuxt',
+  name: 'Nuxt',
+  supersedes: ['vue'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('nuxt', 'nuxt3')
+      .file('nuxt.config.ts', 'nuxt.config.js');
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'container',
+      buildCommand: nodeBuild(files, 'nuxt build'),
+      startCommand: 'node .output/server/index.mjs',
+    };
+  },
+};
+
+const remix: FrameworkPlugin = {
+  framework: 'remix',
+  name: 'Remix',
+  supersedes: ['react', 'express'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('@remix-run/node', '@remix-run/react', '@remix-run/dev')
+      .file('remix.config.js', 'remix.config.mjs');
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'container',
+      buildCommand: nodeBuild(files, files.dependencies['vite'] ? 'remix vite:build' : 'remix build'),
+      startCommand: files.script('start'),
+    };
+  },
+};
+
+const astro: FrameworkPlugin = {
+  framework: 'astro',
+  name: 'Astro',
+  supersedes: ['react', 'vue', 'svelte'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('astro')
+      .file('astro.config.mjs', 'astro.config.ts', 'astro.config.js');
+
+    // Static unless a server adapter is installed
+    if (files.dependencies['@astrojs/node']) {
+      evidence.add('`@astrojs/node` adapter', 0);
+      return {
+        evidence,
+        runtime: 'nodejs',
+        deploymentType: 'container',
+        buildCommand: nodeBuild(files, 'astro build'),
+        startCommand: 'node ./dist/server/entry.mjs',
+      };
+    }
+    return { evidence, runtime: 'nodejs', deploymentType: 'static', buildCommand: nodeBuild(files, 'astro build'), outputDirectory: 'dist' };
+  },
+};
+
+const sveltekit: FrameworkPlugin = {
+  framework: 'sveltekit',
+  name: 'SvelteKit',
+  supersedes: ['svelte'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('@sveltejs/kit')
+      .file('svelte.config.js', 'svelte.config.ts');
+
+    const buildCommand = nodeBuild(files, 'vite build');
+    if (files.dependencies['@sveltejs/adapter-static']) {
+      evidence.add('`@sveltejs/adapter-static` adapter', 0);
+      return { evidence, runtime: 'nodejs', deploymentType: 'static', buildCommand, outputDirectory: 'build' };
+    }
+    return { evidence, runtime: 'nodejs', deploymentType: 'container', buildCommand, startCommand: 'node build' };
+  },
+};
+
+const gatsby: FrameworkPlugin = {
+  framework: 'gatsby',
+  name: 'Gatsby',
+  supersedes: ['react'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('gatsby')
+      .file('gatsby-config.js', 'gatsby-config.ts', 'gatsby-config.mjs');
+    return { evidence, runtime: 'nodejs', deploymentType: 'static', buildCommand: nodeBuild(files, 'gatsby build'), outputDirectory: 'public' };
+  },
+};
+
+// ============ JavaScript: UI libraries ============
+
+const react: FrameworkPlugin = {
+  framework: 'react',
+  name: 'React',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('react')
+      .file('src/App.tsx', 'src/App.jsx', 'src/App.js');
+
+    // Vite builds to dist/, Create React App to build/
+    const vite = files.dependencies['vite'];
+    const cra = files.dependencies['react-scripts'];
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'static',
+      buildCommand: nodeBuild(files, vite ? 'vite build' : cra ? 'react-scripts build' : undefined),
+      outputDirectory: vite ? 'dist' : 'build',
+    };
+  },
+};
+
+const vue: FrameworkPlugin = {
+  framework: 'vue',
+  name: 'Vue.js',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('vue')
+      .file('vite.config.ts', 'vite.config.js', 'vue.config.js');
+    const cli = files.dependencies['@vue/cli-service'];
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'static',
+      buildCommand: nodeBuild(files, cli ? 'vue-cli-service build' : 'vite build'),
+      outputDirectory: 'dist',
+    };
+  },
+};
+
+const angular: FrameworkPlugin = {
+  framework: 'angular',
+  name: 'Angular',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('@angular/core')
+      .file('angular.json');
+    return { evidence, runtime: 'nodejs', deploymentType: 'static', buildCommand: nodeBuild(files, 'ng build'), outputDirectory: 'dist' };
+  },
+};
+
+const svelte: FrameworkPlugin = {
+  framework: 'svelte',
+  name: 'Svelte',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('svelte')
+      .file('svelte.config.js', 'vite.config.js', 'vite.config.ts');
+    const vite = files.dependencies['vite'];
+    return {
+      evidence,
+      runtime: 'nodejs',
+      deploymentType: 'static',
+      buildCommand: nodeBuild(files, vite ? 'vite build' : undefined),
+      outputDirectory: 'build',
+    };
+  },
+};
+
+// ============ JavaScript: servers ============
+
+const nestjs: FrameworkPlugin = {
+  framework: 'nestjs',
+  name: 'NestJS',
+  supersedes: ['express', 'fastify'],
+  detect(files) {
+    const evidence = new Evidence(files)
+      .dependency('@nestjs/core')
+      .file('nest-cli.json');
+    return { evidence, runtime: 'nodejs', deploymentType: 'container', buildCommand: nodeBuild(files, 'nest build'), startCommand: 'node dist/main' };
+  },
+};
+
+function nodeServer(framework: Framework, name: string, dependency: string): FrameworkPlugin {
+  return {
+    framework,
+    name,
+    detect(files) {
+      const evidence = new Evidence(files).dependency(dependency);
+      if (files.packageJson?.scripts?.start) {
+        evidence.add('`start` script', MARKER_WEIGHT);
+      }
+      return {
+        evidence,
+        runtime: 'nodejs',
+        deploymentType: 'container',
+        buildCommand: nodeBuild(files),
+        startCommand: files.script('start') || `node ${files.packageJson?.main || 'index.js'}`,
+      };
+    },
+  };
+}
+
+const express = nodeServer('express', 'Express.js', 'express');
+const fastify = nodeServer('fastify', 'Fastify', 'fastify');
+const hono = nodeServer('hono', 'Hono', 'hono');
+
+// ============ Python ============
+
+const django: FrameworkPlugin = {
+  framework: 'django',
+  name: 'Django',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .pythonPackage('django')
+      .file('manage.py');
+
+    // The project package is the one holding wsgi.py, as named in manage.py
+    const settings = files.read('manage.py')?.match(/DJANGO_SETTINGS_MODULE['"]\s*,\s*['"]([\w.]+)\.settings/)?.[1];
+    const project = settings || files.list('.', true).find(dir => files.find(`${dir}/wsgi.py`));
+    const { exec } = files.pythonCommands;
+
+    return {
+      evidence,
+      runtime: 'python',
+      deploymentType: 'container',
+      buildCommand: exec('python manage.py collectstatic --noinput'),
+      startCommand: exec(project
+        ? `gunicorn ${project}.wsgi --bind 0.0.0.0:$PORT`
+        : 'python manage.py runserver 0.0.0.0:$PORT'),
+    };
+  },
+};
+
+const fastapi: FrameworkPlugin = {
+  framework: 'fastapi',
+  name: 'FastAPI',
+  detect(files) {
+    const evidence = new Evidence(files).pythonPackage('fastapi');
+
+    const entry = ['main.py', 'app/main.py', 'app.py'].find(file => /FastAPI\s*\(/.test(files.read(file) || ''));
+    if (entry) {
+      evidence.add(`\`FastAPI()\` in \`${entry}\``, MARKER_WEIGHT);
+    }
+    const module = (entry || 'main.py').replace(/\.py$/, '').replace(/\//g, '.');
+
+    return {
+      evidence,
+      runtime: 'python',
+      deploymentType: 'container',
+      startCommand: files.pythonCommands.exec(`uvicorn ${module}:app --host 0.0.0.0 --port $PORT`),
+    };
+  },
+};
+
+const flask: FrameworkPlugin = {
+  framework: 'flask',
+  name: 'Flask',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .pythonPackage('flask')
+      .file('app.py', 'wsgi.py');
+    return {
+      evidence,
+      runtime: 'python',
+      deploymentType: 'container',
+      startCommand: files.pythonCommands.exec('gunicorn app:app --bind 0.0.0.0:$PORT'),
+    };
+  },
+};
+
+// ============ Other runtimes ============
+
+const rails: FrameworkPlugin = {
+  framework: 'rails',
+  name: 'Ruby on Rails',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .fileContaining('Gemfile', /^\s*gem\s+['"]rails['"]/m, '`rails` gem')
+      .file('config/application.rb', 'bin/rails');
+    return {
+      evidence,
+      runtime: 'ruby',
+      deploymentType: 'container',
+      buildCommand: 'bundle exec rails assets:precompile',
+      startCommand: 'bundle exec rails server -b 0.0.0.0 -p $PORT',
+    };
+  },
+};
+
+const laravel: FrameworkPlugin = {
+  framework: 'laravel',
+  name: 'Laravel',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .fileContaining('composer.json', /"laravel\/framework"\s*:/, '`laravel/framework` package')
+      .file('artisan');
+    return {
+      evidence,
+      runtime: 'php',
+      deploymentType: 'container',
+      buildCommand: 'composer install --no-dev --optimize-autoloader',
+      startCommand: 'php artisan serve --host=0.0.0.0 --port=$PORT',
+    };
+  },
+};
+
+const springBoot: FrameworkPlugin = {
+  framework: 'springboot',
+  name: 'Spring Boot',
+  detect(files) {
+    const evidence = new Evidence(files)
+      .fileContaining('pom.xml', /spring-boot/, 'Spring Boot')
+      .fileContaining('build.gradle', /org\.springframework\.boot/, 'Spring Boot plugin')
+      .fileContaining('build.gradle.kts', /org\.springframework\.boot/, 'Spring Boot plugin');
+
+    if (files.find('pom.xml')) {
+      const mvn = files.find('mvnw') ? './mvnw' : 'mvn';
+      return {
+        evidence,
+        runtime: 'java',
+        deploymentType: 'container',
+        buildCommand: `${mvn} package -DskipTests`,
+        startCommand: 'java -jar target/*.jar',
+      };
+    }
+    const gradle = files.find('gradlew') ? './gradlew' : 'gradle';
+    return {
+      evidence,
+      runtime: 'java',
+      deploymentType: 'container',
+      buildCommand: `${gradle} bootJar`,
+      startCommand: 'java -jar build/libs/*.jar',
+    };
+  },
+};
+
+const dotnet: FrameworkPlugin = {
+  framework: 'dotnet',
+  name: '.NET',
+  detect(files) {
+    const evidence = new Evidence(files);
+    const project = files.list().find(name => /\.(cs|fs|vb)proj$/.test(name));
+    if (project) {
+      evidence.add(`\`${project}\``, DEPENDENCY_WEIGHT);
+      if (/Sdk="Microsoft\.NET\.Sdk\.Web"/.test(files.read(project) || '')) {
+        evidence.add('web SDK', MARKER_WEIGHT);
+      }
+    }
+    const assembly = project?.replace(/\.\w+proj$/, '');
+
+    return {
+      evidence,
+      runtime: 'dotnet',
+      deploymentType: 'container',
+      buildCommand: 'dotnet publish -c Release -o out',
+      startCommand: `dotnet out/${assembly || 'app'}.dll`,
+    };
+  },
+};
+
+/**
+ * Built-in plugins. Where two match equally well, the earlier one wins.
+ */
+export const BUILT_IN_FRAMEWORKS: FrameworkPlugin[] = [
+  nextjs, nuxt, remix, astro, sveltekit, gatsby,
+  react, vue, angular, svelte,
+  nestjs, express, fastify, hono,
+  django, fastapi, flask,
+  rails, laravel, springBoot, dotnet,
+];
+
+const builtIn = new FrameworkRegistry(BUILT_IN_FRAMEWORKS);
+
+/**
+ * Display name of a framework, e.g. "Next.js"
+ */
+export function formatFrameworkName(framework: Framework): string {
+  return builtIn.name(framework) || framework;
+}
@@ -0,0 +1,149 @@
+// src/detection/package-manager.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodePackageManager, PythonPackageManager } from '../api/types';
+import type { ProjectFiles } from './framework-registry';
+
+// Checked in order, so a stray package-lock.json doesn't hide a pnpm or Yarn project
+const NODE_LOCKFILES: [string, NodePackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+export interface NodeTooling {
+  packageManager: NodePackageManager;
+  /** Absolute path; in a parent directory for a package of a monorepo */
+  lockfile?: string;
+  /** Yarn 2 or later, which spells `--frozen-lockfile` as `--immutable` */
+  yarnBerry?: boolean;
+}
+
+export interface PackageManagerCommands {
+  install: string;
+  /** Runs a command from the project's dependencies */
+  exec(command: string): string;
+}
+
+export interface NodeCommands extends PackageManagerCommands {
+  /** Runs a package.json script */
+  run(script: string): string;
+}
+
+/**
+ * The Node.js package manager from package.json's `packageManager` field (Corepack),
+ * else from the nearest lockfile: in the app directory or, for a workspace package,
+ * a parent directory up to the repository root.
+ */
+export function detectNodeTooling(files: ProjectFiles): NodeTooling {
+  const found = findNodeLockfile(files.rootPath);
+  const declared = files.packageJson?.packageManager?.match(/^(npm|yarn|pnpm|bun)@(\d+)?/);
+
+  const packageManager = (declared?.[1] as NodePackageManager | undefined) || found?.packageManager || 'npm';
+  const lockfile = found?.packageManager === packageManager ? found.lockfile : undefined;
+
+  if (packageManager !== 'yarn') {
+    return { packageManager, lockfile };
+  }
+  const yarnBerry = declared?.[2]
+    ? Number(declared[2]) >= 2
+    : !!lockfile && fs.existsSync(path.join(path.dirname(lockfile), '.yarnrc.yml'));
+  return { packageManager, lockfile, yarnBerry };
+}
+
+/**
+ * The Python package manager from its lockfile or Poetry's section of pyproject.toml
+ */
+export function detectPythonPackageManager(files: ProjectFiles): PythonPackageManager {
+  if (files.find('poetry.lock') || /^\[tool\.poetry\]/m.test(files.read('pyproject.toml') || '')) return 'poetry';
+  if (files.find('uv.lock')) return 'uv';
+  if (files.find('Pipfile.lock', 'Pipfile')) return 'pipenv';
+  return 'pip';
+}
+
+/**
+ * Install and run commands for a Node.js package manager; installs are frozen when there's a lockfile
+ */
+export function nodeCommands(tooling: NodeTooling): NodeCommands {
+  const frozen = !!tooling.lockfile;
+
+  switch (tooling.packageManager) {
+    case 'pnpm':
+      return {
+        install: frozen ? 'pnpm install --frozen-lockfile' : 'pnpm install',
+        run: script => `pnpm run ${script}`,
+        exec: command => `pnpm exec ${command}`,
+      };
+    case 'yarn':
+      return {
+        install: !frozen ? 'yarn install' : tooling.yarnBerry ? 'yarn install --immutable' : 'yarn install --frozen-lockfile',
+        run: script => `yarn ${script}`,
+        exec: command => `yarn ${command}`,
+      };
+    case 'bun':
+      return {
+        install: frozen ? 'bun install --frozen-lockfile' : 'bun install',
+        run: script => `bun run ${script}`,
+        exec: command => `bunx ${command}`,
+      };
+    default:
+      return {
+        install: frozen ? 'npm ci' : 'npm install',
+        run: script => script === 'start' ? 'npm start' : `npm run ${script}`,
+        exec: command => `npx ${command}`,
+      };
+  }
+}
+
+/**
+ * Install and run commands for a Python package manager
+ */
+export function pythonCommands(packageManager: PythonPackageManager, files: ProjectFiles): PackageManagerCommands {
+  switch (packageManager) {
+    case 'poetry':
+      return {
+        install: 'poetry install --no-interaction --no-root --only main',
+        exec: command => `poetry run ${command}`,
+      };
+    case 'uv':
+      return {
+        install: 'uv sync --frozen --no-dev',
+        exec: command => `uv run ${command}`,
+      };
+    case 'pipenv':
+      return {
+        install: files.find('Pipfile.lock') ? 'pipenv install --deploy' : 'pipenv install',
+        exec: command => `pipenv run ${command}`,
+      };
+    default:
+      return {
+        install: files.find('requirements.txt') ? 'pip install -r requirements.txt' : 'pip install .',
+        exec: command => command,
+      };
+  }
+}
+
+/**
+ * Walk up from the app directory; the repository root (holding `.git`) is the last directory searched
+ */
+function findNodeLockfile(rootPath: string): { packageManager: NodePackageManager; lockfile: string } | undefined {
+  let dir = rootPath;
+  for (;;) {
+    for (const [name, packageManager] of NODE_LOCKFILES) {
+      const lockfile = path.join(dir, name);
+      if (fs.existsSync(lockfile)) {
+        return { packageManager, lockfile };
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir || fs.existsSync(path.join(dir, '.git'))) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
@@ -0,0 +1,188 @@
+// src/detection/runtime-version.ts
+
+import type { ProjectFiles } from './framework-registry';
+
+export interface DetectedVersion {
+  /** As written, e.g. `20.11.0`, `>=18 <21` or `^3.11` */
+  version: string;
+  /** Where it was found, e.g. `.nvmrc` */
+  source: string;
+}
+
+// `.nvmrc` aliases for the LTS lines still in use
+const NODE_LTS_CODENAMES: Record<string, string> = {
+  hydrogen: '18',
+  iron: '20',
+  jod: '22',
+};
+
+/**
+ * Node.js version pinned by the version manager files, else the `engines.node` range
+ */
+export function detectNodeVersion(files: ProjectFiles): DetectedVersion | undefined {
+  for (const file of ['.nvmrc', '.node-version']) {
+    const version = firstLine(files.read(file));
+    const codename = version?.match(/^lts\/(\w+)$/i)?.[1].toLowerCase();
+    if (codename && NODE_LTS_CODENAMES[codename]) {
+      return { version: NODE_LTS_CODENAMES[codename], source: file };
+    }
+    // `node` and `lts/*` follow whatever is newest, so they pin nothing
+    if (version && /^v?\d/.test(version)) {
+      return { version: version.replace(/^v/, ''), source: file };
+    }
+  }
+
+  const toolVersion = toolVersions(files, 'nodejs', 'node');
+  if (toolVersion) {
+    return { version: toolVersion, source: '.tool-versions' };
+  }
+
+  const engines = files.packageJson?.engines?.node?.trim();
+  if (engines) {
+    return { version: engines, source: 'package.json engines.node' };
+  }
+  return undefined;
+}
+
+/**
+ * Python version pinned by `.python-version`, `runtime.txt` or `.tool-versions`, else `requires-python`
+ */
+export function detectPythonVersion(files: ProjectFiles): DetectedVersion | undefined {
+  const pinned = firstLine(files.read('.python-version'));
+  if (pinned && /^\d/.test(pinned)) {
+    return { version: pinned, source: '.python-version' };
+  }
+
+  const runtime = firstLine(files.read('runtime.txt'))?.match(/^python-(\d[\w.]*)$/)?.[1];
+  if (runtime) {
+    return { version: runtime, source: 'runtime.txt' };
+  }
+
+  const toolVersion = toolVersions(files, 'python');
+  if (toolVersion) {
+    return { version: toolVersion, source: '.tool-versions' };
+  }
+
+  const requires = files.read('pyproject.toml')?.match(/^\s*requires-python\s*=\s*["']([^"']+)["']/m)?.[1].trim();
+  if (requires) {
+    return { version: requires, source: 'pyproject.toml requires-python' };
+  }
+  return undefined;
+}
+
+/**
+ * The newest of `supported` (e.g. `['18', '20', '22']`) that `spec` allows.
+ * Supported versions are release lines, so `>=18.17` allows `18`.
+ */
+export function matchVersion(spec: string, supported: string[]): string | undefined {
+  return [...supported]
+    .sort((a, b) => compare(parse(b), parse(a)))
+    .find(line => satisfies(line, spec));
+}
+
+/**
+ * The release line of an exact version, keeping `precision` components
+ * (`20.11.0` → `20`, `3.11.4` → `3.11`), or undefined for a range
+ */
+export function versionLine(spec: string, precision: number): string | undefined {
+  const exact = spec.trim().match(/^(?:==?|v)?(\d+(?:\.\d+)*)(?:\.[x*])?$/)?.[1];
+  return exact?.split('.').slice(0, precision).join('.');
+}
+
+/**
+ * Whether a release line is allowed by an npm semver range or a PEP 440 specifier
+ */
+export function satisfies(line: string, spec: string): boolean {
+  const version = parse(line);
+  return spec
+    .split('||')
+    .some(range => comparators(range).every(([operator, bound]) => allows(version, operator, bound)));
+}
+
+type Version = number[];
+
+function comparators(range: string): [string, Version][] {
+  range = range.trim().replace(/([<>=~^!]=?)\s+/g, '$1');
+  const hyphen = range.match(/^(\S+)\s+-\s+(\S+)$/);
+  const parts = hyphen
+    ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+    : range.split(/[\s,]+/).filter(Boolean);
+
+  const result: [string, Version][] = [];
+  for (const part of parts) {
+    const match = part.match(/^(~=|===?|!=|>=|<=|[<>=^~]|v)?\s*([\dx*]+(?:\.[\dx*]+)*)/i);
+    if (!match) {
+      continue;
+    }
+    // Wildcard components (`20.x`, `3.*`) leave a prefix to match
+    const bound = match[2].split('.').filter(part => !/^[x*]$/i.test(part)).map(Number);
+    if (bound.length > 0) {
+      result.push([match[1] && match[1] !== 'v' ? match[1] : '=', bound]);
+    }
+  }
+  return result;
+}
+
+function allows(line: Version, operator: string, bound: Version): boolean {
+  const precise = bound.slice(0, line.length);
+  const finer = bound.slice(line.length).some(part => part > 0);
+  const order = compare(line, precise);
+
+  switch (operator) {
+    case '>=':
+      return order >= 0;
+    case '>':
+      // `>18.2` still allows later 18.x releases
+      return finer || bound.length > line.length ? order >= 0 : order > 0;
+    case '<=':
+      return order <= 0;
+    case '<':
+      return finer ? order <= 0 : order < 0;
+    case '!=':
+      return bound.length > line.length || order !== 0;
+    case '^':
+      // Same leftmost non-zero component, at or above the bound
+      return line[0] === bound[0] && order >= 0;
+    case '~':
+      return samePrefix(line, bound.slice(0, Math.max(1, Math.min(2, bound.length)))) && order >= 0;
+    case '~=':
+      // PEP 440 compatible release: `~=3.10` is `>=3.10, ==3.*`
+      return samePrefix(line, bound.slice(0, Math.max(1, bound.length - 1))) && order >= 0;
+    default:
+      return samePrefix(line, bound);
+  }
+}
+
+/** Whether the versions agree on the components both have */
+function samePrefix(a: Version, b: Version): boolean {
+  return a.slice(0, b.length).every((part, i) => b[i] === undefined || part === b[i]);
+}
+
+function compare(a: Version, b: Version): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] || 0) - (b[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function parse(version: string): Version {
+  return version.split('.').map(part => parseInt(part, 10) || 0);
+}
+
+function firstLine(content: string | undefined): string | undefined {
+  return content?.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('#'));
+}
+
+/** The version asdf/mise `.tool-versions` pins for a tool */
+function toolVersions(files: ProjectFiles, ...tools: string[]): string | undefined {
+  for (const line of (files.read('.tool-versions') || '').split('\n')) {
+    const [tool, version] = line.trim().split(/\s+/);
+    if (tools.includes(tool) && version && /^\d/.test(version)) {
+      return version;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,223 @@
+// src/detection/workspace-detector.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreMatcher, globToRegex } from '../upload/excludes';
+import { FrameworkRegistry, ProjectFiles } from './framework-registry';
+import { BUILT_IN_FRAMEWORKS } from './frameworks';
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'nx' | 'turborepo' | 'python';
+
+/**
+ * A deployable app inside a monorepo
+ */
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the workspace root, `/`-separated */
+  rootDirectory: string;
+  /** The workspace tool that declares it */
+  tool: WorkspaceTool;
+}
+
+// Workspace globs and Python subprojects are searched this deep
+const MAX_DEPTH = 4;
+
+const PYTHON_MARKERS = ['pyproject.toml', 'requirements.txt', 'setup.py', 'Pipfile'];
+
+interface PackageJson {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+export class WorkspaceDetector {
+  constructor(private registry = new FrameworkRegistry(BUILT_IN_FRAMEWORKS)) {}
+
+  /**
+   * Find the packages of npm/yarn/pnpm workspaces, Nx projects and Python subprojects
+   * below `rootPath`. A plain single-app folder has none.
+   */
+  async detect(rootPath: string): Promise<WorkspacePackage[]> {
+    const packages = new Map<string, WorkspacePackage>();
+    const add = (pkg: WorkspacePackage) => {
+      if (pkg.rootDirectory && !packages.has(pkg.rootDirectory)) {
+        packages.set(pkg.rootDirectory, pkg);
+      }
+    };
+
+    const directories = this.listDirectories(rootPath);
+
+    // npm, yarn and pnpm workspaces; Turborepo builds on top of them
+    const patterns = this.workspacePatterns(rootPath);
+    if (patterns.length > 0) {
+      const tool = this.workspaceTool(rootPath);
+      for (const dir of this.matchPatterns(directories, patterns)) {
+        const packageJson = readJson<PackageJson>(path.join(rootPath, dir, 'package.json'));
+        if (packageJson) {
+          add({ name: packageJson.name || path.posix.basename(dir), rootDirectory: dir, tool });
+        }
+      }
+    }
+
+    // Nx projects are marked by a project.json
+    if (fs.existsSync(path.join(rootPath, 'nx.json'))) {
+      for (const dir of directories) {
+        const project = readJson<{ name?: string }>(path.join(rootPath, dir, 'project.json'));
+        if (project) {
+          add({ name: project.name || path.posix.basename(dir), rootDirectory: dir, tool: 'nx' });
+        }
+      }
+    }
+
+    // Python services alongside (or instead of) JavaScript ones. In a single app, a
+    // `requirements.txt` in a subdirectory is tooling (e.g. docs), not another app.
+    const isWorkspace = patterns.length > 0
+      || fs.existsSync(path.join(rootPath, 'nx.json'))
+      || fs.existsSync(path.join(rootPath, 'turbo.json'));
+    if (isWorkspace || !this.isApp(rootPath)) {
+      for (const dir of directories) {
+        if (PYTHON_MARKERS.some(marker => fs.existsSync(path.join(rootPath, dir, marker)))) {
+          add({ name: this.pythonName(path.join(rootPath, dir)) || path.posix.basename(dir), rootDirectory: dir, tool: 'python' });
+        }
+      }
+    }
+
+    // A package nested in another one (e.g. a Python tool inside a JS app) belongs to it
+    const sorted = [...packages.values()].sort((a, b) => a.rootDirectory.localeCompare(b.rootDirectory));
+    return sorted.filter(pkg => !sorted.some(other =>
+      other !== pkg && pkg.rootDirectory.startsWith(`${other.rootDirectory}/`)
+    ));
+  }
+
+  /**
+   * Whether the folder is an app itself: a Node.js server, a Python project or a known framework
+   */
+  isApp(rootPath: string): boolean {
+    const files = new ProjectFiles(rootPath);
+    return Boolean(files.packageJson?.main || files.packageJson?.scripts?.start)
+      || PYTHON_MARKERS.some(marker => fs.existsSync(path.join(rootPath, marker)))
+      || this.registry.detect(files).length > 0;
+  }
+
+  private workspacePatterns(rootPath: string): string[] {
+    const packageJson = readJson<PackageJson>(path.join(rootPath, 'package.json'));
+    const workspaces = Array.isArray(packageJson?.workspaces)
+      ? packageJson!.workspaces
+      : packageJson?.workspaces?.packages || [];
+
+    const pnpmWorkspace = path.join(rootPath, 'pnpm-workspace.yaml');
+    if (fs.existsSync(pnpmWorkspace)) {
+      workspaces.push(...parsePnpmPackages(fs.readFileSync(pnpmWorkspace, 'utf-8')));
+    }
+
+    return workspaces;
+  }
+
+  private workspaceTool(rootPath: string): WorkspaceTool {
+    if (fs.existsSync(path.join(rootPath, 'turbo.json'))) return 'turborepo';
+    if (fs.existsSync(path.join(rootPath, 'pnpm-workspace.yaml'))) return 'pnpm';
+    if (fs.existsSync(path.join(rootPath, 'yarn.lock'))) return 'yarn';
+    return 'npm';
+  }
+
+  /**
+   * Directories matching the workspace globs; `!` patterns remove matches again
+   */
+  private matchPatterns(directories: string[], patterns: string[]): string[] {
+    const rules = patterns.map(pattern => {
+      const negated = pattern.startsWith('!');
+      const glob = pattern.replace(/^!/, '').replace(/^\.\//, '').replace(/\/+$/, '');
+      return { negated, regex: new RegExp(`^${globToRegex(glob)}$`) };
+    });
+
+    return directories.filter(dir => {
+      let matched = false;
+      for (const rule of rules) {
+        if (rule.regex.test(dir)) {
+          matched = !rule.negated;
+        }
+      }
+      return matched;
+    });
+  }
+
+  /**
+   * Every directory below the root, skipping dependencies, build output and ignored paths
+   */
+  private listDirectories(rootPath: string): string[] {
+    const matcher = new IgnoreMatcher();
+    const gitignore = path.join(rootPath, '.gitignore');
+    if (fs.existsSync(gitignore)) {
+      matcher.add(fs.readFileSync(gitignore, 'utf-8'));
+    }
+
+    const directories: string[] = [];
+    const walk = (relativeDir: string, depth: number) => {
+      if (depth > MAX_DEPTH) {
+        return;
+      }
+
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(path.join(rootPath, relativeDir), { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (!entry.isDirectory() || entry.name.startsWith('.') || matcher.ignores(relativePath, true)) {
+          continue;
+        }
+        directories.push(relativePath);
+        walk(relativePath, depth + 1);
+      }
+    };
+
+    walk('', 1);
+    return directories;
+  }
+
+  private pythonName(dir: string): string | undefined {
+    const pyprojectPath = path.join(dir, 'pyproject.toml');
+    if (!fs.existsSync(pyprojectPath)) {
+      return undefined;
+    }
+    // `name` in [project] or [tool.poetry]
+    const match = fs.readFileSync(pyprojectPath, 'utf-8')
+      .match(/^\[(?:project|tool\.poetry)\][^[]*?^name\s*=\s*["']([^"']+)["']/m);
+    return match?.[1];
+  }
+}
+
+/**
+ * The `packages:` list of a pnpm-workspace.yaml
+ */
+function parsePnpmPackages(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages) {
+      const item = line.match(/^\s+-\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns;
+}
+
+function readJson<T>(filePath: string): T | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,5 +1,6 @@
 // src/extension.ts
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { ApiClient } from './api/client';
 import { LightCloudApi } from './api/endpoints';
@@ -7,10 +8,67 @@ import { LightCloudParticipant } from './participant';
 import { AuthCommands } from './commands/auth';
 import { GitHubCommands } from './commands/github';
 import { UploadDeployCommand } from './commands/upload-deploy';
-import { getConfigManager } from './utils/config-manager';
+import { UploadSessionStore } from './upload/upload-sessions';
+import { AcceptedSecretStore } from './upload/secrets';
+import { excludeFromUploads } from './upload/excludes';
+import { EnvCommand } from './commands/env';
+import { HistoryCommand } from './commands/history';
+import { LogsCommand } from './commands/logs';
+import { DeploymentLogsProvider } from './views/deployment-logs-provider';
+import { ConfigManager, InvalidConfigError, LightCloudConfig, getConfigManager, onDidChangeConfig, runInProject, watchConfig } from './utils/config-manager';
+import { resolveProject } from './utils/project-resolver';
+import { resolveOrganisation } from './utils/organisation-resolver';
+import { applySettingsDiff, resolveSyncVariables } from './utils/settings-diff';
 
 let participant: LightCloudParticipant;
 
+/**
+ * Config for the app directory a deploy button was created for, falling back to
+ * the workspace root for buttons without one
+ */
+function projectConfig(args?: { workspaceFolder?: string; rootDirectory?: string }) {
+  return getConfigManager(args?.workspaceFolder && path.join(args.workspaceFolder, args.rootDirectory || ''));
+}
+
+/**
+ * Read the link for a button or palette command; an unusable `.lightcloud` is reported
+ * to the user and read as undefined, so the command can stop
+ */
+function readLink(configManager: ConfigManager): LightCloudConfig | null | undefined {
+  try {
+    return configManager.read();
+  } catch (error) {
+    if (error instanceof InvalidConfigError) {
+      vscode.window.showErrorMessage(error.message);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Config for a palette command run without a button's arguments: the linked app directory,
+ * asking when the workspace has several. Undefined when the user cancels or there is none.
+ */
+async function pickLinkedConfig(): Promise<ConfigManager | undefined> {
+  const project = await resolveProject(undefined, { linkedOnly: true });
+  if ('status' in project) {
+    if (project.status !== 'cancelled') {
+      vscode.window.showErrorMessage(project.message);
+    }
+    return undefined;
+  }
+  return getConfigManager(project.folder.uri.fsPath);
+}
+
+/**
+ * Whether any app directory in the workspace is linked, for `when` clauses of commands that need a linked app
+ */
+async function updateLinkedContext(): Promise<void> {
+  const links = await vscode.workspace.findFiles('**/.lightcloud', '**/node_modules/**', 1);
+  await vscode.commands.executeCommand('setContext', 'lightcloud.linked', links.length > 0);
+}
+
 export function activate(context: vscode.ExtensionContext) {
   console.log('Light Cloud extension activating...');
 
@@ -19,7 +77,12 @@ export function activate(context: vscode.ExtensionContext) {
   const api = new LightCloudApi(client);
   const auth = new AuthCommands(client, api);
   const github = new GitHubCommands(api);
-  const uploadDeploy = new UploadDeployCommand(api);
+  const uploadSessions = new UploadSessionStore(context.globalState);
+  const acceptedSecrets = new AcceptedSecretStore(context.workspaceState);
+  const uploadDeploy = new UploadDeployCommand(api, uploadSessions, acceptedSecrets);
+  const envCommand = new EnvCommand(api);
+  const historyCommand = new HistoryCommand(api);
+  const logsCommand = new LogsCommand(api);
 
   // Initialize chat participant
   participant = new LightCloudParticipant(context);
@@ -50,6 +113,18 @@ export function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(uriHandler);
 
+  // Keep `lightcloud.linked` (which shows the commands for a linked app) in step with `.lightcloud` files
+  updateLinkedContext();
+  context.subscriptions.push(watchConfig(), onDidChangeConfig(updateLinkedContext));
+
+  // Register read-only documents for deployment logs
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      DeploymentLogsProvider.scheme,
+      new DeploymentLogsProvider(api)
+    )
+  );
+
   // Register commands
   context.subscriptions.push(
     // Auth commands
@@ -82,11 +157,16 @@ export function activate(context: vscode.ExtensionContext) {
         name: args.name || args.gitInfo.repo,
         githubRepoUrl: `https://github.com/${args.gitInfo.owner}/${args.gitInfo.repo}`,
         githubBranch: args.gitInfo.branch || 'main',
+        rootDirectory: args.rootDirectory || undefined,
         deploymentType: args.detected.deploymentType,
         framework: args.detected.framework,
         runtime: args.detected.runtime,
+        runtimeVersion: args.detected.runtimeVersion,
+        installCommand: args.detected.installCommand,
         buildCommand: args.detected.buildCommand,
+        startCommand: args.detected.startCommand,
         outputDirectory: args.detected.outputDirectory,
+        ...args.settings,
       });
 
       if (result.success && result.data) {
@@ -94,8 +174,8 @@ export function activate(context: vscode.ExtensionContext) {
         const prodEnv = app.environments?.find((e: any) => e.is_production) || app.environments?.[0];
 
         // Save to .lightcloud config
-        const configManager = getConfigManager();
-        configManager.write({
+        const configManager = projectConfig(args);
+        await configManager.write({
           organisationId: args.organisationId,
           applicationId: app.id,
           applicationName: app.name,
@@ -149,20 +229,25 @@ export function activate(context: vscode.ExtensionContext) {
         name: config.name,
         githubRepoUrl: `https://github.com/${config.gitInfo.owner}/${config.gitInfo.repo}`,
         githubBranch: config.gitInfo.branch || 'main',
+        rootDirectory: config.rootDirectory || undefined,
         deploymentType: config.detected.deploymentType,
         framework: config.detected.framework,
         runtime: config.detected.runtime,
+        runtimeVersion: config.detected.runtimeVersion,
+        installCommand: config.detected.installCommand,
         buildCommand: config.detected.buildCommand,
+        startCommand: config.detected.startCommand,
         outputDirectory: config.detected.outputDirectory,
+        ...config.settings,
       });
 
       if (result.success && result.data) {
         // Save to .lightcloud config
-        const configManager = getConfigManager();
+        const configManager = projectConfig(config);
         const app = result.data as any;
         const prodEnv = app.environments?.find((e: any) => e.is_production) || app.environments?.[0];
 
-        configManager.write({
+        await configManager.write({
           organisationId: config.organisationId,
           applicationId: app.id,
           applicationName: app.name,
@@ -233,40 +318,20 @@ export function activate(context: vscode.ExtensionContext) {
           }
         }
 
-        const orgs = profileResult.data.organisations;
-
-        // Check for configured default organisation
-        const config = vscode.workspace.getConfiguration('lightcloud');
-        const defaultOrgId = config.get('defaultOrganisation') as string;
-        if (defaultOrgId) {
-          const matchedOrg = orgs.find((o: any) => o.id === defaultOrgId);
-          if (matchedOrg) {
-            return matchedOrg.id;
-          }
-        }
-
-        // If multiple orgs, prompt user to select
-        if (orgs.length > 1) {
-          const orgOptions = orgs.map((o: any) => ({
-            label: o.name,
-            description: o.slug,
-            id: o.id,
-          }));
-
-          const selected = await vscode.window.showQuickPick(orgOptions, {
-            placeHolder: 'Select organisation to deploy to',
-            title: 'Choose Organisation',
-          });
-
-          if (!selected) {
+        // Linked organisation, default setting, only organisation or prompt
+        const organisation = await runInProject(projectConfig(args).getDirectory(), () => resolveOrganisation(api, undefined, {
+          placeHolder: 'Select organisation to deploy to',
+        }));
+        if ('status' in organisation) {
+          if (organisation.status === 'cancelled') {
             vscode.window.showInformationMessage('Deployment cancelled.');
-            return null;
+          } else {
+            vscode.window.showErrorMessage(organisation.message);
           }
-
-          return selected.id;
+          return null;
         }
 
-        return orgs[0].id;
+        return organisation.id;
       };
 
       // Get organisation ID (from args or via login)
@@ -301,14 +366,12 @@ export function activate(context: vscode.ExtensionContext) {
         },
         async (progress) => {
           try {
-            // Import packager and uploader
-            const { SourcePackager } = await import('./upload/packager');
-            const { SourceUploader } = await import('./upload/uploader');
+            // Import the incremental uploader
+            const { IncrementalUploader, formatUploadSummary } = await import('./upload/incremental');
 
-            const packager = new SourcePackager();
-            const uploader = new SourceUploader(api);
+            const uploader = new IncrementalUploader(api, uploadSessions, acceptedSecrets);
 
-            // Step 1: Package (0-30%)
+            // Step 1: Scan and hash (0-10%)
             progress.report({ increment: 0, message: '📦 Packaging project...' });
 
             const workspaceFolder = vscode.workspace.workspaceFolders?.find(
@@ -319,70 +382,120 @@ export function activate(context: vscode.ExtensionContext) {
               throw new Error('Workspace folder not found');
             }
 
-            const packageResult = await packager.package(workspaceFolder, (msg) => {
-              progress.report({ message: `📦 ${msg}` });
-            });
-
-            const sizeMB = (packageResult.totalSize / 1024 / 1024).toFixed(2);
-            progress.report({ increment: 30, message: `📦 Packaged ${packageResult.fileCount} files (${sizeMB} MB)` });
-
-            // Check size limit
-            const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get('uploadMaxSizeMB') || 100;
-            if (packageResult.totalSize > (maxSizeMB as number) * 1024 * 1024) {
-              throw new Error(`Package too large (${sizeMB} MB > ${maxSizeMB} MB limit)`);
-            }
-
-            // Step 2: Upload (30-70%)
-            progress.report({ increment: 0, message: '⬆️ Uploading to Light Cloud...' });
-
-            const uploadResult = await uploader.upload(
-              args.organisationId,
-              packageResult.buffer,
-              `${args.name}-source.zip`,
-              (uploadProgress) => {
-                const increment = (uploadProgress.percentage / 100) * 40;
+            // An uploaded app linked in this organisation is updated in place,
+            // sending only the files that changed since its last upload
+            const linked = projectConfig(args).read();
+            const existingId = args.applicationId
+              || (linked?.organisationId === args.organisationId ? linked?.applicationId : undefined);
+            const existing = existingId
+              ? (await api.getApplication(args.organisationId, existingId)).data
+              : undefined;
+            const existingApp = existing?.source_type === 'upload' ? existing : undefined;
+
+            // Size limit is checked while scanning, before anything is compressed
+            const maxSizeMB = vscode.workspace.getConfiguration('lightcloud').get<number>('uploadMaxSizeMB') || 100;
+
+            // Step 2: Package and upload in one stream (10-70%)
+            let reported = 0;
+            const uploadResult = await uploader.upload(workspaceFolder, {
+              organisationId: args.organisationId,
+              applicationId: existingApp?.id,
+              fileName: `${args.name}-source.zip`,
+              maxBytes: maxSizeMB * 1024 * 1024,
+              onProgress: (msg) => progress.report({ message: `📦 ${msg}` }),
+              onUploadProgress: (uploadProgress) => {
+                const target = 10 + (uploadProgress.percentage / 100) * 60;
                 progress.report({
-                  increment: increment > 0 ? increment : 0,
+                  increment: target - reported,
                   message: `⬆️ Uploading... ${uploadProgress.percentage}%`
                 });
-              }
-            );
+                reported = target;
+              },
+            });
 
             if ('error' in uploadResult) {
               throw new Error(uploadResult.error);
             }
 
-            progress.report({ increment: 10, message: '⬆️ Upload complete!' });
-
-            // Step 3: Create application (70-100%)
-            progress.report({ increment: 0, message: '🚀 Creating application...' });
-
-            const createResult = await api.createApplicationFromUpload({
-              targetOrganisationId: args.organisationId,
-              name: args.name,
-              uploadId: uploadResult.uploadId,
-              deploymentType: args.detected?.deploymentType || 'container',
-              framework: args.detected?.framework,
-              runtime: args.detected?.runtime,
-              buildCommand: args.detected?.buildCommand,
-              startCommand: args.detected?.startCommand,
-              outputDirectory: args.detected?.outputDirectory,
-            });
+            // Nothing has been uploaded; continue once the files are excluded or accepted
+            if ('secrets' in uploadResult) {
+              const paths = [...new Set(uploadResult.secrets.map(f => f.path))];
+              const choice = await vscode.window.showWarningMessage(
+                `Possible secrets found in ${paths.join(', ')}. The upload was stopped.`,
+                {
+                  modal: true,
+                  detail: uploadResult.secrets
+                    .map(f => `${f.path}:${f.line} - ${f.description} (${f.redacted})`)
+                    .join('\n'),
+                },
+                'Exclude Files',
+                'Upload Anyway'
+              );
+
+              if (choice === 'Exclude Files') {
+                excludeFromUploads(workspaceFolder.uri.fsPath, paths, 'Possible secrets, excluded from uploads');
+              } else if (choice === 'Upload Anyway') {
+                await acceptedSecrets.accept(uploadResult.secrets.map(f => f.fingerprint));
+              } else {
+                vscode.window.showInformationMessage('Deployment cancelled.');
+                return;
+              }
+
+              void vscode.commands.executeCommand('lightcloud.uploadAndDeploy', args);
+              return;
+            }
+
+            progress.report({ increment: 70 - reported, message: `⬆️ ${formatUploadSummary(uploadResult)}` });
+
+            // Step 3: Deploy the upload (70-100%)
+            let createResult;
+            if (existingApp) {
+              progress.report({ increment: 0, message: '🚀 Deploying changes...' });
+
+              const deployResult = await api.deployFromUpload({
+                targetOrganisationId: args.organisationId,
+                applicationId: existingApp.id,
+                environmentId: linked?.applicationId === existingApp.id ? linked.environmentId : undefined,
+                uploadId: uploadResult.uploadId,
+              });
+
+              createResult = deployResult.success
+                ? await api.getApplication(args.organisationId, existingApp.id)
+                : deployResult;
+            } else {
+              progress.report({ increment: 0, message: '🚀 Creating application...' });
+
+              createResult = await api.createApplicationFromUpload({
+                targetOrganisationId: args.organisationId,
+                name: args.name,
+                uploadId: uploadResult.uploadId,
+                rootDirectory: args.rootDirectory || undefined,
+                deploymentType: args.detected?.deploymentType || 'container',
+                framework: args.detected?.framework,
+                runtime: args.detected?.runtime,
+                runtimeVersion: args.detected?.runtimeVersion,
+                installCommand: args.detected?.installCommand,
+                buildCommand: args.detected?.buildCommand,
+                startCommand: args.detected?.startCommand,
+                outputDirectory: args.detected?.outputDirectory,
+                ...args.settings,
+              });
+            }
 
             if (!createResult.success || !createResult.data) {
               throw new Error(createResult.error?.message || 'Failed to create application');
             }
 
-            progress.report({ increment: 20, message: '✅ Deployment started!' });
+            progress.report({ increment: 30, message: '✅ Deployment started!' });
 
             // Show success with URL
             const app = createResult.data as any;
 
             // Save to .lightcloud config
-            const configManager = getConfigManager();
+            const configManager = projectConfig(args);
             const prodEnv = app.environments?.find((e: any) => e.is_production) || app.environments?.[0];
 
-            configManager.write({
+            await configManager.write({
               organisationId: args.organisationId,
               applicationId: app.id,
               applicationName: app.name,
@@ -428,12 +541,46 @@ export function activate(context: vscode.ExtensionContext) {
       );
     }),
 
+    vscode.commands.registerCommand('lightcloud.excludeFromUpload', (args) => {
+      if (!args?.workspaceFolder || !args?.paths?.length) {
+        return;
+      }
+
+      excludeFromUploads(args.workspaceFolder, args.paths, 'Possible secrets, excluded from uploads');
+      vscode.window.showInformationMessage(
+        `Added ${args.paths.length} file(s) to .lightcloudignore. Run the upload again to continue.`
+      );
+    }),
+
+    vscode.commands.registerCommand('lightcloud.acceptSecrets', async (args) => {
+      if (!args?.fingerprints?.length) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        'Upload these files even though they may contain secrets? Anyone with access to the deployment can read them.',
+        { modal: true },
+        'Upload Anyway'
+      );
+
+      if (confirm === 'Upload Anyway') {
+        await acceptedSecrets.accept(args.fingerprints);
+        vscode.window.showInformationMessage('Accepted. Run the upload again to continue.');
+      }
+    }),
+
     vscode.commands.registerCommand('lightcloud.confirmDestroy', async (args) => {
-      const configManager = getConfigManager();
+      const configManager = args ? getConfigManager(args.projectPath) : await pickLinkedConfig();
+      if (!configManager) {
+        return;
+      }
 
       // If no args provided, try to read from .lightcloud config
       if (!args) {
-        const savedConfig = configManager.read();
+        const savedConfig = readLink(configManager);
+        if (savedConfig === undefined) {
+          return;
+        }
         if (savedConfig?.applicationId && savedConfig?.organisationId) {
           args = {
             id: savedConfig.applicationId,
@@ -464,7 +611,9 @@ export function activate(context: vscode.ExtensionContext) {
         if (result.success) {
           // Clear the .lightcloud config after successful delete
           if (args.type === 'application') {
-            configManager.clear();
+            await configManager.clear();
+          } else {
+            await configManager.removePreview(args.id);
           }
           vscode.window.showInformationMessage(`${args.name} deleted.`);
         } else {
@@ -473,96 +622,175 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand('lightcloud.cancel', () => {
-      vscode.window.showInformationMessage('Operation cancelled.');
-    }),
+    vscode.commands.registerCommand('lightcloud.confirmRollback', async (args) => {
+      if (!args?.organisationId || !args?.environmentId || !args?.deploymentId) {
+        vscode.window.showErrorMessage('No deployment specified. Use /rollback to pick one.');
+        return;
+      }
 
-    vscode.commands.registerCommand('lightcloud.openDashboard', () => {
-      const config = vscode.workspace.getConfiguration('lightcloud');
-      const consoleUrl = config.get('consoleUrl') || 'https://console.light-cloud.com';
-      vscode.env.openExternal(vscode.Uri.parse(consoleUrl as string));
+      const confirm = await vscode.window.showWarningMessage(
+        `Roll back ${args.environmentName || 'this environment'} to ${args.label || args.deploymentId}?`,
+        { modal: true },
+        'Roll Back'
+      );
+
+      if (confirm !== 'Roll Back') {
+        return;
+      }
+
+      const result = await api.rollbackDeployment(args.organisationId, args.environmentId, args.deploymentId);
+
+      if (result.success) {
+        await getConfigManager(args.projectPath).update({ lastDeployedAt: new Date().toISOString() });
+        vscode.window.showInformationMessage(
+          `⏪ Rollback started for ${args.environmentName || 'environment'}. Use /status to check progress.`
+        );
+      } else {
+        vscode.window.showErrorMessage(`Rollback failed: ${result.error?.message}`);
+      }
     }),
 
-    vscode.commands.registerCommand('lightcloud.openLogs', async (args) => {
-      // If no args provided, try to read from .lightcloud config
-      if (!args?.applicationId || !args?.organisationId) {
-        const configManager = getConfigManager();
-        const savedConfig = configManager.read();
+    vscode.commands.registerCommand('lightcloud.confirmSync', async (args) => {
+      if (!args?.organisationId || !args?.environmentId || !args?.update || !args?.variables) {
+        vscode.window.showErrorMessage('No changes specified. Use /sync to review them.');
+        return;
+      }
 
-        if (savedConfig?.applicationId && savedConfig?.organisationId) {
-          args = {
-            applicationId: savedConfig.applicationId,
-            organisationId: savedConfig.organisationId,
-          };
-        } else {
-          vscode.window.showErrorMessage('No application found. Deploy first or specify an application.');
-          return;
-        }
+      const confirm = await vscode.window.showWarningMessage(
+        `Apply ${args.changes ?? 'the'} change(s) to ${args.applicationName || 'the application'} (${args.environmentName || 'environment'})?`,
+        { modal: true },
+        'Apply'
+      );
+
+      if (confirm !== 'Apply') {
+        return;
       }
 
-      // Open logs in output channel
-      const outputChannel = vscode.window.createOutputChannel('Light Cloud Logs');
-      outputChannel.show();
-      outputChannel.appendLine(`Fetching logs for application...`);
-      outputChannel.appendLine('');
+      const resolved = args.variables.length > 0
+        ? resolveSyncVariables(args.projectPath, args.manifestEnvironment, args.variables)
+        : { variables: {} };
+      if ('status' in resolved) {
+        vscode.window.showErrorMessage(`Sync failed: ${resolved.message}. Run /sync again to review the changes.`);
+        return;
+      }
 
-      // Get environments for the app
-      const appResult = await api.getApplication(args.organisationId, args.applicationId);
-      if (!appResult.success || !appResult.data?.environments?.length) {
-        outputChannel.appendLine('No environments found.');
+      const error = await applySettingsDiff(api, args.organisationId, args.environmentId, {
+        update: args.update,
+        setVariables: resolved.variables,
+      });
+      if (error) {
+        vscode.window.showErrorMessage(`Sync failed: ${error}`);
         return;
       }
 
-      const env = appResult.data.environments[0];
-      const result = await api.getEnvironmentLogs(args.organisationId, env.id);
+      const redeployAction = await vscode.window.showInformationMessage(
+        `✅ Applied to ${args.environmentName || 'environment'}. The running deployment is unchanged until the next build.`,
+        'Redeploy Now'
+      );
 
-      if (result.success && result.data) {
-        for (const log of result.data) {
-          outputChannel.appendLine(log);
+      if (redeployAction === 'Redeploy Now') {
+        vscode.commands.executeCommand('lightcloud.redeploy', {
+          applicationId: args.applicationId,
+          organisationId: args.organisationId,
+          projectPath: args.projectPath,
+        });
+      }
+    }),
+
+    vscode.commands.registerCommand('lightcloud.confirmPromote', async (args) => {
+      if (!args?.organisationId || !args?.environmentId || !args?.deploymentId) {
+        vscode.window.showErrorMessage('No deployment specified. Use /promote <from> <to> to pick one.');
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Promote ${args.label || args.deploymentId} to ${args.environmentName || 'this environment'}?`,
+        { modal: true },
+        'Promote'
+      );
+
+      if (confirm !== 'Promote') {
+        return;
+      }
+
+      const result = await api.promoteDeployment(args.organisationId, args.environmentId, args.deploymentId);
+
+      if (result.success) {
+        await getConfigManager(args.projectPath).update({ lastDeployedAt: new Date().toISOString() });
+
+        const vsConfig = vscode.workspace.getConfiguration('lightcloud');
+        const consoleUrl = vsConfig.get('consoleUrl') || 'https://console.light-cloud.com';
+        const dashboardUrl = `${consoleUrl}/applications/${args.applicationId}/environments/${args.environmentId}/overview`;
+
+        const openAction = await vscode.window.showInformationMessage(
+          `✅ Promotion to ${args.environmentName || 'environment'} started! Use /status to check progress.\n\n📊 Dashboard: ${dashboardUrl}`,
+          'Open Dashboard'
+        );
+
+        if (openAction === 'Open Dashboard') {
+          vscode.env.openExternal(vscode.Uri.parse(dashboardUrl));
         }
       } else {
-        outputChannel.appendLine('No logs available.');
+        vscode.window.showErrorMessage(`Promotion failed: ${result.error?.message}`);
       }
     }),
 
-    vscode.commands.registerCommand('lightcloud.streamLogs', async (args) => {
-      if (!args?.environmentId || !args?.organisationId) {
-        vscode.window.showErrorMessage('No environment specified for log streaming.');
+    vscode.commands.registerCommand('lightcloud.confirmRemoveDomain', async (args) => {
+      if (!args?.organisationId || !args?.environmentId || !args?.domain) {
+        vscode.window.showErrorMessage('No domain specified. Use /domain remove <domain>.');
         return;
       }
 
-      const outputChannel = vscode.window.createOutputChannel('Light Cloud Live Logs');
-      outputChannel.show();
-      outputChannel.appendLine('Starting live log stream...');
-      outputChannel.appendLine('');
+      const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to remove ${args.domain}?`,
+        { modal: true },
+        'Remove'
+      );
+
+      if (confirm === 'Remove') {
+        const result = await api.removeCustomDomain(args.organisationId, args.environmentId, args.domain);
 
-      const stopStream = await api.streamEnvironmentLogs(
-        args.organisationId,
-        args.environmentId,
-        (log) => {
-          outputChannel.appendLine(log);
-        },
-        (error) => {
-          outputChannel.appendLine(`Stream error: ${error.message}`);
+        if (result.success) {
+          vscode.window.showInformationMessage(`${args.domain} removed.`);
+        } else {
+          vscode.window.showErrorMessage(`Remove failed: ${result.error?.message}`);
         }
-      );
+      }
+    }),
 
-      // Store stop function for later cleanup
-      context.subscriptions.push({
-        dispose: () => stopStream()
-      });
+    vscode.commands.registerCommand('lightcloud.cancel', () => {
+      vscode.window.showInformationMessage('Operation cancelled.');
     }),
 
+    vscode.commands.registerCommand('lightcloud.openDashboard', () => {
+      const config = vscode.workspace.getConfiguration('lightcloud');
+      const consoleUrl = config.get('consoleUrl') || 'https://console.light-cloud.com';
+      vscode.env.openExternal(vscode.Uri.parse(consoleUrl as string));
+    }),
+
+    // Log commands
+    vscode.commands.registerCommand('lightcloud.openLogs', (args) => logsCommand.openLogs(args)),
+    vscode.commands.registerCommand('lightcloud.streamLogs', (args) => logsCommand.streamLogs(args)),
+    vscode.commands.registerCommand('lightcloud.stopLogs', () => logsCommand.stopLogs()),
+    logsCommand,
+
     vscode.commands.registerCommand('lightcloud.redeploy', async (args) => {
       // If no args provided, try to read from .lightcloud config
       if (!args?.applicationId || !args?.organisationId) {
-        const configManager = getConfigManager();
-        const savedConfig = configManager.read();
+        const configManager = args?.projectPath ? getConfigManager(args.projectPath) : await pickLinkedConfig();
+        if (!configManager) {
+          return;
+        }
+        const savedConfig = readLink(configManager);
+        if (savedConfig === undefined) {
+          return;
+        }
 
         if (savedConfig?.applicationId && savedConfig?.organisationId) {
           args = {
             applicationId: savedConfig.applicationId,
             organisationId: savedConfig.organisationId,
+            projectPath: configManager.getDirectory(),
           };
         } else {
           vscode.window.showErrorMessage('No application found. Deploy first or specify an application.');
@@ -577,9 +805,9 @@ export function activate(context: vscode.ExtensionContext) {
 
       if (result.success) {
         // Update last deployed timestamp
-        const configManager = getConfigManager();
-        const savedConfig = configManager.read();
-        configManager.update({ lastDeployedAt: new Date().toISOString() });
+        const configManager = getConfigManager(args.projectPath);
+        const savedConfig = readLink(configManager);
+        await configManager.update({ lastDeployedAt: new Date().toISOString() });
 
         // Build URLs
         const vsConfig = vscode.workspace.getConfiguration('lightcloud');
@@ -601,6 +829,15 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
+    // Environment variable commands
+    vscode.commands.registerCommand('lightcloud.setEnvVar', () => envCommand.promptSet()),
+    vscode.commands.registerCommand('lightcloud.unsetEnvVar', () => envCommand.promptUnset()),
+    vscode.commands.registerCommand('lightcloud.importEnv', () => envCommand.promptImport()),
+
+    // Deployment history commands
+    vscode.commands.registerCommand('lightcloud.showHistory', (args) => historyCommand.showHistory(args)),
+    vscode.commands.registerCommand('lightcloud.showDeploymentLogs', (args) => historyCommand.showDeploymentLogs(args)),
+
     vscode.commands.registerCommand('lightcloud.openSettings', async (config) => {
       // Open settings for editing configuration
       vscode.window.showInformationMessage(
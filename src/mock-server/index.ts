@@ -0,0 +1,58 @@
+// src/mock-server/index.ts
+//
+// Run a local Light Cloud API for offline development and CI:
+//   npm run mock-server -- --port 4010 --scenario ./scenario.json
+//
+// Then set `lightcloud.apiEndpoint` and `lightcloud.consoleUrl` to the printed URL.
+
+import * as fs from 'fs';
+import { parseArgs, getStringFlag } from '../utils/args';
+import { MockScenario } from './state';
+import { MockServer } from './server';
+
+export { MockServer } from './server';
+export { MockState } from './state';
+export type { MockServerOptions, MockFault } from './server';
+export type { MockScenario, BuildStep } from './state';
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2).join(' '));
+  const port = parseInt(getStringFlag(args, 'port') || '4010', 10);
+  const scenarioPath = getStringFlag(args, 'scenario');
+  const stepDelay = getStringFlag(args, 'step-delay');
+
+  let scenario: MockScenario | undefined;
+  if (scenarioPath) {
+    scenario = JSON.parse(fs.readFileSync(scenarioPath, 'utf-8')) as MockScenario;
+  }
+
+  const server = new MockServer({
+    port,
+    scenario,
+    buildStepDelayMs: stepDelay ? parseInt(stepDelay, 10) : 1000,
+    // Wall-clock time so `/logs --since` behaves as it does against the real API
+    now: () => new Date(),
+  });
+  const url = await server.start();
+
+  console.log(`Light Cloud mock server listening on ${url}`);
+  console.log('');
+  console.log('Add to your VS Code settings:');
+  console.log(`  "lightcloud.apiEndpoint": "${url}",`);
+  console.log(`  "lightcloud.consoleUrl": "${url}"`);
+  console.log('');
+  console.log(`Access token: ${server.state.accessToken}`);
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,786 @@
+// src/mock-server/server.ts
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Application, Deployment, Environment, ManifestEntry } from '../api/types';
+import { LogEntry, MockScenario, MockState, MockUpload } from './state';
+
+const MAX_UPLOAD_SIZE = 100 * 1024 * 1024; // 100MB
+const KEEP_ALIVE_MS = 15000;
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  scenario?: MockScenario;
+  /**
+   * Advance running builds one step every N milliseconds.
+   * `null` disables automatic progress; builds then only move via `POST /__mock/advance` or `state.advance()`.
+   */
+  buildStepDelayMs?: number | null;
+  now?: () => Date;
+}
+
+/**
+ * A scripted failure for the next matching request(s)
+ */
+export interface MockFault {
+  method?: string;
+  /** Exact path or a regular expression source matched against the path */
+  path: string;
+  status: number;
+  code?: string;
+  message?: string;
+  /** How many requests to fail before the fault is removed (default 1) */
+  times?: number;
+  /** Let this many matching requests through before failing */
+  after?: number;
+  retryAfter?: number;
+}
+
+interface RouteContext {
+  body: Record<string, any>;
+  params: string[];
+  query: URLSearchParams;
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  raw: Buffer;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  handler: (ctx: RouteContext) => unknown;
+}
+
+class MockError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP server implementing the Light Cloud API surface used by the extension.
+ * Point `lightcloud.apiEndpoint` (and `lightcloud.consoleUrl` for browser login) at `url`.
+ *
+ * Besides the API routes it exposes a control surface under `/__mock/` for scripting:
+ * - `GET /__mock/state` – snapshot of the current state
+ * - `POST /__mock/reset` – reset, optionally with a new scenario body
+ * - `POST /__mock/advance` – advance builds (`{ environmentId?, steps? }`)
+ * - `POST /__mock/logs` – append runtime log lines (`{ environmentId, lines }`)
+ * - `POST /__mock/faults` – fail upcoming requests (`MockFault`)
+ * - `POST /__mock/expire-token` – invalidate the current access token
+ */
+export class MockServer {
+  readonly state: MockState;
+  private server: http.Server;
+  private routes: Route[] = [];
+  private faults: MockFault[] = [];
+  private ticker?: NodeJS.Timeout;
+  private openStreams = new Set<http.ServerResponse>();
+  private uploadHashes = new Map<string, crypto.Hash>();
+  private baseUrl = '';
+
+  constructor(private options: MockServerOptions = {}) {
+    this.state = new MockState(options.scenario, { now: options.now });
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { code: 'INTERNAL', message: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    this.registerRoutes();
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://${this.options.host ?? '127.0.0.1'}:${address.port}`;
+
+    const stepDelay = this.options.buildStepDelayMs === undefined ? 500 : this.options.buildStepDelayMs;
+    if (stepDelay !== null) {
+      this.ticker = setInterval(() => this.state.advance(), stepDelay);
+      this.ticker.unref();
+    }
+
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.ticker);
+    for (const res of this.openStreams) {
+      res.end();
+    }
+    this.openStreams.clear();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  addFault(fault: MockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  // ============ Request Handling ============
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl || 'http://localhost');
+    const method = req.method || 'GET';
+    const raw = await readBody(req);
+
+    const fault = this.takeFault(method, url.pathname);
+    if (fault) {
+      if (fault.retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(fault.retryAfter));
+      }
+      this.send(res, fault.status, { code: fault.code || `HTTP_${fault.status}`, message: fault.message || 'Injected failure' });
+      return;
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+
+      try {
+        if (route.auth && !this.isAuthorised(req)) {
+          throw new MockError(401, 'UNAUTHORIZED', 'Invalid or expired token');
+        }
+
+        const body = raw.length > 0 && isJson(req) ? JSON.parse(raw.toString('utf-8')) : {};
+        const result = await route.handler({ body, params: match.slice(1), query: url.searchParams, req, res, raw });
+        if (!res.headersSent) {
+          this.send(res, 200, result ?? {});
+        }
+      } catch (error) {
+        if (error instanceof MockError) {
+          this.send(res, error.status, { code: error.code, message: error.message });
+        } else if (error instanceof SyntaxError) {
+          this.send(res, 400, { code: 'INVALID_JSON', message: error.message });
+        } else {
+          throw error;
+        }
+      }
+      return;
+    }
+
+    this.send(res, 404, { code: 'NOT_FOUND', message: `No mock route for ${method} ${url.pathname}` });
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const index = this.faults.findIndex(f =>
+      (!f.method || f.method.toUpperCase() === method) &&
+      (f.path === path || new RegExp(`^${f.path}$`).test(path))
+    );
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index];
+    if (fault.after) {
+      fault.after--;
+      return undefined;
+    }
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private isAuthorised(req: http.IncomingMessage): boolean {
+    return req.headers.authorization === `Bearer ${this.state.accessToken}`;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private route(method: string, path: string | RegExp, handler: Route['handler'], auth = true): void {
+    const pattern = typeof path === 'string' ? new RegExp(`^${path}$`) : path;
+    this.routes.push({ method, pattern, auth, handler });
+  }
+
+  // ============ Lookups ============
+
+  private organisation(body: Record<string, any>): string {
+    const organisationId = body.targetOrganisationId;
+    if (!organisationId) {
+      throw new MockError(400, 'VALIDATION_ERROR', 'targetOrganisationId is required');
+    }
+    if (!this.state.hasOrganisation(organisationId)) {
+      throw new MockError(403, 'FORBIDDEN', 'You do not have access to this organisation');
+    }
+    return organisationId;
+  }
+
+  private application(body: Record<string, any>): Application & { organisationId: string } {
+    const organisationId = this.organisation(body);
+    const app = this.state.applications.get(body.applicationId);
+    if (!app || app.organisationId !== organisationId) {
+      throw new MockError(404, 'NOT_FOUND', 'Application not found');
+    }
+    return app;
+  }
+
+  private environment(body: Record<string, any>) {
+    const organisationId = this.organisation(body);
+    return this.environmentIn(organisationId, body.environmentId);
+  }
+
+  private environmentIn(organisationId: string, environmentId: string) {
+    const env = this.state.environments.get(environmentId);
+    if (!env || env.organisationId !== organisationId) {
+      throw new MockError(404, 'NOT_FOUND', 'Environment not found');
+    }
+    return env;
+  }
+
+  private completedUpload(organisationId: string, uploadId: string): MockUpload {
+    const upload = this.state.uploads.get(uploadId);
+    if (!upload || upload.organisationId !== organisationId) {
+      throw new MockError(404, 'UPLOAD_NOT_FOUND', 'Upload not found');
+    }
+    if (upload.status !== 'completed') {
+      throw new MockError(400, 'UPLOAD_INCOMPLETE', 'Upload has not been completed');
+    }
+    return upload;
+  }
+
+  private deployment(organisationId: string, deploymentId: string): Deployment {
+    const deployment = this.state.deployments.get(deploymentId);
+    if (!deployment) {
+      throw new MockError(404, 'NOT_FOUND', 'Deployment not found');
+    }
+    this.environmentIn(organisationId, deployment.environment_id);
+    return deployment;
+  }
+
+  // ============ Routes ============
+
+  private registerRoutes(): void {
+    const state = this.state;
+
+    // Control surface
+    this.route('GET', '/__mock/state', () => state.snapshot(), false);
+    this.route('POST', '/__mock/reset', ({ body }) => {
+      state.reset(Object.keys(body).length > 0 ? body as MockScenario : undefined);
+      this.faults = [];
+      this.uploadHashes.clear();
+      return state.snapshot();
+    }, false);
+    this.route('POST', '/__mock/advance', ({ body }) => {
+      for (let i = 0; i < (body.steps || 1); i++) {
+        state.advance(body.environmentId);
+      }
+      return state.snapshot();
+    }, false);
+    this.route('POST', '/__mock/logs', ({ body }) => {
+      this.environmentIn(state.environments.get(body.environmentId)?.organisationId || '', body.environmentId);
+      for (const line of body.lines || []) {
+        state.appendLog(body.environmentId, 'log', line);
+      }
+      return {};
+    }, false);
+    this.route('POST', '/__mock/faults', ({ body }) => {
+      this.addFault(body as MockFault);
+      return { faults: this.faults };
+    }, false);
+    this.route('POST', '/__mock/expire-token', () => {
+      state.accessToken = state.nextId('expired-token');
+      return {};
+    }, false);
+
+    // Browser login: redirect straight back to VS Code with a token
+    this.route('GET', '/auth/vscode', ({ query, res }) => {
+      const callback = `vscode://lightcloud.lightcloud-copilot/auth-callback?token=${encodeURIComponent(state.accessToken)}&state=${encodeURIComponent(query.get('state') || '')}`;
+      res.writeHead(302, { Location: callback });
+      res.end();
+    }, false);
+
+    // Authentication
+    this.route('POST', '/api/auth/login', ({ body }) => {
+      if (!body.email || !body.password) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'Email and password are required');
+      }
+      return { accessToken: state.accessToken, refreshToken: state.refreshToken };
+    }, false);
+    this.route('POST', '/api/auth/refresh', ({ body }) => {
+      if (body.refreshToken !== state.refreshToken) {
+        throw new MockError(401, 'UNAUTHORIZED', 'Invalid refresh token');
+      }
+      return state.rotateTokens();
+    }, false);
+    this.route('POST', '/api/auth/logout', () => ({}));
+    this.route('GET', '/api/auth/profile', () => state.user);
+
+    // Applications
+    this.route('POST', '/api/applications', ({ body }) => {
+      const organisationId = this.organisation(body);
+      const limit = body.limit || 20;
+      const page = body.page || 1;
+      const all = [...state.applications.values()].filter(a => a.organisationId === organisationId);
+      return {
+        items: all.slice((page - 1) * limit, page * limit).map(a => state.withEnvironments(a)),
+        totalItems: all.length,
+        totalPages: Math.max(1, Math.ceil(all.length / limit)),
+        currentPage: page,
+      };
+    });
+    this.route('POST', '/api/applications/get', ({ body }) => state.withEnvironments(this.application(body)));
+    this.route('POST', '/api/applications/status', ({ body }) => state.withEnvironments(this.application(body)));
+    this.route('POST', '/api/applications/create', ({ body }) => {
+      const organisationId = this.organisation(body);
+      requireFields(body, ['name', 'githubRepoUrl', 'deploymentType']);
+      const app = state.createApplication(organisationId, {
+        name: body.name,
+        deployment_type: body.deploymentType,
+        framework: body.framework,
+        runtime: body.runtime,
+        github_repo_url: body.githubRepoUrl,
+        github_branch: body.githubBranch,
+        root_directory: body.rootDirectory,
+        source_type: 'github',
+      });
+      this.seedEnvVars(app, body.environmentVars);
+      this.seedSettings(app, body);
+      return state.withEnvironments(app);
+    });
+    this.route('POST', '/api/applications/create-from-upload', ({ body }) => {
+      const organisationId = this.organisation(body);
+      requireFields(body, ['name', 'uploadId', 'deploymentType']);
+      const upload = this.completedUpload(organisationId, body.uploadId);
+      const app = state.createApplication(organisationId, {
+        name: body.name,
+        deployment_type: body.deploymentType,
+        framework: body.framework,
+        runtime: body.runtime,
+        root_directory: body.rootDirectory,
+        source_type: 'upload',
+      });
+      upload.applicationId = app.id;
+      this.seedEnvVars(app, body.environmentVars);
+      this.seedSettings(app, body);
+      return state.withEnvironments(app);
+    });
+    this.route('POST', '/api/applications/deploy-upload', ({ body }) => {
+      const app = this.application(body);
+      requireFields(body, ['uploadId']);
+      const upload = this.completedUpload(app.organisationId, body.uploadId);
+      const env = body.environmentId
+        ? this.environmentIn(app.organisationId, body.environmentId)
+        : state.environmentsFor(app.id).find(e => e.is_production);
+      if (!env) {
+        throw new MockError(404, 'NOT_FOUND', 'Environment not found');
+      }
+      upload.applicationId = app.id;
+      return state.startBuild(env.id);
+    });
+    this.route('POST', '/api/applications/deploy', ({ body }) => {
+      const app = this.application(body);
+      const env = body.environmentId
+        ? this.environmentIn(app.organisationId, body.environmentId)
+        : state.environmentsFor(app.id).find(e => e.is_production);
+      if (!env) {
+        throw new MockError(404, 'NOT_FOUND', 'Environment not found');
+      }
+      return state.startBuild(env.id);
+    });
+    this.route('POST', '/api/applications/delete', ({ body }) => {
+      state.deleteApplication(this.application(body).id);
+      return {};
+    });
+    this.route('POST', '/api/applications/detect-framework', ({ body }) => {
+      this.organisation(body);
+      return {
+        framework: 'react',
+        runtime: 'nodejs',
+        deploymentType: 'static',
+        buildCommand: 'npm run build',
+        outputDirectory: 'dist',
+        packageManager: 'npm',
+      };
+    });
+
+    // Environments
+    this.route('POST', '/api/environments', ({ body }) => state.environmentsFor(this.application(body).id));
+    this.route('POST', '/api/environments/get', ({ body }) => this.environment(body));
+    this.route('POST', '/api/environments/create', ({ body }) => {
+      const app = this.application(body);
+      requireFields(body, ['name', 'githubBranch']);
+      if (state.environmentsFor(app.id).some(e => e.name === body.name)) {
+        throw new MockError(409, 'CONFLICT', `Environment "${body.name}" already exists`);
+      }
+      return state.createEnvironment(app.organisationId, app.id, body.name, body.githubBranch);
+    });
+    this.route('POST', '/api/environments/update', ({ body }) => state.updateEnvironment(this.environment(body).id, environmentSettings(body)));
+    this.route('POST', '/api/environments/deploy', ({ body }) => state.startBuild(this.environment(body).id));
+    this.route('POST', '/api/environments/delete', ({ body }) => {
+      const env = this.environment(body);
+      if (env.is_production) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'The production environment cannot be deleted on its own');
+      }
+      state.deleteEnvironment(env.id);
+      return {};
+    });
+    this.route('POST', '/api/environments/logs', ({ body }) => {
+      const env = this.environment(body);
+      const lines = logLines(state.logs.get(env.id) || [], body.since);
+      return body.limit ? lines.slice(-body.limit) : lines;
+    });
+
+    // Environment variables
+    this.route('POST', '/api/environments/env-vars', ({ body }) => [...(state.envVars.get(this.environment(body).id)?.values() || [])]);
+    this.route('POST', '/api/environments/env-vars/set', ({ body }) => {
+      const env = this.environment(body);
+      requireFields(body, ['variables']);
+      return state.setEnvVars(env.id, body.variables);
+    });
+    this.route('POST', '/api/environments/env-vars/delete', ({ body }) => {
+      const env = this.environment(body);
+      requireFields(body, ['keys']);
+      state.deleteEnvVars(env.id, body.keys);
+      return {};
+    });
+
+    // Custom domains
+    this.route('POST', '/api/environments/domains/add', ({ body }) => {
+      const env = this.environment(body);
+      requireFields(body, ['domain']);
+      if (state.domains.has(body.domain)) {
+        throw new MockError(409, 'CONFLICT', `${body.domain} is already in use`);
+      }
+      return state.addDomain(env.id, body.domain);
+    });
+    this.route('POST', '/api/environments/domains/verify', ({ body }) => {
+      const env = this.environment(body);
+      const domain = state.domains.get(body.domain);
+      if (!domain || domain.environment_id !== env.id) {
+        throw new MockError(404, 'NOT_FOUND', 'Domain not found');
+      }
+      return state.verifyDomain(body.domain);
+    });
+    this.route('POST', '/api/environments/domains/remove', ({ body }) => {
+      const env = this.environment(body);
+      const domain = state.domains.get(body.domain);
+      if (!domain || domain.environment_id !== env.id) {
+        throw new MockError(404, 'NOT_FOUND', 'Domain not found');
+      }
+      state.removeDomain(body.domain);
+      return {};
+    });
+
+    // Deployments
+    this.route('POST', '/api/deployments', ({ body }) => {
+      const env = this.environment(body);
+      return [...state.deployments.values()].filter(d => d.environment_id === env.id).reverse();
+    });
+    this.route('POST', '/api/deployments/get', ({ body }) => this.deployment(this.organisation(body), body.deploymentId));
+    this.route('POST', '/api/deployments/rollback', ({ body }) => {
+      const env = this.environment(body);
+      const target = this.deployment(env.organisationId, body.deploymentId);
+      if (target.environment_id !== env.id) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'Deployment belongs to a different environment');
+      }
+      return state.startBuild(env.id, { commit_sha: target.commit_sha, commit_message: target.commit_message });
+    });
+    this.route('POST', '/api/deployments/promote', ({ body }) => {
+      const env = this.environment(body);
+      const source = this.deployment(env.organisationId, body.deploymentId);
+      if (state.environments.get(source.environment_id)!.application_id !== env.application_id) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'Deployment belongs to a different application');
+      }
+      if (!['healthy', 'deployed'].includes(source.status)) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'Only a successful deployment can be promoted');
+      }
+      return state.startBuild(env.id, { commit_sha: source.commit_sha, commit_message: source.commit_message });
+    });
+
+    // GitHub integration
+    this.route('GET', '/api/github-app/install', () => ({ url: `${this.baseUrl}/__github/install` }));
+    this.route('GET', '/api/github-app/installation-status', () => ({
+      installed: state.githubInstalled,
+      installations: state.githubInstalled ? [MOCK_INSTALLATION] : [],
+    }));
+    // The real endpoint wraps the list, despite the array type on `listGitHubInstallations`
+    this.route('GET', '/api/github-app/installations', () => ({
+      configured: true,
+      installations: state.githubInstalled ? [MOCK_INSTALLATION] : [],
+    }));
+    this.route('GET', /^\/api\/github-app\/organisation\/([^/]+)\/repositories$/, ({ params }) => {
+      this.organisation({ targetOrganisationId: params[0] });
+      return state.githubInstalled ? MOCK_REPOSITORIES : [];
+    });
+    this.route('GET', /^\/api\/github-app\/organisation\/([^/]+)\/repositories\/([^/]+)\/([^/]+)\/branches$/, ({ params }) => {
+      this.organisation({ targetOrganisationId: params[0] });
+      if (!MOCK_REPOSITORIES.some(r => r.full_name === `${params[1]}/${params[2]}`)) {
+        throw new MockError(404, 'NOT_FOUND', 'Repository not found');
+      }
+      return [
+        { name: 'main', commit: { sha: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678', message: 'Initial commit' } },
+        { name: 'develop', commit: { sha: 'b2c3d4e5f60718293a4b5c6d7e8f901234567890', message: 'Work in progress' } },
+      ];
+    });
+    this.route('POST', /^\/api\/github-app\/organisation\/([^/]+)\/check-accounts$/, ({ params, body }) => {
+      this.organisation({ targetOrganisationId: params[0] });
+      const accounts: Record<string, { installed: boolean; linkedToThisOrg: boolean }> = {};
+      for (const login of body.accountLogins || []) {
+        const installed = state.githubInstalled && login === MOCK_INSTALLATION.account_name;
+        accounts[login] = { installed, linkedToThisOrg: installed };
+      }
+      return { accounts };
+    });
+
+    // Upload
+    this.route('POST', '/api/upload/request-url', ({ body }) => {
+      const organisationId = this.organisation(body);
+      if (body.fileSize && body.fileSize > MAX_UPLOAD_SIZE) {
+        throw new MockError(413, 'FILE_TOO_LARGE', `Uploads are limited to ${MAX_UPLOAD_SIZE / 1024 / 1024}MB`);
+      }
+      if (body.baseUploadId) {
+        this.completedUpload(organisationId, body.baseUploadId);
+      }
+      const uploadId = state.nextId('upload');
+      state.uploads.set(uploadId, {
+        id: uploadId,
+        organisationId,
+        fileName: body.fileName,
+        expectedSize: body.fileSize,
+        receivedBytes: 0,
+        status: 'pending',
+        resumable: body.resumable === true,
+        manifest: Array.isArray(body.manifest)
+          ? Object.fromEntries(body.manifest.map((file: ManifestEntry) => [file.path, file.sha256]))
+          : undefined,
+        baseUploadId: body.baseUploadId,
+      });
+      return {
+        uploadId,
+        signedUrl: `${this.baseUrl}/__uploads/${uploadId}`,
+        gcsPath: `uploads/${organisationId}/${uploadId}.zip`,
+        expiresAt: new Date(Date.parse(state.now()) + 60 * 60 * 1000).toISOString(),
+        maxSize: MAX_UPLOAD_SIZE,
+        ...(body.resumable === true ? { resumable: true } : {}),
+      };
+    });
+    // Diffs a manifest against the application's latest upload, so only changed files are sent
+    this.route('POST', '/api/upload/manifest', ({ body }) => {
+      const app = this.application(body);
+      if (!Array.isArray(body.files)) {
+        throw new MockError(400, 'VALIDATION_ERROR', 'files is required');
+      }
+      const base = [...state.uploads.values()]
+        .reverse()
+        .find(upload => upload.applicationId === app.id && upload.manifest);
+      const files = body.files as ManifestEntry[];
+      return {
+        ...(base ? { baseUploadId: base.id } : {}),
+        missing: files.filter(file => base?.manifest![file.path] !== file.sha256).map(file => file.path),
+      };
+    });
+    // Stand-in for the signed storage URL; authorised by the URL itself like the real thing
+    this.route('PUT', /^\/__uploads\/([^/]+)$/, ({ params, raw }) => {
+      const upload = state.uploads.get(params[0]);
+      if (!upload) {
+        throw new MockError(404, 'NOT_FOUND', 'Unknown upload URL');
+      }
+      if (raw.length > MAX_UPLOAD_SIZE) {
+        throw new MockError(413, 'FILE_TOO_LARGE', 'Upload exceeds the maximum size');
+      }
+      upload.receivedBytes = raw.length;
+      upload.sha256 = crypto.createHash('sha256').update(raw).digest('hex');
+      upload.status = 'uploaded';
+      return {};
+    }, false);
+    // Resumable sessions follow the storage protocol: POST to start, then PUT chunks
+    // with `Content-Range`; incomplete uploads answer 308 with the persisted `Range`
+    this.route('POST', /^\/__uploads\/([^/]+)$/, ({ params, req, res }) => {
+      const upload = state.uploads.get(params[0]);
+      if (!upload?.resumable || req.headers['x-goog-resumable'] !== 'start') {
+        throw new MockError(400, 'INVALID_REQUEST', 'Not a resumable upload URL');
+      }
+      this.uploadHashes.set(upload.id, crypto.createHash('sha256'));
+      res.writeHead(201, { Location: `${this.baseUrl}/__uploads/${upload.id}/session` });
+      res.end();
+    }, false);
+    this.route('PUT', /^\/__uploads\/([^/]+)\/session$/, ({ params, req, res, raw }) => {
+      const upload = state.uploads.get(params[0]);
+      const hash = upload && this.uploadHashes.get(upload.id);
+      if (!upload || (!hash && upload.status === 'pending')) {
+        throw new MockError(404, 'NOT_FOUND', 'Unknown upload session');
+      }
+      if (upload.status !== 'pending') {
+        return {};
+      }
+
+      const range = /^bytes (?:\*|(\d+)-(\d+))\/(\*|\d+)$/.exec(String(req.headers['content-range'] || ''));
+      if (!range) {
+        throw new MockError(400, 'INVALID_RANGE', 'Missing or invalid Content-Range');
+      }
+      const total = range[3] === '*' ? undefined : Number(range[3]);
+
+      if (range[1] !== undefined) {
+        const start = Number(range[1]);
+        if (Number(range[2]) - start + 1 !== raw.length || start > upload.receivedBytes) {
+          throw new MockError(400, 'INVALID_RANGE', `Expected bytes from ${upload.receivedBytes}`);
+        }
+        // Bytes the server already has are ignored, like the real thing
+        const fresh = raw.subarray(upload.receivedBytes - start);
+        if (upload.receivedBytes + fresh.length > MAX_UPLOAD_SIZE) {
+          throw new MockError(413, 'FILE_TOO_LARGE', 'Upload exceeds the maximum size');
+        }
+        hash!.update(fresh);
+        upload.receivedBytes += fresh.length;
+      }
+
+      if (total !== undefined && upload.receivedBytes === total) {
+        upload.sha256 = hash!.digest('hex');
+        upload.status = 'uploaded';
+        this.uploadHashes.delete(upload.id);
+        return {};
+      }
+
+      res.writeHead(308, upload.receivedBytes > 0 ? { Range: `bytes=0-${upload.receivedBytes - 1}` } : {});
+      res.end();
+    }, false);
+    this.route('POST', '/api/upload/complete', ({ body }) => {
+      const organisationId = this.organisation(body);
+      const upload = state.uploads.get(body.uploadId);
+      if (!upload || upload.organisationId !== organisationId) {
+        throw new MockError(404, 'UPLOAD_NOT_FOUND', 'Upload not found');
+      }
+      if (upload.status === 'pending') {
+        throw new MockError(400, 'UPLOAD_INCOMPLETE', 'No file has been uploaded yet');
+      }
+      upload.status = 'completed';
+      return {
+        id: upload.id,
+        status: upload.status,
+        fileSize: upload.receivedBytes,
+        gcsPath: `uploads/${organisationId}/${upload.id}.zip`,
+        detectedFramework: body.detectedFramework,
+        detectedRuntime: body.detectedRuntime,
+        detectedDeploymentType: body.detectedDeploymentType,
+        detectedBuildCommand: body.detectedBuildCommand,
+        detectedOutputDirectory: body.detectedOutputDirectory,
+        completedAt: state.now(),
+      };
+    });
+
+    // Config
+    this.route('GET', '/api/config/platform', () => state.platformConfig);
+    this.route('GET', '/api/config/cloudrun', () => ({ memory: ['256Mi', '512Mi', '1Gi'], cpu: ['1', '2'], maxInstances: 10 }));
+
+    // Log stream
+    this.route('GET', /^\/([^/]+)\/([^/]+)\/logs\/stream$/, (ctx) => this.streamLogs(ctx));
+  }
+
+  private seedEnvVars(app: Application, variables?: Record<string, string>): void {
+    const production = this.state.environmentsFor(app.id).find(e => e.is_production);
+    if (production && variables) {
+      this.state.setEnvVars(production.id, variables);
+    }
+  }
+
+  private seedSettings(app: Application, body: Record<string, any>): void {
+    const production = this.state.environmentsFor(app.id).find(e => e.is_production);
+    if (production) {
+      this.state.updateEnvironment(production.id, environmentSettings(body));
+    }
+  }
+
+  /**
+   * Replay the environment's log entries after `Last-Event-ID` (or `since`), then push new ones live
+   */
+  private streamLogs({ params, query, req, res }: RouteContext): void {
+    const env = this.environmentIn(params[0], params[1]);
+    const lastEventId = Number(req.headers['last-event-id']) || 0;
+    const since = query.get('since');
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write('retry: 1000\n\n');
+
+    const write = (entry: LogEntry) => {
+      res.write(`id: ${entry.id}\nevent: ${entry.event}\n${entry.data.split('\n').map(line => `data: ${line}`).join('\n')}\n\n`);
+    };
+
+    for (const entry of this.state.logs.get(env.id) || []) {
+      if (entry.id > lastEventId && (!since || entry.timestamp >= since)) {
+        write(entry);
+      }
+    }
+
+    const unsubscribe = this.state.onLog(env.id, write);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    keepAlive.unref();
+    this.openStreams.add(res);
+
+    res.on('close', () => {
+      unsubscribe();
+      clearInterval(keepAlive);
+      this.openStreams.delete(res);
+    });
+  }
+}
+
+const MOCK_INSTALLATION = {
+  id: 'installation-1',
+  account_name: 'mock-user',
+  account_type: 'user' as const,
+  repositories: ['mock-user/example-app'],
+};
+
+const MOCK_REPOSITORIES = [
+  { id: 1, name: 'example-app', full_name: 'mock-user/example-app', private: false, default_branch: 'main' },
+];
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function isJson(req: http.IncomingMessage): boolean {
+  return (req.headers['content-type'] || '').includes('application/json');
+}
+
+function requireFields(body: Record<string, any>, fields: string[]): void {
+  const missing = fields.filter(field => body[field] === undefined || body[field] === '');
+  if (missing.length > 0) {
+    throw new MockError(400, 'VALIDATION_ERROR', `Missing required field(s): ${missing.join(', ')}`);
+  }
+}
+
+function logLines(entries: LogEntry[], since?: string): string[] {
+  return entries
+    .filter(entry => entry.event === 'log' && (!since || entry.timestamp >= since))
+    .flatMap(entry => entry.data.split('\n'));
+}
+
+/**
+ * Environment settings from a request body; absent ones stay undefined so they don't overwrite anything
+ */
+function environmentSettings(body: Record<string, any>): Partial<Environment> {
+  return {
+    install_command: body.installCommand,
+    build_command: body.buildCommand,
+    start_command: body.startCommand,
+    output_directory: body.outputDirectory,
+    container_port: body.containerPort,
+    memory: body.memory,
+    cpu: body.cpu,
+    region: body.region,
+  };
+}
@@ -0,0 +1,499 @@
+// src/mock-server/state.ts
+
+import {
+  Application,
+  CustomDomain,
+  Deployment,
+  DeploymentStatus,
+  Environment,
+  EnvironmentVariable,
+  Organisation,
+  User,
+} from '../api/types';
+
+export interface BuildStep {
+  stage: string;
+  logs: string[];
+}
+
+export interface MockUpload {
+  id: string;
+  organisationId: string;
+  fileName?: string;
+  expectedSize?: number;
+  receivedBytes: number;
+  status: 'pending' | 'uploaded' | 'completed';
+  resumable?: boolean;
+  /** SHA-256 of the received archive, once fully uploaded */
+  sha256?: string;
+  /** Content hash of every source file by path, for incremental uploads */
+  manifest?: Record<string, string>;
+  baseUploadId?: string;
+  /** Application last built from this upload */
+  applicationId?: string;
+}
+
+export interface LogEntry {
+  id: number;
+  event: 'log' | 'stage' | 'complete';
+  data: string;
+  timestamp: string;
+}
+
+/**
+ * Declarative starting point for the mock server.
+ * Everything is optional; omitted parts fall back to a single user in a single organisation.
+ */
+export interface MockScenario {
+  user?: Partial<User>;
+  organisations?: Organisation[];
+  applications?: (Partial<Application> & { name: string; organisationId?: string })[];
+  githubInstalled?: boolean;
+  /** Build steps played for every deployment */
+  buildSteps?: BuildStep[];
+  /** Make every build end in `failed` */
+  failBuilds?: boolean;
+  runtimeLogs?: string[];
+  platformConfig?: Record<string, unknown>;
+}
+
+export interface MockStateOptions {
+  /** Clock used for every timestamp. Defaults to a fixed epoch so output is deterministic. */
+  now?: () => Date;
+}
+
+const DEFAULT_BUILD_STEPS: BuildStep[] = [
+  { stage: 'install', logs: ['Installing dependencies...', 'added 120 packages in 2s'] },
+  { stage: 'build', logs: ['Running build...', 'Build completed'] },
+  { stage: 'deploy', logs: ['Deploying revision...', 'Revision is serving 100% of traffic'] },
+];
+
+const FIXED_EPOCH = new Date('2026-01-01T00:00:00.000Z');
+
+/**
+ * In-memory, deterministic model of the Light Cloud platform.
+ * IDs come from per-type counters and timestamps from an injectable clock,
+ * so the same scenario and the same sequence of calls always produce the same data.
+ */
+export class MockState {
+  accessToken = '';
+  refreshToken = '';
+
+  user!: User;
+  applications = new Map<string, Application & { organisationId: string }>();
+  environments = new Map<string, Environment & { organisationId: string }>();
+  deployments = new Map<string, Deployment>();
+  envVars = new Map<string, Map<string, EnvironmentVariable>>();
+  domains = new Map<string, CustomDomain>();
+  uploads = new Map<string, MockUpload>();
+  logs = new Map<string, LogEntry[]>();
+  githubInstalled = true;
+  buildSteps: BuildStep[] = DEFAULT_BUILD_STEPS;
+  failBuilds = false;
+  platformConfig: Record<string, unknown> = {};
+
+  private counters = new Map<string, number>();
+  private ticks = 0;
+  private activeBuilds = new Map<string, { deploymentId: string; step: number }>();
+  private logListeners = new Map<string, Set<(entry: LogEntry) => void>>();
+
+  constructor(private scenario: MockScenario = {}, private options: MockStateOptions = {}) {
+    this.reset();
+  }
+
+  // ============ Setup ============
+
+  reset(scenario: MockScenario = this.scenario): void {
+    this.scenario = scenario;
+    this.applications.clear();
+    this.environments.clear();
+    this.deployments.clear();
+    this.envVars.clear();
+    this.domains.clear();
+    this.uploads.clear();
+    this.logs.clear();
+    this.activeBuilds.clear();
+    this.counters.clear();
+    this.ticks = 0;
+    this.rotateTokens();
+
+    const organisations = scenario.organisations || [
+      { id: 'org-1', name: 'Mock Organisation', slug: 'mock-org', role: 'owner' },
+    ];
+    this.user = {
+      id: 'user-1',
+      email: 'dev@example.com',
+      first_name: 'Dev',
+      ...scenario.user,
+      organisations,
+    };
+    this.githubInstalled = scenario.githubInstalled ?? true;
+    this.buildSteps = scenario.buildSteps || DEFAULT_BUILD_STEPS;
+    this.failBuilds = scenario.failBuilds ?? false;
+    this.platformConfig = scenario.platformConfig || {
+      runtimes: { nodejs: ['18', '20', '22'], python: ['3.10', '3.11', '3.12'] },
+      regions: ['europe-west1', 'us-central1'],
+    };
+
+    for (const app of scenario.applications || []) {
+      const created = this.createApplication(app.organisationId || organisations[0].id, app);
+      const production = created.environments![0];
+      this.finishBuild(production.id);
+      for (const line of scenario.runtimeLogs || []) {
+        this.appendLog(production.id, 'log', line);
+      }
+    }
+  }
+
+  now(): string {
+    if (this.options.now) {
+      return this.options.now().toISOString();
+    }
+    // Advance the fixed clock by one second per call so ordering is preserved
+    return new Date(FIXED_EPOCH.getTime() + this.ticks++ * 1000).toISOString();
+  }
+
+  nextId(prefix: string): string {
+    const next = (this.counters.get(prefix) || 0) + 1;
+    this.counters.set(prefix, next);
+    return `${prefix}-${next}`;
+  }
+
+  /**
+   * Issue a new token pair, invalidating the previous one
+   */
+  rotateTokens(): { accessToken: string; refreshToken: string } {
+    this.accessToken = this.nextId('mock-access-token');
+    this.refreshToken = this.nextId('mock-refresh-token');
+    return { accessToken: this.accessToken, refreshToken: this.refreshToken };
+  }
+
+  hasOrganisation(organisationId: string): boolean {
+    return this.user.organisations.some(o => o.id === organisationId);
+  }
+
+  // ============ Applications & Environments ============
+
+  createApplication(
+    organisationId: string,
+    input: Partial<Application> & { name: string; branch?: string }
+  ): Application & { organisationId: string } {
+    const id = this.nextId('app');
+    const slug = input.slug || input.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const timestamp = this.now();
+
+    const app: Application & { organisationId: string } = {
+      id,
+      organisationId,
+      name: input.name,
+      slug,
+      deployment_type: input.deployment_type || 'container',
+      framework: input.framework,
+      runtime: input.runtime,
+      github_repo_url: input.github_repo_url,
+      github_branch: input.github_branch || input.branch || 'main',
+      root_directory: input.root_directory,
+      source_type: input.source_type || (input.github_repo_url ? 'github' : 'upload'),
+      status: 'pending',
+      url: `https://${slug}.mock.light-cloud.io`,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    this.applications.set(id, app);
+
+    const production = this.createEnvironment(organisationId, id, 'production', app.github_branch || 'main', true);
+    app.environments = [production];
+    return app;
+  }
+
+  createEnvironment(
+    organisationId: string,
+    applicationId: string,
+    name: string,
+    branch: string,
+    isProduction = false
+  ): Environment & { organisationId: string } {
+    const app = this.applications.get(applicationId);
+    const id = this.nextId('env');
+    const timestamp = this.now();
+    const host = isProduction ? app?.slug : `${app?.slug}-${name}`;
+
+    const env: Environment & { organisationId: string } = {
+      id,
+      organisationId,
+      application_id: applicationId,
+      name,
+      github_branch: branch,
+      is_production: isProduction,
+      status: 'pending',
+      url: `https://${host}.mock.light-cloud.io`,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    this.environments.set(id, env);
+    this.envVars.set(id, new Map());
+    this.logs.set(id, []);
+    if (app && app.environments && !app.environments.some(e => e.id === id)) {
+      app.environments.push(env);
+    }
+
+    this.startBuild(id);
+    return env;
+  }
+
+  environmentsFor(applicationId: string): (Environment & { organisationId: string })[] {
+    return [...this.environments.values()].filter(e => e.application_id === applicationId);
+  }
+
+  deleteApplication(applicationId: string): void {
+    for (const env of this.environmentsFor(applicationId)) {
+      this.deleteEnvironment(env.id);
+    }
+    this.applications.delete(applicationId);
+  }
+
+  /**
+   * Merge settings into an environment, skipping undefined ones
+   */
+  updateEnvironment(environmentId: string, settings: Partial<Environment>): Environment & { organisationId: string } {
+    const env = this.environments.get(environmentId)!;
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        (env as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+    return env;
+  }
+
+  deleteEnvironment(environmentId: string): void {
+    const env = this.environments.get(environmentId);
+    this.environments.delete(environmentId);
+    this.envVars.delete(environmentId);
+    this.activeBuilds.delete(environmentId);
+    const app = env && this.applications.get(env.application_id);
+    if (app?.environments) {
+      app.environments = app.environments.filter(e => e.id !== environmentId);
+    }
+  }
+
+  /** Application with its current environments attached, as the API returns it */
+  withEnvironments(app: Application): Application {
+    return { ...app, environments: this.environmentsFor(app.id) };
+  }
+
+  // ============ Builds ============
+
+  /**
+   * Start a new deployment for an environment. The build advances one step per `advance()` call.
+   */
+  startBuild(environmentId: string, source?: Partial<Deployment>): Deployment {
+    const env = this.environments.get(environmentId);
+    const deploymentId = this.nextId('dep');
+    const deployment: Deployment = {
+      id: deploymentId,
+      environment_id: environmentId,
+      status: 'building',
+      deployment_stage: 'queued',
+      commit_sha: source?.commit_sha || this.fakeSha(deploymentId),
+      commit_message: source?.commit_message || `Mock deployment ${deploymentId}`,
+      started_at: this.now(),
+    };
+    this.deployments.set(deploymentId, deployment);
+    this.activeBuilds.set(environmentId, { deploymentId, step: 0 });
+    this.setStatus(environmentId, 'building');
+    if (env) {
+      this.appendLog(environmentId, 'stage', JSON.stringify({ stage: 'queued', status: 'building', deploymentId }));
+    }
+    return deployment;
+  }
+
+  /**
+   * Advance every active build (or just one environment's) by a single step
+   */
+  advance(environmentId?: string): void {
+    const ids = environmentId ? [environmentId] : [...this.activeBuilds.keys()];
+
+    for (const id of ids) {
+      const build = this.activeBuilds.get(id);
+      if (!build) continue;
+
+      const deployment = this.deployments.get(build.deploymentId)!;
+      const step = this.buildSteps[build.step];
+
+      if (!step) {
+        this.completeBuild(id, deployment);
+        continue;
+      }
+
+      deployment.deployment_stage = step.stage;
+      deployment.status = step.stage === 'deploy' ? 'deploying' : 'building';
+      this.setStatus(id, deployment.status);
+      this.appendLog(id, 'stage', JSON.stringify({ stage: step.stage, status: deployment.status, deploymentId: deployment.id }));
+      for (const line of step.logs) {
+        this.appendLog(id, 'log', line);
+      }
+      build.step++;
+    }
+  }
+
+  /**
+   * Run the active build for an environment to completion
+   */
+  finishBuild(environmentId: string): void {
+    while (this.activeBuilds.has(environmentId)) {
+      this.advance(environmentId);
+    }
+  }
+
+  activeDeploymentId(environmentId: string): string | undefined {
+    return this.activeBuilds.get(environmentId)?.deploymentId;
+  }
+
+  private completeBuild(environmentId: string, deployment: Deployment): void {
+    const status: DeploymentStatus = this.failBuilds ? 'failed' : 'healthy';
+    deployment.status = status;
+    deployment.deployment_stage = this.failBuilds ? 'build' : 'live';
+    deployment.completed_at = this.now();
+    deployment.deployment_logs = (this.logs.get(environmentId) || [])
+      .filter(e => e.event === 'log')
+      .map(e => e.data);
+    this.activeBuilds.delete(environmentId);
+    this.setStatus(environmentId, status);
+
+    const env = this.environments.get(environmentId);
+    this.appendLog(environmentId, 'complete', JSON.stringify({ status, deploymentId: deployment.id, url: env?.url }));
+  }
+
+  private setStatus(environmentId: string, status: DeploymentStatus): void {
+    const env = this.environments.get(environmentId);
+    if (!env) return;
+    env.status = status;
+    env.updated_at = this.now();
+
+    const app = this.applications.get(env.application_id);
+    if (app && env.is_production) {
+      app.status = status;
+      app.updated_at = env.updated_at;
+    }
+  }
+
+  private fakeSha(seed: string): string {
+    let hash = 0;
+    for (const char of seed) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0').repeat(5);
+  }
+
+  // ============ Environment Variables ============
+
+  setEnvVars(environmentId: string, variables: Record<string, string>): EnvironmentVariable[] {
+    const vars = this.envVars.get(environmentId) || new Map<string, EnvironmentVariable>();
+    const timestamp = this.now();
+    for (const [key, value] of Object.entries(variables)) {
+      vars.set(key, { key, value, is_secret: /SECRET|TOKEN|PASSWORD|KEY/i.test(key), updated_at: timestamp });
+    }
+    this.envVars.set(environmentId, vars);
+    return [...vars.values()];
+  }
+
+  deleteEnvVars(environmentId: string, keys: string[]): void {
+    const vars = this.envVars.get(environmentId);
+    for (const key of keys) {
+      vars?.delete(key);
+    }
+  }
+
+  // ============ Custom Domains ============
+
+  addDomain(environmentId: string, domain: string): CustomDomain {
+    const env = this.environments.get(environmentId)!;
+    const target = env.url ? new URL(env.url).host : 'mock.light-cloud.io';
+    const record: CustomDomain = {
+      domain,
+      environment_id: environmentId,
+      status: 'pending_dns',
+      tls_status: 'pending',
+      dns_records: [
+        { type: 'CNAME', name: domain, value: target, ttl: 300, verified: false },
+        { type: 'TXT', name: `_lightcloud.${domain}`, value: `lightcloud-verify=${environmentId}`, ttl: 300, verified: false },
+      ],
+      created_at: this.now(),
+    };
+    this.domains.set(domain, record);
+    env.custom_domain = domain;
+    return record;
+  }
+
+  /**
+   * Each verification moves a domain one step closer to `active`:
+   * pending_dns → verifying → provisioning_certificate → active
+   */
+  verifyDomain(domain: string): CustomDomain | undefined {
+    const record = this.domains.get(domain);
+    if (!record) return undefined;
+
+    switch (record.status) {
+      case 'pending_dns':
+        record.status = 'verifying';
+        record.dns_records.forEach(r => { r.verified = true; });
+        break;
+      case 'verifying':
+        record.status = 'provisioning_certificate';
+        record.tls_status = 'provisioning';
+        record.verified_at = this.now();
+        break;
+      case 'provisioning_certificate':
+        record.status = 'active';
+        record.tls_status = 'active';
+        break;
+    }
+    return record;
+  }
+
+  removeDomain(domain: string): void {
+    const record = this.domains.get(domain);
+    if (!record) return;
+
+    this.domains.delete(domain);
+    const env = this.environments.get(record.environment_id);
+    if (env?.custom_domain === domain) {
+      delete env.custom_domain;
+    }
+  }
+
+  // ============ Logs ============
+
+  appendLog(environmentId: string, event: LogEntry['event'], data: string): LogEntry {
+    const entries = this.logs.get(environmentId) || [];
+    const entry: LogEntry = { id: entries.length + 1, event, data, timestamp: this.now() };
+    entries.push(entry);
+    this.logs.set(environmentId, entries);
+
+    for (const listener of this.logListeners.get(environmentId) || []) {
+      listener(entry);
+    }
+    return entry;
+  }
+
+  onLog(environmentId: string, listener: (entry: LogEntry) => void): () => void {
+    const listeners = this.logListeners.get(environmentId) || new Set();
+    listeners.add(listener);
+    this.logListeners.set(environmentId, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  // ============ Snapshot ============
+
+  snapshot(): Record<string, unknown> {
+    return {
+      user: this.user,
+      applications: [...this.applications.values()].map(a => this.withEnvironments(a)),
+      deployments: [...this.deployments.values()],
+      envVars: Object.fromEntries([...this.envVars].map(([id, vars]) => [id, [...vars.values()]])),
+      domains: [...this.domains.values()],
+      uploads: [...this.uploads.values()],
+      activeBuilds: Object.fromEntries(this.activeBuilds),
+    };
+  }
+}
@@ -10,9 +10,26 @@ import { ListCommand } from './commands/list';
 import { DestroyCommand } from './commands/destroy';
 import { RedeployCommand } from './commands/redeploy';
 import { PlanCommand } from './commands/plan';
+import { EnvCommand } from './commands/env';
+import { RollbackCommand } from './commands/rollback';
+import { HistoryCommand } from './commands/history';
+import { DomainCommand } from './commands/domain';
+import { LogsCommand } from './commands/logs';
+import { OrgCommand } from './commands/org';
+import { UploadCommand } from './commands/upload';
+import { SyncCommand } from './commands/sync';
+import { PreviewCommand } from './commands/preview';
+import { PromoteCommand } from './commands/promote';
+import { UploadDeployCommand } from './commands/upload-deploy';
 import { GitDetector } from './detection/git-detector';
 import { FrameworkDetector } from './detection/framework-detector';
+import { UploadSessionStore } from './upload/upload-sessions';
+import { AcceptedSecretStore } from './upload/secrets';
 import { formatError } from './utils/formatting';
+import { parseArgs, getStringFlag } from './utils/args';
+import { runInProject } from './utils/config-manager';
+import { restoreLinkedOrganisation, showOrganisationFailure } from './utils/organisation-resolver';
+import { Project, resolveProject, showProjectFailure } from './utils/project-resolver';
 
 export class LightCloudParticipant {
   private client: ApiClient;
@@ -28,6 +45,16 @@ export class LightCloudParticipant {
   private destroyCommand: DestroyCommand;
   private redeployCommand: RedeployCommand;
   private planCommand: PlanCommand;
+  private envCommand: EnvCommand;
+  private rollbackCommand: RollbackCommand;
+  private historyCommand: HistoryCommand;
+  private domainCommand: DomainCommand;
+  private logsCommand: LogsCommand;
+  private orgCommand: OrgCommand;
+  private uploadCommand: UploadCommand;
+  private syncCommand: SyncCommand;
+  private previewCommand: PreviewCommand;
+  private promoteCommand: PromoteCommand;
 
   constructor(private context: vscode.ExtensionContext) {
     this.client = new ApiClient(context);
@@ -41,8 +68,24 @@ export class LightCloudParticipant {
     this.statusCommand = new StatusCommand(this.api);
     this.listCommand = new ListCommand(this.api);
     this.destroyCommand = new DestroyCommand(this.api);
-    this.redeployCommand = new RedeployCommand(this.api);
+    const uploadSessions = new UploadSessionStore(context.globalState);
+    const acceptedSecrets = new AcceptedSecretStore(context.workspaceState);
+    this.redeployCommand = new RedeployCommand(this.api, uploadSessions, acceptedSecrets);
     this.planCommand = new PlanCommand(this.api, this.gitDetector, this.frameworkDetector);
+    this.envCommand = new EnvCommand(this.api);
+    this.rollbackCommand = new RollbackCommand(this.api);
+    this.historyCommand = new HistoryCommand(this.api);
+    this.domainCommand = new DomainCommand(this.api);
+    this.logsCommand = new LogsCommand(this.api);
+    this.orgCommand = new OrgCommand(this.api);
+    this.uploadCommand = new UploadCommand(
+      this.api,
+      this.frameworkDetector,
+      new UploadDeployCommand(this.api, uploadSessions, acceptedSecrets)
+    );
+    this.syncCommand = new SyncCommand(this.api, this.frameworkDetector);
+    this.previewCommand = new PreviewCommand(this.api, this.gitDetector);
+    this.promoteCommand = new PromoteCommand(this.api);
   }
 
   async handleRequest(
@@ -50,6 +93,18 @@ export class LightCloudParticipant {
     context: vscode.ChatContext,
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    // Cancelling the chat request aborts any API calls it started
+    return this.client.runWithCancellation(token, () =>
+      this.routeRequest(request, context, stream, token)
+    );
+  }
+
+  private async routeRequest(
+    request: vscode.ChatRequest,
+    context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
   ): Promise<vscode.ChatResult> {
     // Handle login/logout without auth check
     if (request.command === 'login') {
@@ -59,11 +114,13 @@ export class LightCloudParticipant {
       return await this.handleLogout(stream);
     }
 
-    // Check authentication and auto-login if needed
-    const isAuthenticated = await this.ensureAuthenticated(stream);
+    // Check authentication and auto-login if needed; dry runs never call the API
+    if (!(request.command === 'upload' && UploadCommand.isDryRun(request))) {
+      const isAuthenticated = await this.ensureAuthenticated(stream);
 
-    if (!isAuthenticated) {
-      return { metadata: { command: 'login-required' } };
+      if (!isAuthenticated) {
+        return { metadata: { command: 'login-required' } };
+      }
     }
 
     // Get current workspace
@@ -73,44 +130,117 @@ export class LightCloudParticipant {
       return { metadata: { command: 'no-workspace' } };
     }
 
-    // Route to appropriate command handler
+    // In a monorepo or multi-root workspace, pick the app directory (--path or quick pick)
+    let project: Project | undefined;
+    if (workspaceFolder && this.actsOnProject(request.command)) {
+      const resolved = await resolveProject(getStringFlag(parseArgs(request.prompt), 'path'), {
+        linkedOnly: !this.requiresWorkspace(request.command),
+        placeHolder: `Select the app to ${request.command}`,
+      });
+      if ('status' in resolved) {
+        showProjectFailure(stream, resolved);
+        return { metadata: { command: request.command, status: resolved.status } };
+      }
+      project = resolved;
+    }
+
+    // Route to appropriate command handler; `.lightcloud` is read from the app directory
     try {
-      switch (request.command) {
-        case 'deploy':
-          return await this.deployCommand.execute(request, stream, token, workspaceFolder!);
+      return await runInProject(project?.folder.uri.fsPath, () =>
+        this.dispatch(request, stream, token, project?.folder ?? workspaceFolder, project)
+      );
+    } catch (error) {
+      stream.markdown(formatError(error));
+      return { metadata: { command: 'error' } };
+    }
+  }
+
+  private async dispatch(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    workspaceFolder: vscode.WorkspaceFolder | undefined,
+    project: Project | undefined
+  ): Promise<vscode.ChatResult> {
+    // A link committed by a teammate still needs this user's organisation
+    if (project && !(request.command === 'upload' && UploadCommand.isDryRun(request))) {
+      const orgFailure = await restoreLinkedOrganisation(this.api);
+      if (orgFailure) {
+        showOrganisationFailure(stream, orgFailure);
+        return { metadata: { command: request.command, status: orgFailure.status } };
+      }
+    }
 
-        case 'plan':
-          return await this.planCommand.execute(request, stream, token, workspaceFolder!);
+    switch (request.command) {
+      case 'deploy':
+        return await this.deployCommand.execute(request, stream, token, project!);
 
-        case 'status':
-          return await this.statusCommand.execute(request, stream, token, workspaceFolder);
+      case 'plan':
+        return await this.planCommand.execute(request, stream, token, project!);
 
-        case 'list':
-          return await this.listCommand.execute(request, stream, token);
+      case 'status':
+        return await this.statusCommand.execute(request, stream, token, workspaceFolder);
 
-        case 'destroy':
-          return await this.destroyCommand.execute(request, stream, token);
+      case 'list':
+        return await this.listCommand.execute(request, stream, token);
 
-        case 'redeploy':
-          return await this.redeployCommand.execute(request, stream, token);
+      case 'destroy':
+        return await this.destroyCommand.execute(request, stream, token);
 
-        case 'login':
-          return await this.handleLogin(stream);
+      case 'redeploy':
+        return await this.redeployCommand.execute(request, stream, token, project?.workspaceFolder);
 
-        case 'logout':
-          return await this.handleLogout(stream);
+      case 'env':
+        return await this.envCommand.execute(request, stream, token, workspaceFolder);
 
-        default:
-          return await this.handleGeneralQuery(request, stream, workspaceFolder);
-      }
-    } catch (error) {
-      stream.markdown(formatError(error));
-      return { metadata: { command: 'error' } };
+      case 'rollback':
+        return await this.rollbackCommand.execute(request, stream, token);
+
+      case 'promote':
+        return await this.promoteCommand.execute(request, stream, token);
+
+      case 'history':
+        return await this.historyCommand.execute(request, stream, token);
+
+      case 'domain':
+        return await this.domainCommand.execute(request, stream, token);
+
+      case 'logs':
+        return await this.logsCommand.execute(request, stream, token);
+
+      case 'org':
+        return await this.orgCommand.execute(request, stream, token);
+
+      case 'upload':
+        return await this.uploadCommand.execute(request, stream, token, project!);
+
+      case 'sync':
+        return await this.syncCommand.execute(request, stream, token, project);
+
+      case 'preview':
+        return await this.previewCommand.execute(request, stream, token, project);
+
+      case 'login':
+        return await this.handleLogin(stream);
+
+      case 'logout':
+        return await this.handleLogout(stream);
+
+      default:
+        return await this.handleGeneralQuery(request, stream, workspaceFolder);
     }
   }
 
   private requiresWorkspace(command?: string): boolean {
-    return ['deploy', 'plan'].includes(command || '');
+    return ['deploy', 'plan', 'upload'].includes(command || '');
+  }
+
+  /**
+   * Commands for a single app; the rest act on the organisation or only need a login
+   */
+  private actsOnProject(command?: string): boolean {
+    return this.requiresWorkspace(command)
+      || ['status', 'redeploy', 'sync', 'preview', 'env', 'rollback', 'promote', 'history', 'domain', 'logs', 'destroy'].includes(command || '');
   }
 
   /**
@@ -224,10 +354,20 @@ export class LightCloudParticipant {
       stream.markdown('**Available commands:**\n');
       stream.markdown('- `/deploy` - Deploy your project\n');
       stream.markdown('- `/plan` - Preview deployment configuration\n');
+      stream.markdown('- `/upload` - Upload and deploy without Git (`--dry-run` to preview)\n');
       stream.markdown('- `/status` - Check deployment status\n');
       stream.markdown('- `/list` - List all applications\n');
       stream.markdown('- `/redeploy` - Redeploy current environment\n');
+      stream.markdown('- `/sync` - Apply the settings `/plan` shows to the linked environment, once confirmed\n');
+      stream.markdown('- `/preview` - Deploy the current branch to its own preview environment\n');
+      stream.markdown('- `/env` - Manage environment variables\n');
+      stream.markdown('- `/rollback` - Roll back to a previous deployment\n');
+      stream.markdown('- `/promote` - Promote the build running in one environment to another\n');
+      stream.markdown('- `/history` - Show deployment history and logs\n');
+      stream.markdown('- `/domain` - Manage custom domains\n');
+      stream.markdown('- `/logs` - View or follow runtime logs\n');
       stream.markdown('- `/destroy` - Delete an application or environment\n');
+      stream.markdown('- `/org` - List organisations or switch the default\n');
       stream.markdown('- `/login` - Login to Light Cloud\n');
       stream.markdown('- `/logout` - Logout from Light Cloud\n');
     }
@@ -240,12 +380,22 @@ export class LightCloudParticipant {
     stream.markdown('## Commands\n\n');
     stream.markdown('| Command | Description |\n');
     stream.markdown('|---------|-------------|\n');
-    stream.markdown('| `/deploy` | Deploy current project to Light Cloud |\n');
-    stream.markdown('| `/plan` | Preview deployment configuration |\n');
+    stream.markdown('| `/deploy` | Deploy current project to Light Cloud (`--path <dir>` picks an app in a monorepo) |\n');
+    stream.markdown('| `/plan` | Preview deployment configuration, or what would change on a linked app |\n');
+    stream.markdown('| `/upload` | Upload and deploy the workspace without Git (`--dry-run` lists what would be sent) |\n');
     stream.markdown('| `/status` | Show application health and status |\n');
     stream.markdown('| `/list` | List all applications and environments |\n');
     stream.markdown('| `/redeploy` | Redeploy current environment |\n');
+    stream.markdown('| `/sync` | Apply detected and `lightcloud.json` settings to the linked environment after confirming (`--yes` skips it) |\n');
+    stream.markdown('| `/preview` | Create and deploy a preview environment for the current branch (or `/preview <branch>`) |\n');
+    stream.markdown('| `/env` | List, set, unset or import environment variables |\n');
+    stream.markdown('| `/rollback` | Roll back to a previous deployment |\n');
+    stream.markdown('| `/promote` | Promote the build running in one environment to another (`/promote staging production`) |\n');
+    stream.markdown('| `/history` | Show deployment history with per-deployment logs |\n');
+    stream.markdown('| `/domain` | Add, verify or remove a custom domain |\n');
+    stream.markdown('| `/logs` | View or follow runtime logs (`--follow`, `--since 10m`, `--grep`, `--level`) |\n');
     stream.markdown('| `/destroy` | Delete an application or environment |\n');
+    stream.markdown('| `/org` | List organisations or switch the default (`--org <name>` works on every command) |\n');
     stream.markdown('| `/login` | Login to Light Cloud |\n');
     stream.markdown('| `/logout` | Logout from Light Cloud |\n');
     stream.markdown('\n## Examples\n\n');
@@ -0,0 +1,141 @@
+// src/test/config-manager.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { ConfigManager, InvalidConfigError, validateConfig } from '../utils/config-manager';
+
+describe('.lightcloud', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) {
+      fs.rmSync(root, { recursive: true, force: true });
+      root = undefined;
+    }
+  });
+
+  function directory(files: Record<string, string>): string {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-config-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return root;
+  }
+
+  function readJson(file: string): unknown {
+    return JSON.parse(fs.readFileSync(path.join(root!, file), 'utf-8'));
+  }
+
+  it('splits the link into a committed and a git-ignored per-user file', async () => {
+    const dir = directory({ '.git/HEAD': 'ref: refs/heads/main\n', '.gitignore': 'node_modules/' });
+    const config = new ConfigManager(dir);
+
+    assert.ok(await config.write({ organisationId: 'org-1', applicationId: 'app-1', applicationName: 'Shop', lastDeployedAt: '2026-01-01T00:00:00.000Z' }));
+
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-1', applicationName: 'Shop' });
+    assert.deepEqual(readJson('.lightcloud.local'), { organisationId: 'org-1', lastDeployedAt: '2026-01-01T00:00:00.000Z' });
+    assert.equal(fs.readFileSync(path.join(dir, '.gitignore'), 'utf-8'), 'node_modules/\n# Light Cloud per-user link\n.lightcloud.local\n');
+    assert.deepEqual(config.read(), { applicationId: 'app-1', applicationName: 'Shop', organisationId: 'org-1', lastDeployedAt: '2026-01-01T00:00:00.000Z' });
+    assert.deepEqual(fs.readdirSync(dir).sort(), ['.git', '.gitignore', '.lightcloud', '.lightcloud.local']);
+
+    // Already ignored, so not added again
+    await config.update({ environmentName: 'production' });
+    assert.equal(fs.readFileSync(path.join(dir, '.gitignore'), 'utf-8').match(/\.lightcloud\.local/g)?.length, 1);
+  });
+
+  it('migrates a link from before the split', () => {
+    const dir = directory({
+      '.lightcloud': JSON.stringify({ organisationId: 'org-1', applicationId: 'app-1', environmentId: 'env-1', deploymentType: 'static' }),
+    });
+
+    const config = new ConfigManager(dir).read();
+
+    assert.deepEqual(config, { organisationId: 'org-1', applicationId: 'app-1', environmentId: 'env-1', deploymentType: 'static' });
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-1', environmentId: 'env-1', deploymentType: 'static' });
+    assert.deepEqual(readJson('.lightcloud.local'), { organisationId: 'org-1' });
+    // Not in a git repository, so there is nothing to ignore it in
+    assert.equal(fs.existsSync(path.join(dir, '.gitignore')), false);
+  });
+
+  it('reports malformed and invalid files instead of treating them as unlinked', () => {
+    const malformed = new ConfigManager(directory({ '.lightcloud': '{ "applicationId": ' }));
+    assert.throws(() => malformed.read(), (error: unknown) =>
+      error instanceof InvalidConfigError && /`\.lightcloud` in .* is invalid: it is not valid JSON/.test(error.message)
+    );
+
+    assert.deepEqual(validateConfig({ version: 3, applicationId: '', deploymentType: 'docker', appId: 'x' }), [
+      '`version` 3 was written by a newer version of the extension; update it',
+      '`applicationId` must be a non-empty string',
+      '`deploymentType` must be "static" or "container"',
+      '`appId` is not a known field',
+    ]);
+  });
+
+  it('keeps branch previews in the committed file until they are deleted', async () => {
+    const dir = directory({ '.lightcloud': JSON.stringify({ version: 2, applicationId: 'app-1' }) });
+    const config = new ConfigManager(dir);
+
+    // From two windows at once, each adding its branch to the same link
+    await Promise.all([
+      config.savePreview('feature/a', { environmentId: 'env-2', environmentName: 'preview-feature-a' }),
+      new ConfigManager(dir).savePreview('feature/b', { environmentId: 'env-3', environmentName: 'preview-feature-b' }),
+    ]);
+    assert.deepEqual(Object.keys(config.read()?.previews || {}).sort(), ['feature/a', 'feature/b']);
+
+    await config.removePreview('env-2');
+    assert.deepEqual(Object.keys(config.read()?.previews || {}), ['feature/b']);
+
+    await config.removePreview('env-3');
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-1' });
+    assert.deepEqual(validateConfig({ previews: { main: { environmentName: 'x' } } }), [
+      '`previews` has an invalid entry for "main" (it needs an environmentId and environmentName)',
+    ]);
+  });
+
+  it('replaces an unreadable link when writing a new one', async () => {
+    const dir = directory({ '.lightcloud': 'not json', '.lightcloud.lock': '' });
+    // A lock left by a crashed window
+    const stale = new Date(Date.now() - 60000);
+    fs.utimesSync(path.join(dir, '.lightcloud.lock'), stale, stale);
+
+    assert.ok(await new ConfigManager(dir).write({ applicationId: 'app-2' }));
+
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-2' });
+    assert.equal(fs.existsSync(path.join(dir, '.lightcloud.lock')), false);
+    assert.ok(await new ConfigManager(dir).clear());
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+
+  it('waits for another window to finish writing instead of blocking', async () => {
+    const dir = directory({ '.lightcloud': JSON.stringify({ version: 2, applicationId: 'app-1' }), '.lightcloud.lock': '' });
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    setTimeout(() => fs.rmSync(path.join(dir, '.lightcloud.lock')), 100);
+
+    try {
+      assert.ok(await new ConfigManager(dir).update({ environmentName: 'production' }));
+    } finally {
+      clearInterval(timer);
+    }
+
+    assert.ok(ticks > 0);
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-1', environmentName: 'production' });
+  });
+
+  it('clears a lock left by a window that has exited', async () => {
+    const exited = spawnSync(process.execPath, ['-e', '']).pid;
+    const dir = directory({ '.lightcloud': JSON.stringify({ version: 2, applicationId: 'app-1' }), '.lightcloud.lock': String(exited) });
+    const started = Date.now();
+
+    assert.ok(await new ConfigManager(dir).update({ environmentName: 'production' }));
+
+    assert.ok(Date.now() - started < 1000);
+    assert.deepEqual(readJson('.lightcloud'), { version: 2, applicationId: 'app-1', environmentName: 'production' });
+    assert.equal(fs.existsSync(path.join(dir, '.lightcloud.lock')), false);
+  });
+});
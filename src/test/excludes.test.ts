@@ -0,0 +1,149 @@
+// src/test/excludes.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreMatcher } from '../upload/excludes';
+import { SourcePackager } from '../upload/packager';
+
+describe('IgnoreMatcher', () => {
+  function matcher(content: string): IgnoreMatcher {
+    const result = new IgnoreMatcher([]);
+    result.add(content);
+    return result;
+  }
+
+  it('matches names at any depth and does not match substrings', () => {
+    const m = matcher('env\n*.log\n');
+
+    assert.equal(m.ignores('env', true), true);
+    assert.equal(m.ignores('services/api/env', true), true);
+    assert.equal(m.ignores('src/environment.ts', false), false);
+    assert.equal(m.ignores('logs/app.log', false), true);
+    assert.equal(m.ignores('app.log.ts', false), false);
+  });
+
+  it('anchors patterns containing a slash', () => {
+    const m = matcher('/build\nconfig/local.json\n');
+
+    assert.equal(m.ignores('build', true), true);
+    assert.equal(m.ignores('packages/app/build', true), false);
+    assert.equal(m.ignores('config/local.json', false), true);
+    assert.equal(m.ignores('src/config/local.json', false), false);
+  });
+
+  it('applies directory-only patterns to directories', () => {
+    const m = matcher('cache/\n');
+
+    assert.equal(m.ignores('cache', true), true);
+    assert.equal(m.ignores('src/cache', true), true);
+    assert.equal(m.ignores('cache', false), false);
+  });
+
+  it('supports ** globs', () => {
+    const m = matcher('**/fixtures/*.json\ndocs/**\na/**/z\n');
+
+    assert.equal(m.ignores('fixtures/user.json', false), true);
+    assert.equal(m.ignores('test/unit/fixtures/user.json', false), true);
+    assert.equal(m.ignores('test/unit/fixtures/nested/user.json', false), false);
+    assert.equal(m.ignores('docs', true), false);
+    assert.equal(m.ignores('docs/guide/intro.md', false), true);
+    assert.equal(m.ignores('a/z', false), true);
+    assert.equal(m.ignores('a/b/c/z', false), true);
+  });
+
+  it('lets a later negation re-include a path', () => {
+    const m = matcher('*.json\n!package.json\n');
+
+    assert.equal(m.ignores('data.json', false), true);
+    assert.equal(m.ignores('package.json', false), false);
+    assert.equal(m.ignores('apps/web/package.json', false), false);
+  });
+
+  it('handles ?, character classes and escapes', () => {
+    const m = matcher('file?.txt\nlog[0-9].txt\n\\#notes\n\\!important\nspace\\ \n');
+
+    assert.equal(m.ignores('file1.txt', false), true);
+    assert.equal(m.ignores('file12.txt', false), false);
+    assert.equal(m.ignores('log7.txt', false), true);
+    assert.equal(m.ignores('logx.txt', false), false);
+    assert.equal(m.ignores('#notes', false), true);
+    assert.equal(m.ignores('!important', false), true);
+    assert.equal(m.ignores('space ', false), true);
+  });
+
+  it('scopes rules to the directory of their ignore file', () => {
+    const m = new IgnoreMatcher([]);
+    m.add('*.tmp\n');
+    m.add('!keep.tmp\n/generated\n', 'packages/app');
+
+    assert.equal(m.ignores('keep.tmp', false), true);
+    assert.equal(m.ignores('packages/app/keep.tmp', false), false);
+    assert.equal(m.ignores('packages/app/other.tmp', false), true);
+    assert.equal(m.ignores('packages/app/generated', true), true);
+    assert.equal(m.ignores('generated', true), false);
+  });
+});
+
+describe('SourcePackager.scan', () => {
+  let root: string;
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function write(files: Record<string, string>): void {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-packager-'));
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    }
+  }
+
+  async function collect(): Promise<string[]> {
+    const { files } = await new SourcePackager().scan(root);
+    return files.map(file => file.name).sort();
+  }
+
+  it('honours default excludes, nested .gitignore files and .lightcloudignore', async () => {
+    write({
+      '.gitignore': 'coverage/\n*.secret\n',
+      '.lightcloudignore': 'docs/\n!dist/\n',
+      'package.json': '{}',
+      'src/environment.ts': '',
+      'src/api.secret': '',
+      'node_modules/react/index.js': '',
+      'dist/index.html': '',
+      'docs/readme.md': '',
+      'coverage/lcov.info': '',
+      '.env': 'API_KEY=1',
+      'packages/web/.gitignore': '/generated\n!public.secret\n',
+      'packages/web/generated/types.ts': '',
+      'packages/web/public.secret': '',
+      'packages/web/src/generated/keep.ts': '',
+    });
+
+    assert.deepEqual(await collect(), [
+      '.gitignore',
+      '.lightcloudignore',
+      'dist/index.html',
+      'package.json',
+      'packages/web/.gitignore',
+      'packages/web/public.secret',
+      'packages/web/src/generated/keep.ts',
+      'src/environment.ts',
+    ]);
+  });
+
+  it('cannot re-include a file inside an excluded directory', async () => {
+    write({
+      '.gitignore': 'private/\n!private/readme.md\n',
+      'private/readme.md': '',
+      'index.js': '',
+    });
+
+    assert.deepEqual(await collect(), ['.gitignore', 'index.js']);
+  });
+});
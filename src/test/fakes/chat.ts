@@ -0,0 +1,83 @@
+// src/test/fakes/chat.ts
+
+import * as vscode from 'vscode';
+
+export type StreamPart =
+  | { kind: 'markdown'; value: string }
+  | { kind: 'progress'; value: string }
+  | { kind: 'button'; command: vscode.Command }
+  | { kind: 'other'; value: unknown };
+
+/**
+ * Records everything a command writes to the chat response
+ */
+export class FakeChatResponseStream {
+  readonly parts: StreamPart[] = [];
+
+  markdown(value: string | vscode.MarkdownString): void {
+    this.parts.push({ kind: 'markdown', value: typeof value === 'string' ? value : value.value });
+  }
+
+  progress(value: string): void {
+    this.parts.push({ kind: 'progress', value });
+  }
+
+  button(command: vscode.Command): void {
+    this.parts.push({ kind: 'button', command });
+  }
+
+  anchor(value: unknown): void {
+    this.parts.push({ kind: 'other', value });
+  }
+
+  reference(value: unknown): void {
+    this.parts.push({ kind: 'other', value });
+  }
+
+  filetree(value: unknown): void {
+    this.parts.push({ kind: 'other', value });
+  }
+
+  push(value: unknown): void {
+    this.parts.push({ kind: 'other', value });
+  }
+
+  /** All markdown written so far, concatenated */
+  get text(): string {
+    return this.parts
+      .filter((part): part is { kind: 'markdown'; value: string } => part.kind === 'markdown')
+      .map(part => part.value)
+      .join('');
+  }
+
+  get buttons(): vscode.Command[] {
+    return this.parts
+      .filter((part): part is { kind: 'button'; command: vscode.Command } => part.kind === 'button')
+      .map(part => part.command);
+  }
+
+  get progressMessages(): string[] {
+    return this.parts
+      .filter((part): part is { kind: 'progress'; value: string } => part.kind === 'progress')
+      .map(part => part.value);
+  }
+
+  asStream(): vscode.ChatResponseStream {
+    return this as unknown as vscode.ChatResponseStream;
+  }
+}
+
+export function createChatRequest(command: string | undefined, prompt = ''): vscode.ChatRequest {
+  return {
+    command,
+    prompt,
+    references: [],
+    toolReferences: [],
+    toolInvocationToken: undefined,
+    model: undefined,
+  } as unknown as vscode.ChatRequest;
+}
+
+export function createChatContext(): vscode.ChatContext {
+  return { history: [] } as unknown as vscode.ChatContext;
+}
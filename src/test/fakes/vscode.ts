@@ -0,0 +1,319 @@
+// src/test/fakes/vscode.ts
+//
+// Minimal stand-in for the `vscode` module, aliased in by the test build.
+// Covers the API surface the chat participant and its commands touch;
+// UI prompts are answered from queues set up by each test through `fake`.
+
+import * as path from 'path';
+
+interface Disposable {
+  dispose(): void;
+}
+
+const noopDisposable: Disposable = { dispose: () => {} };
+
+/**
+ * Test controls and recorded side effects
+ */
+export const fake = {
+  settings: new Map<string, unknown>(),
+  /** Messages shown via showInformationMessage / showWarningMessage / showErrorMessage */
+  messages: [] as { level: 'info' | 'warning' | 'error'; message: string }[],
+  openedUrls: [] as string[],
+  executedCommands: [] as { command: string; args: unknown[] }[],
+  /** Answers returned, in order, by message prompts that offer actions */
+  messageAnswers: [] as (string | undefined)[],
+  /** Answers returned, in order, by showQuickPick (matched by label) */
+  quickPickAnswers: [] as (string | string[] | undefined)[],
+  inputBoxAnswers: [] as (string | undefined)[],
+  outputChannels: new Map<string, string[]>(),
+  onOpenExternal: undefined as ((uri: Uri) => void | Promise<void>) | undefined,
+
+  reset(): void {
+    this.settings.clear();
+    this.messages = [];
+    this.openedUrls = [];
+    this.executedCommands = [];
+    this.messageAnswers = [];
+    this.quickPickAnswers = [];
+    this.inputBoxAnswers = [];
+    // Channels are created once per module, so keep them and drop their contents
+    this.outputChannels.forEach(lines => { lines.length = 0; });
+    this.onOpenExternal = undefined;
+    workspace.workspaceFolders = undefined;
+  },
+};
+
+// ============ Core Types ============
+
+export class Uri {
+  private constructor(
+    readonly scheme: string,
+    readonly authority: string,
+    readonly path: string,
+    readonly query: string,
+    readonly fragment: string
+  ) {}
+
+  get fsPath(): string {
+    return this.path;
+  }
+
+  static parse(value: string): Uri {
+    const match = value.match(/^([^:/?#]+):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/);
+    if (!match) {
+      throw new Error(`Invalid URI: ${value}`);
+    }
+    return new Uri(match[1], match[2] || '', match[3] || '', match[4] || '', match[5] || '');
+  }
+
+  static file(fsPath: string): Uri {
+    return new Uri('file', '', fsPath, '', '');
+  }
+
+  static from(components: { scheme: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+    return new Uri(components.scheme, components.authority || '', components.path || '', components.query || '', components.fragment || '');
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(base.scheme, base.authority, path.posix.join(base.path, ...segments), base.query, base.fragment);
+  }
+
+  toString(): string {
+    const authority = this.scheme === 'file' || this.authority ? `//${this.authority}` : '';
+    return `${this.scheme}:${authority}${this.path}${this.query ? `?${this.query}` : ''}${this.fragment ? `#${this.fragment}` : ''}`;
+  }
+}
+
+export interface CancellationToken {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): Disposable;
+}
+
+export class CancellationTokenSource {
+  readonly token: CancellationToken;
+  private listeners = new Set<() => void>();
+  private cancelled = false;
+
+  constructor() {
+    const listeners = this.listeners;
+    const isCancelled = () => this.cancelled;
+    this.token = {
+      get isCancellationRequested() {
+        return isCancelled();
+      },
+      onCancellationRequested(listener: () => void): Disposable {
+        listeners.add(listener);
+        return { dispose: () => listeners.delete(listener) };
+      },
+    };
+  }
+
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    [...this.listeners].forEach(listener => listener());
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners = new Set<(value: T) => void>();
+
+  readonly event = (listener: (value: T) => void): Disposable => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+
+  fire(value: T): void {
+    [...this.listeners].forEach(listener => listener(value));
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class MarkdownString {
+  isTrusted?: boolean | { enabledCommands: string[] };
+
+  constructor(public value = '', public supportThemeIcons = false) {}
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+
+  appendText(value: string): MarkdownString {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&');
+    return this;
+  }
+}
+
+/**
+ * In-memory `ExtensionContext.globalState`
+ */
+export class Memento {
+  private values = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  keys(): readonly string[] {
+    return [...this.values.keys()];
+  }
+}
+
+export enum ProgressLocation {
+  SourceControl = 1,
+  Window = 10,
+  Notification = 15,
+}
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+// ============ Namespaces ============
+
+class OutputChannel {
+  constructor(readonly name: string, private lines: string[]) {}
+
+  append(value: string): void {
+    this.lines.push(value);
+  }
+
+  appendLine(value: string): void {
+    this.lines.push(value);
+  }
+
+  clear(): void {
+    this.lines.length = 0;
+  }
+
+  show(): void {}
+  hide(): void {}
+  dispose(): void {}
+}
+
+function showMessage(level: 'info' | 'warning' | 'error') {
+  return async (message: string, ...items: unknown[]): Promise<string | undefined> => {
+    fake.messages.push({ level, message });
+    const actions = items.filter(item => typeof item === 'string');
+    return actions.length > 0 ? fake.messageAnswers.shift() : undefined;
+  };
+}
+
+export const workspace = {
+  workspaceFolders: undefined as { uri: Uri; name: string; index: number }[] | undefined,
+
+  getConfiguration(section?: string) {
+    const key = (name: string) => section ? `${section}.${name}` : name;
+    return {
+      get<T>(name: string, defaultValue?: T): T | undefined {
+        return fake.settings.has(key(name)) ? fake.settings.get(key(name)) as T : defaultValue;
+      },
+      has(name: string): boolean {
+        return fake.settings.has(key(name));
+      },
+      async update(name: string, value: unknown): Promise<void> {
+        fake.settings.set(key(name), value);
+      },
+    };
+  },
+
+  async openTextDocument(uri: Uri) {
+    return { uri, languageId: 'plaintext' };
+  },
+
+  registerTextDocumentContentProvider(): Disposable {
+    return noopDisposable;
+  },
+};
+
+export const window = {
+  showInformationMessage: showMessage('info'),
+  showWarningMessage: showMessage('warning'),
+  showErrorMessage: showMessage('error'),
+
+  async showQuickPick<T extends { label: string }>(items: readonly T[] | Promise<readonly T[]>, options?: { canPickMany?: boolean }) {
+    const answer = fake.quickPickAnswers.shift();
+    const resolved = await items;
+    if (answer === undefined) return undefined;
+    if (options?.canPickMany) {
+      const labels = Array.isArray(answer) ? answer : [answer];
+      return resolved.filter(item => labels.includes(item.label));
+    }
+    return resolved.find(item => item.label === answer);
+  },
+
+  async showInputBox(): Promise<string | undefined> {
+    return fake.inputBoxAnswers.shift();
+  },
+
+  async withProgress<R>(
+    _options: unknown,
+    task: (progress: { report(value: unknown): void }, token: CancellationToken) => Promise<R>
+  ): Promise<R> {
+    const source = new CancellationTokenSource();
+    try {
+      return await task({ report: () => {} }, source.token);
+    } finally {
+      source.dispose();
+    }
+  },
+
+  createOutputChannel(name: string): OutputChannel {
+    const lines = fake.outputChannels.get(name) || [];
+    fake.outputChannels.set(name, lines);
+    return new OutputChannel(name, lines);
+  },
+
+  async showTextDocument(document: unknown) {
+    return { document };
+  },
+
+  registerUriHandler(): Disposable {
+    return noopDisposable;
+  },
+};
+
+export const env = {
+  async openExternal(uri: Uri): Promise<boolean> {
+    fake.openedUrls.push(uri.toString());
+    await fake.onOpenExternal?.(uri);
+    return true;
+  },
+};
+
+export const commands = {
+  registerCommand(): Disposable {
+    return noopDisposable;
+  },
+
+  async executeCommand(command: string, ...args: unknown[]): Promise<void> {
+    fake.executedCommands.push({ command, args });
+  },
+};
+
+export const languages = {
+  async setTextDocumentLanguage<T>(document: T): Promise<T> {
+    return document;
+  },
+};
+
+export const chat = {
+  createChatParticipant(id: string) {
+    return { id, iconPath: undefined as unknown, dispose: () => {} };
+  },
+};
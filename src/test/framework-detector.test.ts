@@ -0,0 +1,184 @@
+// src/test/framework-detector.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { Uri } from './fakes/vscode';
+import { FrameworkDetector } from '../detection/framework-detector';
+import { Evidence, FrameworkRegistry } from '../detection/framework-registry';
+import { DetectedProject } from '../api/types';
+
+describe('FrameworkDetector', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    fs.rmSync(root!, { recursive: true, force: true });
+    root = undefined;
+  });
+
+  async function detect(files: Record<string, string>, detector = new FrameworkDetector()): Promise<DetectedProject> {
+    if (root) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-framework-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return detector.detect({ uri: Uri.file(root), name: 'app', index: 0 } as unknown as vscode.WorkspaceFolder);
+  }
+
+  function packageJson(dependencies: Record<string, string>, scripts?: Record<string, string>): string {
+    return JSON.stringify({ dependencies, scripts });
+  }
+
+  it('prefers a meta-framework over the library it builds on', async () => {
+    const detected = await detect({
+      'package.json': packageJson({ nuxt: '^3.0.0', vue: '^3.0.0' }),
+      'nuxt.config.ts': '',
+    });
+
+    assert.equal(detected.framework, 'nuxt');
+    assert.equal(detected.deploymentType, 'container');
+    assert.equal(detected.startCommand, 'node .output/server/index.mjs');
+    assert.equal(detected.confidence, 0.9);
+    assert.deepEqual(detected.evidence, ['`nuxt` dependency', '`nuxt.config.ts`']);
+    assert.equal(detected.alternatives, undefined);
+  });
+
+  it('follows the adapter for SvelteKit and Astro', async () => {
+    const sveltekit = await detect({ 'package.json': packageJson({ '@sveltejs/kit': '^2', '@sveltejs/adapter-static': '^3', svelte: '^4' }) });
+    assert.equal(sveltekit.framework, 'sveltekit');
+    assert.equal(sveltekit.deploymentType, 'static');
+    assert.equal(sveltekit.outputDirectory, 'build');
+
+    const astro = await detect({ 'package.json': packageJson({ astro: '^4', '@astrojs/node': '^8' }) });
+    assert.equal(astro.framework, 'astro');
+    assert.equal(astro.deploymentType, 'container');
+  });
+
+  it('finds the Django project module instead of a placeholder', async () => {
+    const detected = await detect({
+      'requirements.txt': 'Django==5.0\npsycopg2-binary>=2.9\n',
+      'manage.py': "os.environ.setdefault('DJANGO_SETTINGS_MODULE', 'shop.settings')\n",
+      'shop/wsgi.py': '',
+    });
+
+    assert.equal(detected.framework, 'django');
+    assert.equal(detected.startCommand, 'gunicorn shop.wsgi --bind 0.0.0.0:$PORT');
+    assert.deepEqual(detected.detectedDependencies, ['postgresql']);
+  });
+
+  it('reads FastAPI from pyproject.toml', async () => {
+    const detected = await detect({
+      'pyproject.toml': '[project]\nname = "api"\ndependencies = ["fastapi>=0.110", "uvicorn[standard]"]\n',
+      'app/main.py': 'app = FastAPI()\n',
+    });
+
+    assert.equal(detected.framework, 'fastapi');
+    assert.equal(detected.startCommand, 'uvicorn app.main:app --host 0.0.0.0 --port $PORT');
+  });
+
+  it('detects Rails, Laravel, Spring Boot and .NET', async () => {
+    const cases: [Record<string, string>, string, string][] = [
+      [{ Gemfile: "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\n", 'config/application.rb': '' }, 'rails', 'ruby'],
+      [{ 'composer.json': '{"require": {"laravel/framework": "^11.0"}}', artisan: '' }, 'laravel', 'php'],
+      [{ 'pom.xml': '<artifactId>spring-boot-starter-web</artifactId>', mvnw: '' }, 'springboot', 'java'],
+      [{ 'Api.csproj': '<Project Sdk="Microsoft.NET.Sdk.Web"></Project>' }, 'dotnet', 'dotnet'],
+    ];
+
+    for (const [files, framework, runtime] of cases) {
+      const detected = await detect(files);
+      assert.equal(detected.framework, framework);
+      assert.equal(detected.runtime, runtime);
+      assert.equal(detected.deploymentType, 'container');
+    }
+  });
+
+  it('reports frameworks that match almost as well as alternatives', async () => {
+    const detected = await detect({ 'package.json': packageJson({ express: '^4', fastify: '^4' }, { start: 'node server.js' }) });
+
+    assert.equal(detected.framework, 'express');
+    assert.equal(detected.startCommand, 'npm start');
+    assert.deepEqual(detected.alternatives, [
+      { framework: 'fastify', runtime: 'nodejs', confidence: 0.9, evidence: ['`fastify` dependency', '`start` script'] },
+    ]);
+  });
+
+  it('builds and starts with the package manager of the lockfile', async () => {
+    const detected = await detect({
+      'package.json': packageJson({ next: '^14' }, { build: 'next build', start: 'next start' }),
+      'pnpm-lock.yaml': '',
+    });
+
+    assert.equal(detected.packageManager, 'pnpm');
+    assert.equal(detected.installCommand, 'pnpm install --frozen-lockfile');
+    assert.equal(detected.buildCommand, 'pnpm run build');
+    assert.equal(detected.startCommand, 'pnpm run start');
+  });
+
+  it('only runs build scripts the project defines', async () => {
+    const server = await detect({
+      'package.json': packageJson({ express: '^4' }, { start: 'node server.js' }),
+      'yarn.lock': '',
+      '.yarnrc.yml': '',
+    });
+    assert.equal(server.installCommand, 'yarn install --immutable');
+    assert.equal(server.buildCommand, undefined);
+    assert.equal(server.startCommand, 'yarn start');
+
+    const vite = await detect({ 'package.json': packageJson({ react: '^18', vite: '^5' }), 'bun.lockb': '' });
+    assert.equal(vite.buildCommand, 'bunx vite build');
+  });
+
+  it('finds the lockfile of a monorepo at the repository root', async () => {
+    await detect({
+      '.git/HEAD': '',
+      'package-lock.json': '{}',
+      'apps/web/package.json': packageJson({ react: '^18' }, { build: 'vite build' }),
+    });
+    const detected = await new FrameworkDetector().detect(
+      { uri: Uri.file(path.join(root!, 'apps/web')), name: 'app', index: 0 } as unknown as vscode.WorkspaceFolder
+    );
+
+    assert.equal(detected.installCommand, 'npm ci');
+    assert.equal(detected.buildCommand, 'npm run build');
+  });
+
+  it('runs Python commands through Poetry, uv and Pipenv', async () => {
+    const poetry = await detect({
+      'pyproject.toml': '[tool.poetry.dependencies]\nflask = "^3.0"\n',
+      'poetry.lock': '',
+    });
+    assert.equal(poetry.packageManager, 'poetry');
+    assert.equal(poetry.startCommand, 'poetry run gunicorn app:app --bind 0.0.0.0:$PORT');
+
+    const uv = await detect({ 'pyproject.toml': '[project]\ndependencies = ["fastapi"]\n', 'uv.lock': '' });
+    assert.equal(uv.installCommand, 'uv sync --frozen --no-dev');
+    assert.equal(uv.startCommand, 'uv run uvicorn main:app --host 0.0.0.0 --port $PORT');
+
+    const pipenv = await detect({ Pipfile: '[packages]\ndjango = "*"\n', 'Pipfile.lock': '{}' });
+    assert.equal(pipenv.installCommand, 'pipenv install --deploy');
+    assert.equal(pipenv.buildCommand, 'pipenv run python manage.py collectstatic --noinput');
+  });
+
+  it('accepts registered plugins', async () => {
+    const registry = new FrameworkRegistry();
+    registry.register({
+      framework: 'html',
+      name: 'HTML',
+      detect: files => ({
+        evidence: new Evidence(files).fileContaining('index.html', /<h1>/, 'Markup'),
+        runtime: 'custom',
+        deploymentType: 'static',
+        outputDirectory: '.',
+      }),
+    });
+    const detected = await detect({ 'index.html': '<h1>Hi</h1>' }, new FrameworkDetector(registry));
+
+    assert.equal(detected.framework, 'html');
+  });
+});
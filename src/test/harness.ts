@@ -0,0 +1,170 @@
+// src/test/harness.ts
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { LightCloudParticipant } from '../participant';
+import { AuthCommands } from '../commands/auth';
+import { MockServer } from '../mock-server/server';
+import { MockScenario } from '../mock-server/state';
+import { fake, workspace, Uri, CancellationTokenSource, Memento } from './fakes/vscode';
+import { FakeChatResponseStream, createChatRequest, createChatContext } from './fakes/chat';
+
+export interface HarnessOptions {
+  scenario?: MockScenario;
+  /** Start with a valid session in secret storage (default true) */
+  loggedIn?: boolean;
+  /** How the browser login triggered by the participant resolves (default `deny`) */
+  login?: 'approve' | 'deny';
+  /** Open a workspace folder, optionally seeded with files (default true) */
+  workspace?: boolean | Record<string, string>;
+}
+
+export interface RunResult {
+  result: vscode.ChatResult;
+  stream: FakeChatResponseStream;
+}
+
+/**
+ * Drives `LightCloudParticipant.handleRequest` against a fresh mock server,
+ * with fake chat objects and a throwaway workspace folder.
+ */
+export class ParticipantHarness {
+  readonly server: MockServer;
+  workspaceRoot?: string;
+  private participant!: LightCloudParticipant;
+  private secrets = new Map<string, string>();
+
+  private constructor(private options: HarnessOptions) {
+    this.server = new MockServer({ scenario: options.scenario, buildStepDelayMs: null });
+  }
+
+  static async start(options: HarnessOptions = {}): Promise<ParticipantHarness> {
+    const harness = new ParticipantHarness(options);
+    await harness.setUp();
+    return harness;
+  }
+
+  get organisationId(): string {
+    return this.server.state.user.organisations[0].id;
+  }
+
+  /**
+   * Send a chat request, e.g. `run('status')` for `@lightcloud /status`
+   */
+  async run(command: string | undefined, prompt = '', token?: vscode.CancellationToken): Promise<RunResult> {
+    const stream = new FakeChatResponseStream();
+    const source = new CancellationTokenSource();
+    const result = await this.participant.handleRequest(
+      createChatRequest(command, prompt),
+      createChatContext(),
+      stream.asStream(),
+      token || source.token as unknown as vscode.CancellationToken
+    );
+    source.dispose();
+    return { result, stream };
+  }
+
+  /**
+   * Write the `.lightcloud` and `.lightcloud.local` files linking the workspace
+   * (or an app directory in it) to an application in the mock state
+   */
+  link(applicationName: string, environmentName = 'production', directory = ''): void {
+    const app = [...this.server.state.applications.values()].find(a => a.name === applicationName);
+    const env = app && this.server.state.environmentsFor(app.id).find(e => e.name === environmentName);
+    if (!app || !env || !this.workspaceRoot) {
+      throw new Error(`Cannot link ${applicationName}/${environmentName}`);
+    }
+
+    this.writeFile(path.join(directory, '.lightcloud'), JSON.stringify({
+      version: 2,
+      applicationId: app.id,
+      applicationName: app.name,
+      environmentId: env.id,
+      environmentName: env.name,
+      deploymentType: app.deployment_type,
+    }, null, 2) + '\n');
+    this.writeFile(path.join(directory, '.lightcloud.local'), JSON.stringify({ organisationId: app.organisationId }, null, 2) + '\n');
+  }
+
+  writeFile(relativePath: string, content: string): void {
+    const filePath = path.join(this.workspaceRoot!, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  readFile(relativePath: string): string | undefined {
+    const filePath = path.join(this.workspaceRoot!, relativePath);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+  }
+
+  async stop(): Promise<void> {
+    await this.server.stop();
+    if (this.workspaceRoot) {
+      fs.rmSync(this.workspaceRoot, { recursive: true, force: true });
+    }
+    fake.reset();
+  }
+
+  private async setUp(): Promise<void> {
+    const url = await this.server.start();
+
+    fake.reset();
+    fake.settings.set('lightcloud.apiEndpoint', url);
+    fake.settings.set('lightcloud.consoleUrl', url);
+    fake.settings.set('lightcloud.maxRetries', 0);
+    fake.settings.set('lightcloud.requestTimeoutSeconds', 5);
+    fake.onOpenExternal = (uri) => {
+      // The participant starts waiting for the callback once the browser has opened
+      if (uri.path === '/auth/vscode') {
+        setTimeout(() => this.completeBrowserLogin(uri), 0);
+      }
+    };
+
+    if (this.options.workspace !== false) {
+      this.workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-test-'));
+      workspace.workspaceFolders = [{ uri: Uri.file(this.workspaceRoot), name: path.basename(this.workspaceRoot), index: 0 }];
+      if (typeof this.options.workspace === 'object') {
+        for (const [file, content] of Object.entries(this.options.workspace)) {
+          this.writeFile(file, content);
+        }
+      }
+    }
+
+    if (this.options.loggedIn !== false) {
+      this.secrets.set('lightcloud.authToken', this.server.state.accessToken);
+      this.secrets.set('lightcloud.refreshToken', this.server.state.refreshToken);
+    }
+
+    const context = {
+      subscriptions: [],
+      extensionUri: Uri.file(process.cwd()),
+      secrets: {
+        get: async (key: string) => this.secrets.get(key),
+        store: async (key: string, value: string) => { this.secrets.set(key, value); },
+        delete: async (key: string) => { this.secrets.delete(key); },
+        onDidChange: () => ({ dispose: () => {} }),
+      },
+      globalState: new Memento(),
+      workspaceState: new Memento(),
+    } as unknown as vscode.ExtensionContext;
+
+    this.participant = new LightCloudParticipant(context);
+  }
+
+  /**
+   * Follow the mock console's redirect back to VS Code, or deny the login
+   */
+  private async completeBrowserLogin(uri: Uri): Promise<void> {
+    const state = new URLSearchParams(uri.query).get('state') || '';
+
+    let callback = `vscode://lightcloud.lightcloud-copilot/auth-callback?error=access_denied&state=${state}`;
+    if (this.options.login === 'approve') {
+      const response = await fetch(uri.toString(), { redirect: 'manual' });
+      callback = response.headers.get('location') || callback;
+    }
+
+    AuthCommands.handleAuthCallback(Uri.parse(callback) as unknown as vscode.Uri);
+  }
+}
@@ -0,0 +1,75 @@
+// src/test/manifest.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LightCloudManifest, ManifestSettings, readManifest, resolveEnv, settingsFor, validateManifest } from '../utils/manifest';
+
+describe('lightcloud.json', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) {
+      fs.rmSync(root, { recursive: true, force: true });
+      root = undefined;
+    }
+  });
+
+  function directory(files: Record<string, string>): string {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-manifest-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return root;
+  }
+
+  it('reports unknown settings, wrong types and unsupported versions', () => {
+    assert.deepEqual(validateManifest({ version: 2, buildCmd: 'make', port: 0, env: { 'BAD-NAME': 'x' } }), [
+      '`version` 2 is not supported; this extension reads version 1',
+      '`buildCmd` is not a known setting',
+      '`port` must be an integer from 1 to 65535',
+      '`env` has an invalid entry "BAD-NAME" (names are letters, digits and _, values are strings)',
+    ]);
+    assert.deepEqual(validateManifest({ $schema: './schema.json', version: 1, cpu: 0.5 }), []);
+  });
+
+  it('layers environment overrides on the top-level settings', () => {
+    const manifest = readManifest(directory({
+      'lightcloud.json': JSON.stringify({
+        version: 1,
+        memory: '512Mi',
+        cpu: 1,
+        env: { LOG_LEVEL: 'info', REGION: 'eu' },
+        environments: { staging: { memory: '256Mi', env: { LOG_LEVEL: 'debug' } } },
+      }),
+    })) as LightCloudManifest;
+
+    assert.deepEqual(settingsFor(manifest, 'staging'), { memory: '256Mi', cpu: '1', env: { LOG_LEVEL: 'debug', REGION: 'eu' } });
+    assert.deepEqual(settingsFor(manifest, 'production'), { memory: '512Mi', cpu: '1', env: { LOG_LEVEL: 'info', REGION: 'eu' } });
+  });
+
+  it('resolves variable references from .env and leaves out unresolved ones', () => {
+    const rootPath = directory({ '.env': 'DB_PASSWORD=hunter2\n' });
+    const settings: ManifestSettings = {
+      env: { DATABASE_URL: 'postgres://app:${DB_PASSWORD}@db/app', SENTRY_DSN: '${UNSET_SENTRY_DSN_FOR_TEST}' },
+    };
+
+    assert.deepEqual(resolveEnv(settings, rootPath), {
+      variables: { DATABASE_URL: 'postgres://app:hunter2@db/app' },
+      missing: ['UNSET_SENTRY_DSN_FOR_TEST'],
+    });
+  });
+
+  it('validates the same settings the JSON schema declares', () => {
+    const schema = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../resources/lightcloud.schema.json'), 'utf-8'));
+    const example: Record<string, unknown> = {
+      $schema: '', version: 1, name: 'app', installCommand: 'npm ci', buildCommand: 'npm run build', startCommand: 'npm start',
+      outputDirectory: 'dist', port: 3000, memory: '1Gi', cpu: '1', region: 'us-central1', env: {}, environments: {},
+    };
+
+    assert.deepEqual(Object.keys(schema.properties).sort(), Object.keys(example).sort());
+    assert.deepEqual(validateManifest(example), []);
+  });
+});
@@ -0,0 +1,1270 @@
+// src/test/participant.test.ts
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { ParticipantHarness, HarnessOptions } from './harness';
+import { fake, CancellationTokenSource } from './fakes/vscode';
+import { excludeFromUploads } from '../upload/excludes';
+
+const DEMO_SCENARIO = {
+  applications: [{ name: 'Demo App', framework: 'react', deployment_type: 'static' as const, source_type: 'github' as const }],
+};
+
+// A React app whose lightcloud.json sets resources and a variable
+const LINKED_WORKSPACE = {
+  'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, scripts: { build: 'vite build' } }),
+  'lightcloud.json': JSON.stringify({ version: 1, memory: '1Gi', env: { FEATURE_FLAGS: 'beta' } }),
+};
+
+describe('LightCloudParticipant', () => {
+  let harness: ParticipantHarness;
+
+  async function start(options: HarnessOptions = {}): Promise<ParticipantHarness> {
+    harness = await ParticipantHarness.start({ scenario: DEMO_SCENARIO, ...options });
+    return harness;
+  }
+
+  afterEach(async () => {
+    await harness?.stop();
+  });
+
+  // ============ Authentication ============
+
+  describe('authentication', () => {
+    it('asks for login and offers a retry when the browser login is denied', async () => {
+      await start({ loggedIn: false, login: 'deny' });
+
+      const { result, stream } = await harness.run('status');
+
+      assert.deepEqual(result.metadata, { command: 'login-required' });
+      assert.match(stream.text, /Authentication required/);
+      assert.match(stream.text, /Login was cancelled or failed/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.login']);
+      assert.ok(fake.openedUrls.some(url => url.includes('/auth/vscode?state=')));
+    });
+
+    it('continues with the command once the browser login succeeds', async () => {
+      await start({ loggedIn: false, login: 'approve' });
+
+      const { result, stream } = await harness.run('list');
+
+      assert.match(stream.text, /Logged in successfully/);
+      assert.equal(result.metadata?.command, 'list');
+      assert.equal(result.metadata?.status, 'success');
+    });
+
+    it('refreshes an expired access token without prompting', async () => {
+      await start();
+      harness.server.state.accessToken = 'expired';
+
+      const { result, stream } = await harness.run('list');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.doesNotMatch(stream.text, /Authentication required/);
+      assert.equal(fake.openedUrls.length, 0);
+    });
+
+    it('/login reports an existing session', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('login');
+
+      assert.deepEqual(result.metadata, { command: 'login', status: 'already-logged-in' });
+      assert.match(stream.text, /already logged in as \*\*dev@example\.com\*\*/);
+    });
+
+    it('/logout signs out, and a second /logout says so', async () => {
+      await start();
+
+      const first = await harness.run('logout');
+      assert.deepEqual(first.result.metadata, { command: 'logout', status: 'success' });
+
+      const second = await harness.run('logout');
+      assert.deepEqual(second.result.metadata, { command: 'logout', status: 'not-logged-in' });
+    });
+  });
+
+  // ============ Workspace ============
+
+  describe('workspace', () => {
+    for (const command of ['deploy', 'plan']) {
+      it(`/${command} requires an open folder`, async () => {
+        await start({ workspace: false });
+
+        const { result, stream } = await harness.run(command);
+
+        assert.deepEqual(result.metadata, { command: 'no-workspace' });
+        assert.match(stream.text, /Please open a project folder/);
+      });
+    }
+
+    it('/status works without a folder', async () => {
+      await start({ workspace: false });
+
+      const { result } = await harness.run('status');
+
+      assert.equal(result.metadata?.status, 'success');
+    });
+  });
+
+  // ============ Commands ============
+
+  describe('/deploy', () => {
+    it('offers upload for a folder without a GitHub remote', async () => {
+      await start({ workspace: { 'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' } }) } });
+
+      const { result, stream } = await harness.run('deploy');
+
+      assert.equal(result.metadata?.status, 'local-folder');
+      assert.match(stream.text, /No GitHub repository detected/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.uploadAndDeploy', 'lightcloud.connectGitHub']);
+    });
+
+    it('creates the application for a connected GitHub repository and links the workspace', async () => {
+      await start({ workspace: gitWorkspace('mock-user', 'example-app') });
+
+      const { result, stream } = await harness.run('deploy');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.match(stream.text, /Deployment Started/);
+      assert.match(stream.text, /\*\*Application:\*\* example-app/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.redeploy']);
+
+      const config = JSON.parse(harness.readFile('.lightcloud') || '{}');
+      assert.equal(config.applicationId, result.metadata?.applicationId);
+      assert.equal(config.environmentName, 'production');
+    });
+
+    it('reports a failed create', async () => {
+      await start({ workspace: gitWorkspace('mock-user', 'example-app') });
+      harness.server.addFault({ path: '/api/applications/create', status: 400, message: 'Name already taken' });
+
+      const { result, stream } = await harness.run('deploy');
+
+      assert.equal(result.metadata?.status, 'error');
+      assert.match(stream.text, /Deployment failed:\*\* Name already taken/);
+    });
+  });
+
+  describe('/plan', () => {
+    it('previews the detected configuration with a deploy button', async () => {
+      await start({ workspace: { 'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, scripts: { build: 'vite build' } }) } });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.command, 'plan');
+      assert.equal(result.metadata?.status, 'success');
+      assert.equal(result.metadata?.config.detected.framework, 'react');
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.confirmDeploy']);
+    });
+
+    it('flags an ambiguous framework detection', async () => {
+      await start({ workspace: { 'package.json': JSON.stringify({ dependencies: { express: '^4.0.0', hono: '^4.0.0' } }) } });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.config.detected.framework, 'express');
+      assert.match(stream.text, /\*Detected from `express` dependency \(60% confidence\)\*/);
+      assert.match(stream.text, /Ambiguous framework detection/);
+      assert.match(stream.text, /- \*\*Hono\*\* \(60%\): `hono` dependency/);
+    });
+
+    it('takes lightcloud.json settings over detection', async () => {
+      await start({
+        workspace: {
+          'package.json': JSON.stringify({ dependencies: { express: '^4.0.0' }, scripts: { start: 'node server.js' } }),
+          'lightcloud.json': JSON.stringify({
+            version: 1,
+            name: 'shop-api',
+            startCommand: 'node dist/server.js',
+            port: 8080,
+            region: 'europe-west1',
+            env: { NODE_ENV: 'production', API_KEY: '${SHOP_API_KEY}' },
+            environments: { production: { memory: '1Gi' } },
+          }),
+          '.env': 'SHOP_API_KEY=secret\n',
+        },
+      });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.config.detected.startCommand, 'node dist/server.js');
+      assert.deepEqual(result.metadata?.config.settings, {
+        containerPort: 8080,
+        memory: '1Gi',
+        cpu: undefined,
+        region: 'europe-west1',
+        environmentVars: { NODE_ENV: 'production', API_KEY: 'secret' },
+      });
+      assert.match(stream.text, /\+ Application: shop-api will be created/);
+      assert.match(stream.text, /port: 8080\nmemory: 1Gi/);
+      assert.match(stream.text, /\*\*Region:\*\* europe-west1/);
+      assert.equal(stream.buttons[0].arguments?.[0].settings.containerPort, 8080);
+    });
+
+    it('lists every problem in an invalid lightcloud.json', async () => {
+      await start({
+        workspace: { 'lightcloud.json': JSON.stringify({ version: 2, port: '80', environments: { staging: { memory: 'lots' } } }) },
+      });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.status, 'invalid-manifest');
+      assert.match(stream.text, /`lightcloud\.json` has 3 errors/);
+      assert.match(stream.text, /- `environments\.staging\.memory` must be a size like "512Mi" or "1Gi"/);
+      assert.equal(stream.buttons.length, 0);
+    });
+
+    it('pins the newest supported Node.js version the project allows', async () => {
+      await start({ workspace: { 'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, engines: { node: '>=18 <21' } }) } });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.config.detected.runtimeVersion, '20');
+      assert.match(stream.text, /node_version: 20  # package\.json engines\.node: >=18 <21/);
+      assert.doesNotMatch(stream.text, /is not supported/);
+    });
+
+    it('warns when the platform does not support the Node.js version', async () => {
+      await start({ workspace: { 'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' } }), '.nvmrc': 'v16.20.0\n' } });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.config.detected.runtimeVersion, undefined);
+      assert.match(stream.text, /⚠️ \*\*Node\.js `16\.20\.0` is not supported\.\*\* Light Cloud builds with Node\.js 18, 20 or 22/);
+    });
+
+    it('diffs a linked application against the project instead of creating one', async () => {
+      await start({ workspace: LINKED_WORKSPACE });
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      harness.server.state.updateEnvironment(env.id, { build_command: 'npm run build:old', memory: '1Gi' });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.deepEqual(result.metadata, { command: 'plan', status: 'success', changes: 4 });
+      assert.match(stream.text, /What Will Change on Demo App \(production\)/);
+      assert.match(stream.text, /- build_command: npm run build:old\n\+ build_command: npm run build\n/);
+      assert.match(stream.text, /\+ output_directory: build\n/);
+      assert.match(stream.text, /\+ env\.FEATURE_FLAGS: ••••••••\n/);
+      assert.doesNotMatch(stream.text, /[-+] memory:/);
+      assert.doesNotMatch(stream.text, /will be created/);
+      assert.match(stream.text, /Run `\/sync` to apply these changes/);
+      assert.equal(stream.buttons.length, 0);
+    });
+  });
+
+  describe('/status', () => {
+    it('shows each environment of the matching application', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('status', 'demo');
+
+      assert.deepEqual(result.metadata, { command: 'status', status: 'success' });
+      assert.match(stream.text, /## 📊 Application Status/);
+      assert.match(stream.text, /\*\*Demo App\*\*/);
+      assert.match(stream.text, /🔗 \*\*URL:\*\* https:\/\/demo-app\.mock\.light-cloud\.io/);
+      assert.match(stream.text, /\| production \| ✅ healthy \| main \|/);
+      assert.equal(stream.buttons.length, 0);
+    });
+
+    it('offers a redeploy when an environment has failed', async () => {
+      await start({ scenario: { ...DEMO_SCENARIO, failBuilds: true } });
+
+      const { stream } = await harness.run('status');
+
+      assert.match(stream.text, /⚠️ \*\*production\*\* has issues/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.redeploy']);
+    });
+
+    it('uses the application from .lightcloud', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { stream } = await harness.run('status');
+
+      assert.match(stream.text, /Using application from `\.lightcloud` config/);
+    });
+
+    it('reports an unknown application', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('status', 'nope');
+
+      assert.deepEqual(result.metadata, { command: 'status', status: 'not-found' });
+      assert.match(stream.text, /No application found matching "nope"/);
+    });
+
+    it('handles an organisation without applications', async () => {
+      await start({ scenario: {} });
+
+      const { result, stream } = await harness.run('status');
+
+      assert.deepEqual(result.metadata, { command: 'status', status: 'empty' });
+      assert.match(stream.text, /Use `\/deploy` to create your first application/);
+    });
+  });
+
+  describe('/list', () => {
+    it('lists applications', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('list');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.match(stream.text, /Demo App/);
+    });
+
+    it('reports API errors', async () => {
+      await start();
+      harness.server.addFault({ path: '/api/applications', status: 500, message: 'Database unavailable' });
+
+      const { result, stream } = await harness.run('list');
+
+      assert.deepEqual(result.metadata, { command: 'list', status: 'error' });
+      assert.match(stream.text, /Error: Database unavailable/);
+    });
+  });
+
+  describe('/destroy', () => {
+    it('asks what to delete when nothing is linked', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('destroy');
+
+      assert.deepEqual(result.metadata, { command: 'destroy', status: 'missing-target' });
+      assert.match(stream.text, /No `\.lightcloud` config found/);
+      assert.equal(stream.buttons.length, 0);
+    });
+
+    it('confirms deleting the linked application', async () => {
+      await start();
+      harness.link('Demo App');
+      const app = [...harness.server.state.applications.values()][0];
+
+      const { result, stream } = await harness.run('destroy');
+
+      assert.deepEqual(result.metadata, { command: 'destroy', status: 'confirm', target: 'Demo App' });
+      assert.match(stream.text, /```diff\n- Application: Demo App\n/);
+      assert.deepEqual(stream.buttons, [
+        {
+          command: 'lightcloud.confirmDestroy',
+          title: '🗑️ Confirm Delete',
+          arguments: [{
+            type: 'application',
+            id: app.id,
+            name: 'Demo App',
+            organisationId: harness.organisationId,
+            projectPath: harness.workspaceRoot,
+          }],
+        },
+        { command: 'lightcloud.cancel', title: '❌ Cancel' },
+      ]);
+    });
+
+    it('confirms deleting an application by name', async () => {
+      await start();
+
+      const { stream } = await harness.run('destroy', 'demo app --app');
+
+      assert.match(stream.text, /permanently delete the application \*\*Demo App\*\*/);
+      assert.equal(stream.buttons[0].arguments?.[0].type, 'application');
+    });
+
+    it('confirms deleting an environment by name', async () => {
+      await start();
+      const app = [...harness.server.state.applications.values()][0];
+      const staging = harness.server.state.createEnvironment(harness.organisationId, app.id, 'staging', 'develop');
+
+      const { result, stream } = await harness.run('destroy', 'staging');
+
+      assert.deepEqual(result.metadata, { command: 'destroy', status: 'confirm', target: 'staging' });
+      assert.match(stream.text, /permanently delete the \*\*staging\*\* environment/);
+      assert.match(stream.text, /The application \*\*Demo App\*\* and other environments will not be affected/);
+      assert.equal(stream.buttons[0].arguments?.[0].id, staging.id);
+    });
+
+    it('reports an unknown application', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('destroy', 'ghost --app');
+
+      assert.deepEqual(result.metadata, { command: 'destroy', status: 'not-found' });
+      assert.match(stream.text, /Application "ghost" not found/);
+    });
+  });
+
+  describe('/redeploy', () => {
+    it('needs a linked application', async () => {
+      await start();
+
+      const { result } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'no-config' });
+    });
+
+    it('starts a new deployment of the linked environment', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'success' });
+      assert.match(stream.text, /Redeployment Started/);
+      assert.match(stream.text, /\*\*Status:\*\* building/);
+      assert.equal(harness.server.state.deployments.size, 2);
+    });
+
+    it('does not rebuild when the linked application cannot be fetched', async () => {
+      await start();
+      harness.link('Demo App');
+      harness.server.addFault({ path: '/api/applications/get', status: 500, message: 'Database unavailable', times: 5 });
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'error' });
+      assert.match(stream.text, /Could not fetch Demo App:\*\* Database unavailable/);
+      assert.equal(harness.server.state.deployments.size, 1);
+    });
+
+    it('applies lightcloud.json to the linked environment before rebuilding', async () => {
+      await start({
+        workspace: {
+          'lightcloud.json': JSON.stringify({
+            version: 1,
+            buildCommand: 'npm run build:prod',
+            env: { FEATURE_FLAGS: 'beta', TOKEN: '${MISSING_TOKEN_FOR_TEST}' },
+            environments: { production: { cpu: 2 } },
+          }),
+        },
+      });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'success' });
+      assert.match(stream.text, /Applied `lightcloud\.json` settings for \*\*production\*\*/);
+      assert.match(stream.text, /references variables with no local value:\*\* `MISSING_TOKEN_FOR_TEST`/);
+      const env = [...harness.server.state.environments.values()][0];
+      assert.equal(env.build_command, 'npm run build:prod');
+      assert.equal(env.cpu, '2');
+      assert.deepEqual([...harness.server.state.envVars.get(env.id)!.keys()], ['FEATURE_FLAGS']);
+    });
+
+    it('uploads only the changed files of an uploaded application', async () => {
+      await start({
+        scenario: { applications: [{ name: 'Site', deployment_type: 'static' as const, source_type: 'upload' as const }] },
+        workspace: { 'index.html': '<h1>Hi</h1>', 'app.js': 'console.log(1)', 'style.css': 'body {}' },
+      });
+      harness.link('Site');
+
+      const first = await harness.run('redeploy');
+      assert.deepEqual(first.result.metadata, { command: 'redeploy', status: 'success' });
+      assert.match(first.stream.text, /Uploaded 4 files/);
+
+      harness.writeFile('app.js', 'console.log(2)');
+      const second = await harness.run('redeploy');
+
+      // The deploy timestamp is in .lightcloud.local, which is never uploaded
+      assert.deepEqual(second.result.metadata, { command: 'redeploy', status: 'success' });
+      assert.match(second.stream.text, /Uploaded 1 changed of 4 files \(\d+ B of \d+ B, \d+% saved\)/);
+      const upload = harness.server.state.uploads.get('upload-2')!;
+      assert.equal(upload.baseUploadId, 'upload-1');
+      assert.equal(harness.server.state.deployments.size, 3);
+    });
+
+    it('blocks the upload until a file with a secret is excluded', async () => {
+      const token = 'ghp_' + '0123456789abcdefghij'.repeat(2).slice(0, 36);
+      await start({
+        scenario: { applications: [{ name: 'Site', deployment_type: 'static' as const, source_type: 'upload' as const }] },
+        workspace: { 'index.html': '<h1>Hi</h1>', 'deploy.js': `const token = '${token}';\n` },
+      });
+      harness.link('Site');
+
+      const blocked = await harness.run('redeploy');
+
+      assert.deepEqual(blocked.result.metadata, { command: 'redeploy', status: 'secrets-found' });
+      assert.match(blocked.stream.text, /\| `deploy\.js` \| 1 \| GitHub token \|/);
+      assert.doesNotMatch(blocked.stream.text, new RegExp(token));
+      assert.deepEqual(blocked.stream.buttons.map(b => b.command), ['lightcloud.excludeFromUpload', 'lightcloud.acceptSecrets']);
+      assert.equal(harness.server.state.uploads.size, 0);
+
+      const { workspaceFolder, paths } = blocked.stream.buttons[0].arguments![0] as { workspaceFolder: string; paths: string[] };
+      excludeFromUploads(workspaceFolder, paths);
+      const retried = await harness.run('redeploy');
+
+      assert.deepEqual(retried.result.metadata, { command: 'redeploy', status: 'success' });
+      assert.match(retried.stream.text, /Uploaded 3 files/);
+    });
+
+    it('applies lightcloud.json only once the upload went through', async () => {
+      const token = 'ghp_' + '0123456789abcdefghij'.repeat(2).slice(0, 36);
+      await start({
+        scenario: { applications: [{ name: 'Site', deployment_type: 'static' as const, source_type: 'upload' as const }] },
+        workspace: {
+          'index.html': '<h1>Hi</h1>',
+          'deploy.js': `const token = '${token}';\n`,
+          'lightcloud.json': JSON.stringify({ version: 1, buildCommand: 'npm run build:prod', env: { FEATURE_FLAGS: 'beta' } }),
+        },
+      });
+      harness.link('Site');
+
+      const { result } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'secrets-found' });
+      const env = [...harness.server.state.environments.values()][0];
+      assert.notEqual(env.build_command, 'npm run build:prod');
+      assert.equal(harness.server.state.envVars.get(env.id)!.size, 0);
+    });
+
+    it('reports a failed deploy', async () => {
+      await start();
+      harness.link('Demo App');
+      harness.server.addFault({ path: '/api/environments/deploy', status: 409, message: 'A build is already running' });
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'error' });
+      assert.match(stream.text, /Redeployment failed:\*\* A build is already running/);
+    });
+  });
+
+  describe('/sync', () => {
+    it('needs a linked application', async () => {
+      await start({ workspace: LINKED_WORKSPACE });
+
+      const { result } = await harness.run('sync');
+
+      assert.deepEqual(result.metadata, { command: 'sync', status: 'no-config' });
+    });
+
+    it('shows the changes and waits for confirmation', async () => {
+      await start({ workspace: LINKED_WORKSPACE });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('sync');
+
+      assert.deepEqual(result.metadata, { command: 'sync', status: 'confirm', changes: 5 });
+      assert.match(stream.text, /Will apply to Demo App\*\* \(production\)/);
+      assert.match(stream.text, /\+ memory: 1Gi\n/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.confirmSync', 'lightcloud.cancel']);
+      const env = [...harness.server.state.environments.values()][0];
+      assert.deepEqual(stream.buttons[0].arguments?.[0].variables, ['FEATURE_FLAGS']);
+      assert.doesNotMatch(JSON.stringify(stream.buttons[0].arguments), /beta/);
+      assert.equal(stream.buttons[0].arguments?.[0].environmentId, env.id);
+      assert.notEqual(env.memory, '1Gi');
+      assert.equal(harness.server.state.envVars.get(env.id)!.size, 0);
+    });
+
+    it('applies the planned changes with --yes and offers a redeploy', async () => {
+      await start({ workspace: LINKED_WORKSPACE });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('sync', '--yes');
+
+      assert.deepEqual(result.metadata, { command: 'sync', status: 'success', changes: 5 });
+      assert.match(stream.text, /Applied to Demo App\*\* \(production\)/);
+      const env = [...harness.server.state.environments.values()][0];
+      assert.equal(env.install_command, 'npm install');
+      assert.equal(env.build_command, 'npm run build');
+      assert.equal(env.memory, '1Gi');
+      assert.equal(harness.server.state.envVars.get(env.id)!.get('FEATURE_FLAGS')?.value, 'beta');
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.redeploy']);
+
+      const again = await harness.run('plan');
+      assert.equal(again.result.metadata?.changes, 0);
+      assert.match(again.stream.text, /✅ \*\*Demo App\*\* \(production\) already matches this project/);
+    });
+  });
+
+  describe('/preview', () => {
+    const FEATURE_WORKSPACE = { ...gitWorkspace('mock-user', 'example-app'), '.git/HEAD': 'ref: refs/heads/feature/Login\n' };
+
+    it('creates and deploys an environment for the checked-out branch', async () => {
+      await start({ workspace: FEATURE_WORKSPACE });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('preview');
+
+      const env = [...harness.server.state.environments.values()].find(e => e.name === 'preview-feature-login');
+      assert.ok(env);
+      assert.equal(env.github_branch, 'feature/Login');
+      assert.deepEqual(result.metadata, {
+        command: 'preview',
+        status: 'success',
+        environmentId: env.id,
+        created: true,
+        url: 'https://demo-app-preview-feature-login.mock.light-cloud.io',
+      });
+      assert.match(stream.text, /\*\*Environment:\*\* preview-feature-login \(new\)/);
+      assert.match(stream.text, /🔗 \*\*Preview URL:\*\* https:\/\/demo-app-preview-feature-login\.mock\.light-cloud\.io/);
+      assert.ok([...harness.server.state.deployments.values()].some(d => d.environment_id === env.id));
+      assert.deepEqual(JSON.parse(harness.readFile('.lightcloud')!).previews, {
+        'feature/Login': { environmentId: env.id, environmentName: 'preview-feature-login', url: env.url },
+      });
+
+      // Deploying the branch again reuses its environment
+      const again = await harness.run('preview');
+      assert.equal(again.result.metadata?.created, false);
+      assert.equal([...harness.server.state.environments.values()].filter(e => e.name === 'preview-feature-login').length, 1);
+    });
+
+    it('does not create a second environment when the existing ones cannot be listed', async () => {
+      await start({ workspace: FEATURE_WORKSPACE });
+      harness.link('Demo App');
+      await harness.run('preview');
+      harness.server.addFault({ path: '/api/environments', status: 500, message: 'Database unavailable' });
+
+      const { result, stream } = await harness.run('preview');
+
+      assert.deepEqual(result.metadata, { command: 'preview', status: 'error' });
+      assert.match(stream.text, /Could not load environments:\*\* Database unavailable/);
+      assert.equal([...harness.server.state.environments.values()].filter(e => e.name === 'preview-feature-login').length, 1);
+    });
+
+    it('leaves the production branch to /deploy', async () => {
+      await start({ workspace: gitWorkspace('mock-user', 'example-app') });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('preview');
+
+      assert.deepEqual(result.metadata, { command: 'preview', status: 'production-branch' });
+      assert.match(stream.text, /`main` deploys to production/);
+      assert.equal(harness.server.state.environments.size, 1);
+    });
+
+    it('offers to clean up previews from /destroy', async () => {
+      await start({ workspace: FEATURE_WORKSPACE });
+      harness.link('Demo App');
+      const { result: preview } = await harness.run('preview', 'fix/typo');
+
+      const { stream } = await harness.run('destroy');
+
+      assert.match(stream.text, /- `fix\/typo` → \*\*preview-fix-typo\*\*/);
+      assert.deepEqual(stream.buttons[2], {
+        command: 'lightcloud.confirmDestroy',
+        title: '🧹 Delete fix/typo Preview',
+        arguments: [{
+          type: 'environment',
+          id: preview.metadata?.environmentId,
+          name: 'preview-fix-typo',
+          organisationId: harness.organisationId,
+          projectPath: harness.workspaceRoot,
+        }],
+      });
+    });
+  });
+
+  describe('/upload', () => {
+    const WORKSPACE = {
+      '.gitignore': '*.log\ncoverage/\n',
+      'index.html': '<h1>Hi</h1>',
+      'src/app.js': 'console.log(1);\n'.repeat(200),
+      'src/lib/util.js': 'export {};',
+      'debug.log': 'x',
+      'coverage/lcov.info': 'x',
+      'node_modules/react/index.js': 'x',
+    };
+
+    it('lists what would be packaged without logging in or calling the API', async () => {
+      await start({ loggedIn: false, workspace: WORKSPACE });
+
+      const { result, stream } = await harness.run('upload', '--dry-run');
+
+      assert.equal(result.metadata?.status, 'dry-run');
+      assert.equal(result.metadata?.fileCount, 4);
+      assert.deepEqual(fake.openedUrls, []);
+      assert.equal(harness.server.state.uploads.size, 0);
+      assert.match(stream.text, /Nothing was uploaded/);
+      assert.match(stream.text, /\*\*Compressed \(estimated\)\*\* \| ~\d+ B/);
+      assert.ok(stream.text.includes([
+        '├── src/',
+        '│   ├── lib/',
+        '│   │   └── util.js',
+        '│   └── app.js',
+        '├── .gitignore',
+        '└── index.html',
+      ].join('\n')));
+      assert.match(stream.text, /### Largest Files\n\n\| File \| Size \|\n\|------\|------\|\n\| `src\/app\.js` \| 3\.1 KB \|/);
+      assert.match(stream.text, /\| `src\/` \| 2 \| 3\.1 KB \|/);
+      assert.match(stream.text, /\| `node_modules\/` \| defaults \| `node_modules\/` \|/);
+      assert.match(stream.text, /\| `\*\.log` \| `\.gitignore` \| `debug\.log` \|/);
+      assert.match(stream.text, /\| `coverage\/` \| `\.gitignore` \| `coverage\/` \|/);
+    });
+
+    it('warns when the files exceed the upload limit', async () => {
+      await start({ workspace: WORKSPACE });
+      fake.settings.set('lightcloud.uploadMaxSizeMB', 0.001);
+
+      const { result, stream } = await harness.run('upload', '--dry-run');
+
+      assert.equal(result.metadata?.status, 'too-large');
+      assert.match(stream.text, /Over the upload limit/);
+    });
+
+    it('uploads and creates an application', async () => {
+      await start({ workspace: WORKSPACE });
+
+      const { result, stream } = await harness.run('upload');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.match(stream.text, /Uploaded 4 files/);
+      const [upload] = harness.server.state.uploads.values();
+      assert.equal(upload.status, 'completed');
+      assert.equal(upload.applicationId, result.metadata?.applicationId);
+    });
+
+    it('redeploys the linked upload app with only the changed files', async () => {
+      await start({ workspace: WORKSPACE });
+      const first = await harness.run('upload');
+      const applications = harness.server.state.applications.size;
+      harness.writeFile('src/lib/util.js', 'export const changed = true;');
+
+      const { result, stream } = await harness.run('upload');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.equal(result.metadata?.applicationId, first.result.metadata?.applicationId);
+      assert.equal(harness.server.state.applications.size, applications);
+      // The edited file, and the `.lightcloud` link written by the first upload
+      assert.match(stream.text, /Uploaded 2 changed of 5 files/);
+      assert.equal([...harness.server.state.uploads.values()].at(-1)!.applicationId, first.result.metadata?.applicationId);
+    });
+
+    it('checks the build when the log stream ends without a result', async () => {
+      await start({ scenario: { failBuilds: true }, workspace: WORKSPACE });
+      fake.settings.set('lightcloud.showBuildLogs', true);
+      // The server ends the stream at once, so the outcome has to come from the environment
+      harness.server.addFault({ path: '/[^/]+/[^/]+/logs/stream', status: 204 });
+
+      const running = harness.run('upload');
+      for (let i = 0; i < 1000 && harness.server.state.environments.size === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      harness.server.state.finishBuild([...harness.server.state.environments.keys()][0]);
+      const { result, stream } = await running;
+
+      assert.equal(result.metadata?.status, 'build-failed');
+      assert.match(stream.text, /Build failed/);
+      assert.doesNotMatch(stream.text, /Deployed!/);
+    });
+  });
+
+  describe('monorepos', () => {
+    const MONOREPO = {
+      ...gitWorkspace('mock-user', 'platform'),
+      'package.json': JSON.stringify({ private: true, workspaces: ['apps/*', 'packages/*'] }),
+      'apps/web/package.json': JSON.stringify({ name: '@acme/web', dependencies: { react: '^18.0.0' } }),
+      'apps/web/index.html': '<h1>Web</h1>',
+      'apps/admin/package.json': JSON.stringify({ name: '@acme/admin', dependencies: { vue: '^3.0.0' } }),
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+      'services/billing/requirements.txt': 'fastapi\n',
+      'services/billing/main.py': 'app = None\n',
+    };
+
+    it('deploys the package given with --path and links it', async () => {
+      await start({ workspace: MONOREPO });
+
+      const { result, stream } = await harness.run('deploy', '--path apps/web');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.match(stream.text, /\*\*Application:\*\* web/);
+      assert.match(stream.text, /\*\*Directory:\*\* apps\/web/);
+      const app = harness.server.state.applications.get(result.metadata?.applicationId)!;
+      assert.equal(app.root_directory, 'apps/web');
+      assert.equal(app.framework, 'react');
+
+      assert.equal(JSON.parse(harness.readFile('apps/web/.lightcloud') || '{}').applicationId, app.id);
+      assert.equal(harness.readFile('.lightcloud'), undefined);
+    });
+
+    it('asks which package to upload and sends the whole workspace', async () => {
+      await start({ workspace: MONOREPO });
+      fake.quickPickAnswers.push('billing');
+
+      const { result } = await harness.run('upload');
+
+      assert.equal(result.metadata?.status, 'success');
+      const app = harness.server.state.applications.get(result.metadata?.applicationId)!;
+      assert.equal(app.name, 'billing');
+      assert.equal(app.root_directory, 'services/billing');
+      assert.equal(app.runtime, 'python');
+      assert.ok(harness.readFile('services/billing/.lightcloud'));
+    });
+
+    it('acts on the linked package chosen in the quick pick', async () => {
+      await start({
+        scenario: { applications: [{ name: 'Web' }, { name: 'Admin' }] },
+        workspace: MONOREPO,
+      });
+      harness.link('Web', 'production', 'apps/web');
+      harness.link('Admin', 'production', 'apps/admin');
+      fake.quickPickAnswers.push('@acme/admin');
+
+      const { result, stream } = await harness.run('status');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.match(stream.text, /Admin/);
+      assert.doesNotMatch(stream.text, /Web/);
+
+      const cancelled = await harness.run('redeploy');
+      assert.deepEqual(cancelled.result.metadata, { command: 'redeploy', status: 'cancelled' });
+    });
+
+    it('plans the app at the root, not the docs alongside it', async () => {
+      await start({
+        workspace: {
+          'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, scripts: { build: 'vite build' } }),
+          'docs/requirements.txt': 'mkdocs\n',
+        },
+      });
+
+      const { result, stream } = await harness.run('plan');
+
+      assert.equal(result.metadata?.config.detected.framework, 'react');
+      assert.doesNotMatch(stream.text, /\*\*Directory:\*\* docs/);
+    });
+
+    it('reports an unknown --path', async () => {
+      await start({ workspace: MONOREPO });
+
+      const { result, stream } = await harness.run('plan', '--path apps/missing');
+
+      assert.deepEqual(result.metadata, { command: 'plan', status: 'not-found' });
+      assert.match(stream.text, /No app directory or workspace package "apps\/missing" found/);
+    });
+  });
+
+  describe('/env', () => {
+    it('needs a linked application', async () => {
+      await start();
+
+      const { result, stream } = await harness.run('env');
+
+      assert.deepEqual(result.metadata, { command: 'env', status: 'no-config' });
+      assert.match(stream.text, /No Application Linked/);
+    });
+
+    it('sets variables and lists them masked', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const set = await harness.run('env', 'set API_URL=https://api.example.com DEBUG=false');
+      assert.equal(set.result.metadata?.status, 'success');
+      assert.doesNotMatch(set.stream.text, /https:\/\/api\.example\.com/);
+
+      const list = await harness.run('env');
+      assert.deepEqual(list.result.metadata, { command: 'env', status: 'success', count: 2 });
+      assert.match(list.stream.text, /API_URL/);
+      assert.doesNotMatch(list.stream.text, /https:\/\/api\.example\.com/);
+      assert.match(list.stream.text, /••••••••om/);
+      assert.doesNotMatch(list.stream.text, /ht•/);
+    });
+
+    it('imports a .env file once confirmed', async () => {
+      await start({ workspace: { '.env.production': 'API_URL=https://api.example.com\nDEBUG=false\n' } });
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+
+      fake.messageAnswers.push(undefined);
+      const cancelled = await harness.run('env', 'import .env.production');
+      assert.deepEqual(cancelled.result.metadata, { command: 'env', status: 'cancelled' });
+      assert.equal(harness.server.state.envVars.get(env.id)?.size ?? 0, 0);
+
+      fake.messageAnswers.push('Import');
+      const { result } = await harness.run('env', 'import .env.production');
+      assert.deepEqual(result.metadata, { command: 'env', status: 'success', action: 'import', count: 2 });
+      assert.match(fake.messages.at(-1)!.message, /Import 2 variables from \.env\.production into production\?/);
+    });
+
+    it('only imports files inside the app directory', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('env', 'import ../../outside.env');
+
+      assert.deepEqual(result.metadata, { command: 'env', status: 'invalid-arguments' });
+      assert.match(stream.text, /`\.\.\/\.\.\/outside\.env` is outside/);
+      assert.equal(fake.messages.length, 0);
+    });
+
+    it('rejects malformed assignments', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result } = await harness.run('env', 'set not-an-assignment');
+
+      assert.deepEqual(result.metadata, { command: 'env', status: 'invalid-arguments' });
+    });
+  });
+
+  describe('/rollback', () => {
+    it('has nothing to roll back to after a single deployment', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result } = await harness.run('rollback');
+
+      assert.deepEqual(result.metadata, { command: 'rollback', status: 'no-candidates' });
+    });
+
+    it('lists previous deployments with rollback buttons', async () => {
+      await start();
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      harness.server.state.startBuild(env.id);
+      harness.server.state.finishBuild(env.id);
+
+      const { result, stream } = await harness.run('rollback');
+
+      assert.deepEqual(result.metadata, { command: 'rollback', status: 'list', count: 1 });
+      assert.match(stream.text, /🟢 live/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.confirmRollback']);
+      assert.equal(stream.buttons[0].arguments?.[0].deploymentId, 'dep-1');
+    });
+
+    it('needs 7 characters of a commit and reports an ambiguous prefix', async () => {
+      await start();
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      for (const sha of ['abcdef0111111111111111111111111111111111', 'abcdef0222222222222222222222222222222222', 'fedcba9999999999999999999999999999999999']) {
+        harness.server.state.startBuild(env.id, { commit_sha: sha });
+        harness.server.state.finishBuild(env.id);
+      }
+
+      const short = await harness.run('rollback', 'ab');
+      assert.deepEqual(short.result.metadata, { command: 'rollback', status: 'invalid-arguments' });
+
+      const ambiguous = await harness.run('rollback', 'abcdef0');
+      assert.deepEqual(ambiguous.result.metadata, { command: 'rollback', status: 'ambiguous' });
+      assert.match(ambiguous.stream.text, /`abcdef0` matches 2 commits/);
+      assert.equal(ambiguous.stream.buttons.length, 0);
+
+      const { result } = await harness.run('rollback', 'abcdef02');
+      assert.equal(result.metadata?.status, 'confirm');
+      assert.equal(harness.server.state.deployments.get(result.metadata?.deploymentId)?.commit_sha, 'abcdef0222222222222222222222222222222222');
+    });
+  });
+
+  describe('/promote', () => {
+    it('asks which environments to promote between', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('promote', 'staging');
+
+      assert.deepEqual(result.metadata, { command: 'promote', status: 'missing-target' });
+      assert.match(stream.text, /@lightcloud \/promote staging production/);
+    });
+
+    it('shows what changes and confirms promoting the running build', async () => {
+      await start();
+      harness.link('Demo App');
+      const app = [...harness.server.state.applications.values()][0];
+      const staging = harness.server.state.createEnvironment(harness.organisationId, app.id, 'staging', 'develop');
+      harness.server.state.finishBuild(staging.id);
+      const [live, promoted] = [...harness.server.state.deployments.values()];
+
+      const { result, stream } = await harness.run('promote', 'staging production');
+
+      assert.deepEqual(result.metadata, { command: 'promote', status: 'confirm', deploymentId: promoted.id });
+      assert.match(stream.text, /## ⬆️ Promote staging → production/);
+      assert.match(stream.text, new RegExp(`- production: ${live.commit_sha!.slice(0, 7)} Mock deployment ${live.id} \\(`));
+      assert.match(stream.text, new RegExp(`\\+ production: ${promoted.commit_sha!.slice(0, 7)} Mock deployment ${promoted.id} \\(.*\\), from staging`));
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.confirmPromote', 'lightcloud.cancel']);
+      assert.deepEqual(stream.buttons[0].arguments?.[0], {
+        organisationId: harness.organisationId,
+        applicationId: app.id,
+        environmentId: live.environment_id,
+        environmentName: 'production',
+        deploymentId: promoted.id,
+        label: stream.buttons[0].arguments?.[0].label,
+        projectPath: harness.workspaceRoot,
+      });
+      // Nothing is deployed until the button is confirmed
+      assert.equal(harness.server.state.deployments.size, 2);
+    });
+
+    it('has nothing to promote from an environment without a successful deployment', async () => {
+      await start();
+      harness.link('Demo App');
+      const app = [...harness.server.state.applications.values()][0];
+      harness.server.state.createEnvironment(harness.organisationId, app.id, 'staging', 'develop');
+
+      const { result } = await harness.run('promote', 'staging production');
+
+      assert.deepEqual(result.metadata, { command: 'promote', status: 'no-deployment' });
+    });
+
+    it('reports an unknown environment', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('promote', 'qa production');
+
+      assert.deepEqual(result.metadata, { command: 'promote', status: 'not-found' });
+      assert.match(stream.text, /Environment "qa" not found in Demo App/);
+    });
+  });
+
+  describe('/history', () => {
+    it('shows deployments with links to their logs', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('history');
+
+      assert.deepEqual(result.metadata, { command: 'history', status: 'success', count: 1 });
+      assert.match(stream.text, /## 🕘 Deployment History/);
+      assert.match(stream.text, /command:lightcloud\.showDeploymentLogs\?/);
+    });
+
+    it('reports API errors', async () => {
+      await start();
+      harness.link('Demo App');
+      harness.server.addFault({ path: '/api/deployments', status: 500, message: 'Upstream timeout' });
+
+      const { result, stream } = await harness.run('history');
+
+      assert.deepEqual(result.metadata, { command: 'history', status: 'error' });
+      assert.match(stream.text, /Could not fetch deployment history/);
+    });
+  });
+
+  describe('/domain', () => {
+    it('shows that no domain is configured', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result } = await harness.run('domain');
+
+      assert.deepEqual(result.metadata, { command: 'domain', status: 'none' });
+    });
+
+    it('rejects an invalid domain name', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result } = await harness.run('domain', 'add not_a_domain');
+
+      assert.deepEqual(result.metadata, { command: 'domain', status: 'invalid-arguments' });
+    });
+
+    it('reports a domain as live once verification completes', async () => {
+      await start();
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      harness.server.state.addDomain(env.id, 'app.example.com');
+      harness.server.state.verifyDomain('app.example.com');
+      harness.server.state.verifyDomain('app.example.com');
+
+      const { result, stream } = await harness.run('domain', 'verify');
+
+      assert.deepEqual(result.metadata, { command: 'domain', status: 'active', domain: 'app.example.com' });
+      assert.match(stream.text, /app\.example\.com is live/);
+    });
+
+    it('stops waiting for verification when the request is cancelled', async () => {
+      await start();
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      harness.server.state.addDomain(env.id, 'app.example.com');
+      const source = new CancellationTokenSource();
+      const started = Date.now();
+
+      const running = harness.run('domain', 'verify', source.token as unknown as vscode.CancellationToken);
+      setTimeout(() => source.cancel(), 50);
+      const { result, stream } = await running;
+
+      assert.deepEqual(result.metadata, { command: 'domain', status: 'cancelled', domain: 'app.example.com' });
+      assert.match(stream.text, /Stopped checking \*\*app\.example\.com\*\*/);
+      assert.ok(Date.now() - started < 2000);
+    });
+
+    it('asks for confirmation before removing a domain', async () => {
+      await start();
+      harness.link('Demo App');
+      const env = [...harness.server.state.environments.values()][0];
+      harness.server.state.addDomain(env.id, 'app.example.com');
+
+      const { result, stream } = await harness.run('domain', 'remove');
+
+      assert.deepEqual(result.metadata, { command: 'domain', status: 'confirm', domain: 'app.example.com' });
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.confirmRemoveDomain', 'lightcloud.cancel']);
+    });
+  });
+
+  describe('/logs', () => {
+    it('shows recent log lines with follow and output buttons', async () => {
+      await start({ scenario: { ...DEMO_SCENARIO, runtimeLogs: ['GET / 200', 'ERROR boom'] } });
+      harness.link('Demo App');
+
+      const { result, stream } = await harness.run('logs', '--grep boom');
+
+      assert.deepEqual(result.metadata, { command: 'logs', status: 'success', count: 1 });
+      assert.match(stream.text, /\*Filtered: matching "boom"\*/);
+      assert.match(stream.text, /```log\nERROR boom\n```/);
+      assert.deepEqual(stream.buttons.map(b => b.command), ['lightcloud.streamLogs', 'lightcloud.openLogs']);
+    });
+
+    it('rejects an invalid --since value', async () => {
+      await start();
+      harness.link('Demo App');
+
+      const { result } = await harness.run('logs', '--since yesterday');
+
+      assert.deepEqual(result.metadata, { command: 'logs', status: 'invalid-arguments' });
+    });
+  });
+
+  describe('organisations', () => {
+    const MULTI_ORG_SCENARIO = {
+      organisations: [
+        { id: 'org-1', name: 'Acme', slug: 'acme', role: 'owner' },
+        { id: 'org-2', name: 'Side Project', slug: 'side', role: 'member' },
+      ],
+      applications: [
+        { name: 'Acme Site', organisationId: 'org-1' },
+        { name: 'Side App', organisationId: 'org-2' },
+      ],
+    };
+
+    beforeEach(async () => {
+      await start({ scenario: MULTI_ORG_SCENARIO });
+    });
+
+    it('asks which organisation to use when there is no default', async () => {
+      fake.quickPickAnswers.push('Side Project');
+
+      const { result, stream } = await harness.run('list');
+
+      assert.equal(result.metadata?.organisationId, 'org-2');
+      assert.match(stream.text, /\*\*Organisation:\*\* Side Project/);
+      assert.match(stream.text, /Side App/);
+      assert.doesNotMatch(stream.text, /Acme Site/);
+    });
+
+    it('stops when the organisation prompt is dismissed', async () => {
+      const { result, stream } = await harness.run('list');
+
+      assert.deepEqual(result.metadata, { command: 'list', status: 'cancelled' });
+      assert.match(stream.text, /no organisation selected/);
+    });
+
+    it('honours --org by slug without prompting', async () => {
+      const { result } = await harness.run('list', '--org side');
+
+      assert.equal(result.metadata?.organisationId, 'org-2');
+    });
+
+    it('reports an unknown --org', async () => {
+      const { result, stream } = await harness.run('status', '--org nope');
+
+      assert.deepEqual(result.metadata, { command: 'status', status: 'not-found' });
+      assert.match(stream.text, /Organisation "nope" not found\. You belong to: Acme, Side Project/);
+    });
+
+    it('uses the organisation linked in .lightcloud', async () => {
+      harness.link('Side App');
+
+      const { result } = await harness.run('list');
+
+      assert.equal(result.metadata?.organisationId, 'org-2');
+    });
+
+    it('rejects an --org that differs from the linked application', async () => {
+      harness.link('Side App');
+
+      const { result, stream } = await harness.run('redeploy', '--org acme');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'not-found' });
+      assert.match(stream.text, /Side App belongs to a different organisation than Acme/);
+    });
+
+    it('/org list marks the current organisation', async () => {
+      fake.settings.set('lightcloud.defaultOrganisation', 'org-1');
+
+      const { result, stream } = await harness.run('org', 'list');
+
+      assert.equal(result.metadata?.organisationId, 'org-1');
+      assert.match(stream.text, /\| ✓ \| Acme \| `acme` \| owner \|/);
+      assert.match(stream.text, /\*\*Current:\*\* Acme \(from your default setting\)/);
+    });
+
+    it('/org switch sets the default organisation', async () => {
+      const { result, stream } = await harness.run('org', 'switch Side Project');
+
+      assert.deepEqual(result.metadata, { command: 'org', status: 'success', organisationId: 'org-2' });
+      assert.equal(fake.settings.get('lightcloud.defaultOrganisation'), 'org-2');
+      assert.match(stream.text, /Default organisation set to \*\*Side Project\*\*/);
+
+      const list = await harness.run('list');
+      assert.equal(list.result.metadata?.organisationId, 'org-2');
+    });
+
+    it('/org switch warns when the workspace is linked elsewhere', async () => {
+      harness.link('Acme Site');
+      fake.quickPickAnswers.push('Side Project');
+
+      const { stream } = await harness.run('org', 'switch');
+
+      assert.equal(fake.settings.get('lightcloud.defaultOrganisation'), 'org-2');
+      assert.match(stream.text, /linked to \*\*Acme\*\* in `\.lightcloud\.local`, which takes precedence/);
+    });
+
+    it('finds the organisation of an application linked by a teammate', async () => {
+      const app = [...harness.server.state.applications.values()].find(a => a.name === 'Side App')!;
+      harness.writeFile('.lightcloud', JSON.stringify({ version: 2, applicationId: app.id, applicationName: app.name }));
+
+      const { result } = await harness.run('status');
+
+      assert.equal(result.metadata?.status, 'success');
+      assert.deepEqual(JSON.parse(harness.readFile('.lightcloud.local')!), { organisationId: 'org-2', organisationName: 'Side Project' });
+    });
+
+    it('reports an application linked by a teammate in an organisation the user is not in', async () => {
+      harness.writeFile('.lightcloud', JSON.stringify({ version: 2, applicationId: 'app-elsewhere', applicationName: 'Their App' }));
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'redeploy', status: 'not-found' });
+      assert.match(stream.text, /Their App is not in any of your organisations/);
+    });
+
+    it('reports a malformed .lightcloud', async () => {
+      harness.writeFile('.lightcloud', '{ "applicationId": ');
+
+      const { result, stream } = await harness.run('redeploy');
+
+      assert.deepEqual(result.metadata, { command: 'error' });
+      assert.match(stream.text, /`\.lightcloud` in .* is invalid: it is not valid JSON/);
+    });
+  });
+
+  describe('general queries', () => {
+    beforeEach(async () => {
+      await start();
+    });
+
+    it('lists the available commands', async () => {
+      const { result, stream } = await harness.run(undefined, 'what can you do?');
+
+      assert.deepEqual(result.metadata, { command: 'general' });
+      assert.match(stream.text, /- `\/deploy` - Deploy your project/);
+    });
+
+    it('shows help', async () => {
+      const { stream } = await harness.run(undefined, 'help');
+
+      assert.match(stream.text, /# Light Cloud Help/);
+    });
+  });
+});
+
+function gitWorkspace(owner: string, repo: string): Record<string, string> {
+  return {
+    '.git/HEAD': 'ref: refs/heads/main\n',
+    '.git/config': `[remote "origin"]\n\turl = https://github.com/${owner}/${repo}.git\n\tfetch = +refs/heads/*:refs/remotes/origin/*\n`,
+    'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, scripts: { build: 'vite build' } }),
+  };
+}
@@ -0,0 +1,66 @@
+// src/test/runtime-version.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectFiles } from '../detection/framework-registry';
+import { detectNodeVersion, detectPythonVersion, matchVersion, versionLine } from '../detection/runtime-version';
+
+describe('runtime versions', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) {
+      fs.rmSync(root, { recursive: true, force: true });
+      root = undefined;
+    }
+  });
+
+  function project(files: Record<string, string>): ProjectFiles {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-version-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return new ProjectFiles(root);
+  }
+
+  it('prefers a pinned Node.js version over the engines range', () => {
+    const files = project({
+      'package.json': JSON.stringify({ engines: { node: '>=18' } }),
+      '.tool-versions': 'python 3.12.1\nnodejs 20.11.0\n',
+    });
+
+    assert.deepEqual(detectNodeVersion(files), { version: '20.11.0', source: '.tool-versions' });
+  });
+
+  it('reads the Python version from runtime.txt and requires-python', () => {
+    assert.deepEqual(detectPythonVersion(project({ 'runtime.txt': 'python-3.11.7\n' })), { version: '3.11.7', source: 'runtime.txt' });
+
+    const files = project({ 'pyproject.toml': '[project]\nname = "api"\nrequires-python = ">=3.10,<3.13"\n' });
+    assert.deepEqual(detectPythonVersion(files), { version: '>=3.10,<3.13', source: 'pyproject.toml requires-python' });
+  });
+
+  it('matches npm ranges and PEP 440 specifiers against release lines', () => {
+    const node = ['18', '20', '22'];
+    assert.equal(matchVersion('20.11.0', node), '20');
+    assert.equal(matchVersion('>=18.17 <21', node), '20');
+    assert.equal(matchVersion('^18.17.0 || ^20.3.0', node), '20');
+    assert.equal(matchVersion('18.x', node), '18');
+    assert.equal(matchVersion('>= 22', node), '22');
+    assert.equal(matchVersion('16', node), undefined);
+
+    const python = ['3.10', '3.11', '3.12'];
+    assert.equal(matchVersion('>=3.10,<3.12', python), '3.11');
+    assert.equal(matchVersion('~=3.10', python), '3.12');
+    assert.equal(matchVersion('^3.11', python), '3.12');
+    assert.equal(matchVersion('==3.9.*', python), undefined);
+  });
+
+  it('takes the release line of an exact version only', () => {
+    assert.equal(versionLine('20.11.0', 1), '20');
+    assert.equal(versionLine('3.11.4', 2), '3.11');
+    assert.equal(versionLine('>=18', 1), undefined);
+  });
+});
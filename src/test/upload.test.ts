@@ -0,0 +1,224 @@
+// src/test/upload.test.ts
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { ApiClient } from '../api/client';
+import { LightCloudApi } from '../api/endpoints';
+import { MockServer } from '../mock-server/server';
+import { SourcePackager, PackageTooLargeError } from '../upload/packager';
+import { SourceUploader, UploadProgress } from '../upload/uploader';
+import { UploadSessionStore } from '../upload/upload-sessions';
+import { IncrementalUploader, formatUploadSummary } from '../upload/incremental';
+import { fake, Memento, Uri } from './fakes/vscode';
+
+describe('source upload', () => {
+  let root: string;
+  let server: MockServer;
+  let api: LightCloudApi;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-upload-'));
+    server = new MockServer({ buildStepDelayMs: null });
+    const url = await server.start();
+
+    fake.reset();
+    fake.settings.set('lightcloud.apiEndpoint', url);
+    fake.settings.set('lightcloud.maxRetries', 0);
+
+    const secrets = new Map([['lightcloud.authToken', server.state.accessToken]]);
+    const context = {
+      secrets: {
+        get: async (key: string) => secrets.get(key),
+        store: async (key: string, value: string) => { secrets.set(key, value); },
+        delete: async (key: string) => { secrets.delete(key); },
+      },
+    } as unknown as vscode.ExtensionContext;
+    api = new LightCloudApi(new ApiClient(context));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+    fake.reset();
+  });
+
+  function write(files: Record<string, string | Buffer>): void {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    }
+  }
+
+  function folder(): vscode.WorkspaceFolder {
+    return { uri: Uri.file(root), name: 'app', index: 0 } as unknown as vscode.WorkspaceFolder;
+  }
+
+  async function archiveHash(): Promise<string> {
+    const source = await new SourcePackager().package(folder());
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of source.stream) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  async function uploadOnce(sessions?: UploadSessionStore, onProgress?: (progress: UploadProgress) => void) {
+    const source = await new SourcePackager().package(folder());
+    const uploader = new SourceUploader(api, sessions);
+    return uploader.upload(server.state.user.organisations[0].id, source, 'app-source.zip', onProgress);
+  }
+
+  it('streams a zip of the included files', async () => {
+    write({ 'index.html': '<h1>Hi</h1>', 'src/app.js': 'console.log(1)', 'node_modules/x/index.js': '' });
+
+    const source = await new SourcePackager().package(folder());
+    const chunks: Buffer[] = [];
+    for await (const chunk of source.stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const zip = Buffer.concat(chunks);
+
+    assert.equal(source.fileCount, 2);
+    assert.equal(source.processedBytes, source.totalBytes);
+    assert.equal(zip.readUInt32LE(0), 0x04034b50);
+    assert.ok(zip.includes('src/app.js'));
+    assert.ok(!zip.includes('node_modules'));
+  });
+
+  it('uploads in chunks and reports byte-level progress', async () => {
+    fake.settings.set('lightcloud.uploadChunkSizeMB', 1);
+    write({ 'assets/big.bin': crypto.randomBytes(3 * 1024 * 1024), 'index.html': '<h1>Hi</h1>' });
+
+    const updates: UploadProgress[] = [];
+    const result = await uploadOnce(undefined, p => updates.push(p));
+
+    assert.ok('uploadId' in result);
+    const upload = server.state.uploads.get(result.uploadId)!;
+    assert.equal(upload.status, 'completed');
+    assert.equal(upload.sha256, await archiveHash());
+
+    assert.ok(updates.length > 3, `expected several progress updates, got ${updates.length}`);
+    assert.deepEqual(updates.map(u => u.percentage), [...updates.map(u => u.percentage)].sort((a, b) => a - b));
+    assert.equal(updates[updates.length - 1].percentage, 100);
+  });
+
+  it('retries a failed chunk from the offset the server has', async () => {
+    fake.settings.set('lightcloud.uploadChunkSizeMB', 1);
+    fake.settings.set('lightcloud.maxRetries', 2);
+    write({ 'assets/big.bin': crypto.randomBytes(3 * 1024 * 1024) });
+    server.addFault({ method: 'PUT', path: '/__uploads/upload-1/session', status: 503, after: 2 });
+
+    const result = await uploadOnce();
+
+    assert.ok('uploadId' in result, JSON.stringify(result));
+    assert.equal(server.state.uploads.get(result.uploadId)!.sha256, await archiveHash());
+  });
+
+  it('resumes an interrupted upload from the persisted session', async () => {
+    fake.settings.set('lightcloud.uploadChunkSizeMB', 1);
+    write({ 'assets/big.bin': crypto.randomBytes(3 * 1024 * 1024), 'index.html': '<h1>Hi</h1>' });
+    const sessions = new UploadSessionStore(new Memento() as vscode.Memento);
+    server.addFault({ method: 'PUT', path: '/__uploads/upload-1/session', status: 503, after: 2 });
+
+    const failed = await uploadOnce(sessions);
+    assert.deepEqual(failed, { error: 'Upload failed: 503' });
+    const interrupted = server.state.uploads.get('upload-1')!;
+    assert.ok(interrupted.receivedBytes > 0);
+    assert.equal(sessions.get(`${server.state.user.organisations[0].id}:app-source.zip`)?.offset, interrupted.receivedBytes);
+
+    // A fresh packager and uploader, as after an extension reload
+    const resumed = await uploadOnce(sessions);
+
+    assert.deepEqual(resumed, { uploadId: 'upload-1' });
+    assert.equal(server.state.uploads.size, 1);
+    assert.equal(interrupted.sha256, await archiveHash());
+    assert.equal(sessions.get(`${server.state.user.organisations[0].id}:app-source.zip`), undefined);
+  });
+
+  it('starts a new upload when the files changed since the interruption', async () => {
+    fake.settings.set('lightcloud.uploadChunkSizeMB', 1);
+    write({ 'assets/big.bin': crypto.randomBytes(3 * 1024 * 1024) });
+    const sessions = new UploadSessionStore(new Memento() as vscode.Memento);
+    server.addFault({ method: 'PUT', path: '/__uploads/upload-1/session', status: 503, after: 1 });
+
+    await uploadOnce(sessions);
+    write({ 'index.html': '<h1>New</h1>' });
+    const result = await uploadOnce(sessions);
+
+    assert.deepEqual(result, { uploadId: 'upload-2' });
+    assert.equal(server.state.uploads.get('upload-2')!.sha256, await archiveHash());
+  });
+
+  it('reports a rejected upload', async () => {
+    write({ 'index.html': '<h1>Hi</h1>' });
+    server.addFault({ method: 'PUT', path: '/__uploads/upload-1/session', status: 403, after: 1 });
+
+    const result = await uploadOnce();
+
+    assert.deepEqual(result, { error: 'Upload failed: 403' });
+  });
+
+  it('sends only the files that changed since the application\'s last upload', async () => {
+    write({ 'index.html': '<h1>Hi</h1>', 'src/app.js': 'console.log(1)', 'assets/logo.bin': crypto.randomBytes(4096) });
+    const organisationId = server.state.user.organisations[0].id;
+    const uploader = new IncrementalUploader(api);
+
+    const first = await uploader.upload(folder(), { organisationId, fileName: 'app-source.zip' });
+    assert.ok('uploadId' in first, JSON.stringify(first));
+    assert.equal(first.incremental, false);
+    const app = await api.createApplicationFromUpload({
+      targetOrganisationId: organisationId,
+      name: 'app',
+      uploadId: first.uploadId,
+      deploymentType: 'static',
+    });
+
+    write({ 'src/app.js': 'console.log(2)' });
+    const second = await uploader.upload(folder(), { organisationId, applicationId: app.data!.id, fileName: 'app-source.zip' });
+
+    assert.ok('uploadId' in second, JSON.stringify(second));
+    assert.deepEqual(
+      { incremental: second.incremental, fileCount: second.fileCount, uploadedFileCount: second.uploadedFileCount },
+      { incremental: true, fileCount: 3, uploadedFileCount: 1 }
+    );
+    assert.equal(server.state.uploads.get(second.uploadId)!.baseUploadId, first.uploadId);
+    assert.match(formatUploadSummary(second), /^Uploaded 1 changed of 3 files \(14 B of 4\.0 KB, 99% saved\)$/);
+
+    const deployed = await api.deployFromUpload({
+      targetOrganisationId: organisationId,
+      applicationId: app.data!.id,
+      uploadId: second.uploadId,
+    });
+    assert.equal(deployed.success, true);
+  });
+
+  it('uploads everything when the application has no previous upload', async () => {
+    write({ 'index.html': '<h1>Hi</h1>' });
+    const organisationId = server.state.user.organisations[0].id;
+    const app = server.state.createApplication(organisationId, { name: 'app', source_type: 'upload' });
+
+    const result = await new IncrementalUploader(api).upload(folder(), {
+      organisationId,
+      applicationId: app.id,
+      fileName: 'app-source.zip',
+    });
+
+    assert.ok('uploadId' in result, JSON.stringify(result));
+    assert.equal(result.incremental, false);
+    assert.equal(result.uploadedFileCount, 1);
+  });
+
+  it('stops scanning once the size limit is exceeded', async () => {
+    write({ 'a.bin': Buffer.alloc(600), 'b.bin': Buffer.alloc(600) });
+
+    await assert.rejects(
+      new SourcePackager().package(folder(), { maxBytes: 1000 }),
+      PackageTooLargeError
+    );
+  });
+});
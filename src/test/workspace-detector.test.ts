@@ -0,0 +1,89 @@
+// src/test/workspace-detector.test.ts
+
+import { describe, it, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceDetector } from '../detection/workspace-detector';
+
+describe('WorkspaceDetector', () => {
+  let root: string;
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function workspace(files: Record<string, string>): string {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lightcloud-workspace-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), content);
+    }
+    return root;
+  }
+
+  async function detect(files: Record<string, string>): Promise<string[]> {
+    const packages = await new WorkspaceDetector().detect(workspace(files));
+    return packages.map(pkg => `${pkg.rootDirectory}:${pkg.name}:${pkg.tool}`);
+  }
+
+  it('finds nothing in a single-app folder', async () => {
+    assert.deepEqual(await detect({ 'package.json': JSON.stringify({ name: 'app' }), 'src/index.js': '' }), []);
+  });
+
+  it('expands npm and yarn workspace globs, with negations', async () => {
+    const packages = await detect({
+      'package.json': JSON.stringify({ workspaces: { packages: ['apps/*', 'packages/**', '!packages/legacy'] } }),
+      'yarn.lock': '',
+      'apps/web/package.json': JSON.stringify({ name: '@acme/web' }),
+      'apps/docs/README.md': '',
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+      'packages/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+      'apps/web/node_modules/dep/package.json': JSON.stringify({ name: 'dep' }),
+    });
+
+    assert.deepEqual(packages, ['apps/web:@acme/web:yarn', 'packages/ui:@acme/ui:yarn']);
+  });
+
+  it('reads pnpm workspaces and marks Turborepo', async () => {
+    const packages = await detect({
+      'package.json': JSON.stringify({ name: 'root' }),
+      'pnpm-workspace.yaml': "packages:\n  - 'apps/*' # deployable\n  - \"tools/cli\"\ncatalog:\n  - react\n",
+      'turbo.json': '{}',
+      'apps/api/package.json': JSON.stringify({ name: 'api' }),
+      'tools/cli/package.json': '{}',
+      'react/package.json': '{}',
+    });
+
+    assert.deepEqual(packages, ['apps/api:api:turborepo', 'tools/cli:cli:turborepo']);
+  });
+
+  it('finds Nx projects and Python subprojects', async () => {
+    const packages = await detect({
+      'nx.json': '{}',
+      'apps/store/project.json': JSON.stringify({ name: 'store' }),
+      'services/search/pyproject.toml': '[tool.black]\nline-length = 100\n\n[project]\nname = "search-api"\n',
+      'services/worker/requirements.txt': 'celery\n',
+      'apps/store/scripts/requirements.txt': 'requests\n',
+    });
+
+    assert.deepEqual(packages, [
+      'apps/store:store:nx',
+      'services/search:search-api:python',
+      'services/worker:worker:python',
+    ]);
+  });
+
+  it('treats Python files below a single app as part of it', async () => {
+    const files = {
+      'package.json': JSON.stringify({ name: 'site', scripts: { start: 'node server.js' } }),
+      'docs/requirements.txt': 'mkdocs\n',
+    };
+    assert.deepEqual(await detect(files), []);
+    assert.equal(new WorkspaceDetector().isApp(root), true);
+
+    // Without an app at the root, the subdirectories are the apps
+    assert.deepEqual(await detect({ 'README.md': '', 'api/requirements.txt': 'flask\n' }), ['api:api:python']);
+  });
+});
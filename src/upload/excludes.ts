@@ -1,31 +1,40 @@
 // src/upload/excludes.ts
 
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Ignore files read from every directory of the workspace, in order of increasing precedence */
+export const IGNORE_FILES = ['.gitignore', '.lightcloudignore'];
+
+/**
+ * Always applied before any ignore file, so a `.gitignore` or `.lightcloudignore`
+ * can re-include one of these with a `!` pattern.
+ */
 export const DEFAULT_EXCLUDES = [
   // Dependencies
-  'node_modules',
-  'vendor',
-  '__pycache__',
-  'venv',
-  '.venv',
-  'env',
-  '.env',
+  'node_modules/',
+  'vendor/',
+  '__pycache__/',
+  'venv/',
+  '.venv/',
+  'env/',
 
   // Build outputs
-  'dist',
-  'build',
-  'out',
-  '.next',
-  '.nuxt',
-  '.output',
+  'dist/',
+  'build/',
+  'out/',
+  '.next/',
+  '.nuxt/',
+  '.output/',
 
   // Version control
-  '.git',
-  '.svn',
-  '.hg',
+  '.git/',
+  '.svn/',
+  '.hg/',
 
   // IDE
-  '.idea',
-  '.vscode',
+  '.idea/',
+  '.vscode/',
   '*.swp',
   '*.swo',
 
@@ -35,7 +44,10 @@ export const DEFAULT_EXCLUDES = [
 
   // Logs
   '*.log',
-  'logs',
+  'logs/',
+
+  // Light Cloud per-user link
+  '.lightcloud.local',
 
   // Secrets (be extra careful)
   '.env',
@@ -47,20 +59,203 @@ export const DEFAULT_EXCLUDES = [
   'secrets.json',
 ];
 
-export function parseGitignore(content: string): string[] {
-  const patterns: string[] = [];
+/**
+ * Append anchored rules for the given files (relative, `/`-separated) to the root `.lightcloudignore`
+ */
+export function excludeFromUploads(rootPath: string, paths: string[], comment?: string): void {
+  const ignorePath = path.join(rootPath, '.lightcloudignore');
+  const existing = fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf-8') : '';
+
+  const lines = paths.map(file => `/${file.replace(/[*?[\\]/g, '\\$&')}`);
+  if (comment) {
+    lines.unshift(`# ${comment}`);
+  }
+
+  const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+  fs.writeFileSync(ignorePath, `${existing}${separator}${lines.join('\n')}\n`);
+}
+
+export interface IgnoreRule {
+  /** Directory of the ignore file, relative to the workspace root ('' for the root) */
+  base: string;
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+  /** Ignore file the rule was read from, relative to the root; undefined for the built-in defaults */
+  source?: string;
+}
+
+/**
+ * Parse ignore file content using `.gitignore` syntax: comments, `!` negation,
+ * `\` escapes, anchored patterns (containing a `/`), directory-only patterns
+ * (trailing `/`), `*`, `?`, `[...]` and `**`.
+ */
+export function parseGitignore(content: string, base = '', source?: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
 
-  for (const line of content.split('\n')) {
-    const trimmed = line.trim();
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
 
     // Skip comments and empty lines
-    if (!trimmed || trimmed.startsWith('#')) continue;
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.replace(/\/+$/, '');
+    }
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+    if (!line) continue;
+
+    rules.push({
+      base,
+      pattern: rawLine.trim(),
+      negated,
+      directoryOnly,
+      regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegex(line)}$`),
+      source,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Decides which workspace paths are excluded from an upload. Rules are evaluated
+ * like git does: the last matching rule wins, and rules from deeper ignore files
+ * are added later, so they take precedence over those of their parents.
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[];
+
+  constructor(defaults: string[] = DEFAULT_EXCLUDES) {
+    this.rules = parseGitignore(defaults.join('\n'));
+  }
 
-    // Handle negation (we'll ignore these for simplicity)
-    if (trimmed.startsWith('!')) continue;
+  /**
+   * Add the rules of an ignore file found in `base` (relative to the root, `/`-separated)
+   */
+  add(content: string, base = '', source?: string): void {
+    this.rules.push(...parseGitignore(content, base, source));
+  }
+
+  /**
+   * Whether a path (relative to the root, `/`-separated) is ignored. Callers walk the
+   * tree top-down and skip ignored directories, which gives git's rule that files
+   * can't be re-included when a parent directory is excluded.
+   */
+  ignores(relativePath: string, isDirectory: boolean): boolean {
+    return this.excludedBy(relativePath, isDirectory) !== undefined;
+  }
+
+  /**
+   * The rule that excludes a path, or undefined if it is included. Like
+   * `git check-ignore -v`, this is the last matching rule.
+   */
+  excludedBy(relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    let excludedBy: IgnoreRule | undefined;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      // A negation only matters once something has excluded the path
+      if (rule.negated && excludedBy === undefined) continue;
+
+      const pathInBase = relativeToBase(relativePath, rule.base);
+      if (pathInBase !== undefined && rule.regex.test(pathInBase)) {
+        excludedBy = rule.negated ? undefined : rule;
+      }
+    }
 
-    patterns.push(trimmed);
+    return excludedBy;
   }
+}
+
+function relativeToBase(relativePath: string, base: string): string | undefined {
+  if (!base) {
+    return relativePath;
+  }
+  return relativePath.startsWith(`${base}/`) ? relativePath.slice(base.length + 1) : undefined;
+}
+
+/**
+ * Regular expression source for a `/`-separated glob: `**` spans directories, `*` and `?` don't
+ */
+export function globToRegex(glob: string): string {
+  let regex = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length;
+      if (atStart && glob[i + 2] === '/') {
+        // `**/` matches zero or more directories
+        regex += '(?:.*/)?';
+        i += 2;
+        continue;
+      }
+      if (atStart && atEnd) {
+        // Trailing `/**` matches everything inside
+        regex += '.*';
+        i += 1;
+        continue;
+      }
+      // Any other run of asterisks behaves like a single `*`
+      while (glob[i + 1] === '*') i++;
+      regex += '[^/]*';
+      continue;
+    }
+
+    switch (char) {
+      case '*':
+        regex += '[^/]*';
+        break;
+
+      case '?':
+        regex += '[^/]';
+        break;
+
+      case '\\':
+        if (i + 1 < glob.length) {
+          regex += escapeRegex(glob[++i]);
+        }
+        break;
+
+      case '[': {
+        const close = glob.indexOf(']', i + 2);
+        if (close === -1) {
+          regex += '\\[';
+          break;
+        }
+        let set = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+        if (set.startsWith('!')) {
+          set = `^${set.slice(1)}`;
+        }
+        regex += `[${set}]`;
+        i = close;
+        break;
+      }
+
+      default:
+        regex += escapeRegex(char);
+    }
+  }
+
+  return regex;
+}
 
-  return patterns;
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
 }
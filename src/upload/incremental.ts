@@ -0,0 +1,134 @@
+// src/upload/incremental.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { formatBytes } from '../utils/formatting';
+import { SourceFile, SourcePackager } from './packager';
+import { SourceUploader, UploadProgress } from './uploader';
+import { UploadSessionStore } from './upload-sessions';
+import { AcceptedSecretStore, SecretFinding } from './secrets';
+
+export interface IncrementalUploadOptions {
+  organisationId: string;
+  /** Existing application to diff against; omitted for a first upload */
+  applicationId?: string;
+  fileName: string;
+  maxBytes?: number;
+  onProgress?: (message: string) => void;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadSummary {
+  uploadId: string;
+  /** Whether only changed files were sent */
+  incremental: boolean;
+  fileCount: number;
+  totalBytes: number;
+  uploadedFileCount: number;
+  uploadedBytes: number;
+  excludedCount: number;
+}
+
+/**
+ * Uploads a workspace, sending only the files whose content differs from the
+ * application's previous upload. The server is sent a manifest of content hashes
+ * first; it answers with the paths it is missing and rebuilds the rest from the
+ * previous upload.
+ */
+export class IncrementalUploader {
+  private packager = new SourcePackager();
+  private uploader: SourceUploader;
+
+  constructor(
+    private api: LightCloudApi,
+    sessions?: UploadSessionStore,
+    private acceptedSecrets?: AcceptedSecretStore
+  ) {
+    this.uploader = new SourceUploader(api, sessions);
+  }
+
+  /**
+   * Nothing is uploaded while the files to send contain secrets the user hasn't accepted;
+   * they are returned instead. Throws `PackageTooLargeError` if the project exceeds `maxBytes`.
+   */
+  async upload(
+    workspaceFolder: vscode.WorkspaceFolder,
+    options: IncrementalUploadOptions
+  ): Promise<UploadSummary | { error: string } | { secrets: SecretFinding[] }> {
+    options.onProgress?.('Scanning files...');
+    const scan = await this.packager.scan(workspaceFolder.uri.fsPath, options.maxBytes);
+
+    options.onProgress?.(`Hashing ${scan.files.length} files...`);
+    const manifest = await this.packager.manifest(scan);
+
+    let missing: Set<string> | undefined;
+    let baseUploadId: string | undefined;
+
+    if (options.applicationId) {
+      options.onProgress?.('Comparing with the previous upload...');
+      const diff = await this.api.createUploadManifest({
+        targetOrganisationId: options.organisationId,
+        applicationId: options.applicationId,
+        files: manifest,
+      });
+
+      // Without a usable base, fall back to sending everything
+      if (diff.success && diff.data?.baseUploadId) {
+        baseUploadId = diff.data.baseUploadId;
+        missing = new Set(diff.data.missing);
+      }
+    }
+
+    const include = missing && ((file: SourceFile) => missing!.has(file.name));
+
+    options.onProgress?.('Checking for secrets...');
+    const secrets = (await this.packager.findSecrets(scan, include))
+      .filter(finding => !this.acceptedSecrets?.isAccepted(finding));
+    if (secrets.length > 0) {
+      return { secrets };
+    }
+
+    const source = await this.packager.archive(scan, include);
+
+    options.onProgress?.(missing
+      ? `Uploading ${source.fileCount} changed of ${scan.files.length} files...`
+      : `Uploading ${scan.files.length} files...`);
+
+    const result = await this.uploader.upload(
+      options.organisationId,
+      source,
+      options.fileName,
+      options.onUploadProgress,
+      { manifest, baseUploadId }
+    );
+
+    if ('error' in result) {
+      return result;
+    }
+
+    return {
+      uploadId: result.uploadId,
+      incremental: !!baseUploadId,
+      fileCount: scan.files.length,
+      totalBytes: scan.totalBytes,
+      uploadedFileCount: source.fileCount,
+      uploadedBytes: source.totalBytes,
+      excludedCount: scan.excludedCount,
+    };
+  }
+}
+
+/**
+ * One-line description of what an upload sent, e.g. for chat or notifications
+ */
+export function formatUploadSummary(summary: UploadSummary): string {
+  if (!summary.incremental) {
+    return `Uploaded ${summary.fileCount} files (${formatBytes(summary.totalBytes)})`;
+  }
+
+  const saved = summary.totalBytes > 0
+    ? Math.floor((1 - summary.uploadedBytes / summary.totalBytes) * 100)
+    : 100;
+  return `Uploaded ${summary.uploadedFileCount} changed of ${summary.fileCount} files ` +
+    `(${formatBytes(summary.uploadedBytes)} of ${formatBytes(summary.totalBytes)}, ${saved}% saved)`;
+}
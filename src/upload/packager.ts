@@ -1,120 +1,349 @@
 // src/upload/packager.ts
 
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { DEFAULT_EXCLUDES, parseGitignore } from './excludes';
+import * as zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Archiver } from 'archiver';
+import { ManifestEntry } from '../api/types';
+import { IgnoreMatcher, IgnoreRule, IGNORE_FILES } from './excludes';
+import { SecretFinding, scanFileForSecrets, scanForSecrets } from './secrets';
 
-interface PackageResult {
-  buffer: Buffer;
+// Fast enough to keep up with the upload; level 9 costs a lot of CPU for a few percent
+const COMPRESSION_LEVEL = 6;
+
+// Larger files are scanned a line at a time instead of read into memory
+const MAX_SECRET_SCAN_BYTES = 1024 * 1024;
+
+// Same heuristic as git: a NUL byte near the start means binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// Already compressed formats; deflate gains nothing on them
+const COMPRESSED_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.ico',
+  '.woff', '.woff2', '.mp3', '.mp4', '.webm', '.mov',
+  '.zip', '.gz', '.tgz', '.br', '.bz2', '.xz', '.7z', '.jar', '.pdf',
+]);
+
+// Compress this much for real when estimating, and extrapolate the ratio to the rest
+const ESTIMATE_SAMPLE_BYTES = 16 * 1024 * 1024;
+
+// Local header, central directory record and data descriptor of each zip entry, plus its name twice
+const ZIP_ENTRY_OVERHEAD = 30 + 46 + 16;
+const ZIP_END_OVERHEAD = 22;
+
+export interface PackageOptions {
+  /** Stop scanning as soon as the uncompressed size exceeds this many bytes */
+  maxBytes?: number;
+  onProgress?: (message: string) => void;
+}
+
+export interface SourcePackage {
+  /** Zip archive, produced as it is read; files are opened one at a time */
+  stream: Readable;
   fileCount: number;
-  totalSize: number;
+  /** Uncompressed size of the packaged files */
+  totalBytes: number;
   excludedCount: number;
+  /**
+   * Hash of the file list, sizes and modification times. The archive is built
+   * deterministically, so an equal fingerprint means identical archive bytes.
+   */
+  fingerprint: string;
+  /** Uncompressed bytes added to the archive so far */
+  processedBytes: number;
 }
 
-export class SourcePackager {
-  async package(
-    workspaceFolder: vscode.WorkspaceFolder,
-    onProgress?: (message: string) => void
-  ): Promise<PackageResult> {
-    const rootPath = workspaceFolder.uri.fsPath;
-
-    // Build exclude patterns
-    const excludePatterns = [...DEFAULT_EXCLUDES];
-
-    // Add patterns from .gitignore if exists
-    const gitignorePath = path.join(rootPath, '.gitignore');
-    if (fs.existsSync(gitignorePath)) {
-      const gitignoreContent = fs.readFileSync(gitignorePath, 'utf-8');
-      excludePatterns.push(...parseGitignore(gitignoreContent));
-    }
+export class PackageTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Project is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB upload limit`);
+    this.name = 'PackageTooLargeError';
+  }
+}
 
-    onProgress?.('Scanning files...');
+export interface SourceFile {
+  /** Absolute path on disk */
+  path: string;
+  /** Path inside the archive, relative to the root with `/` separators */
+  name: string;
+  size: number;
+  mtimeMs: number;
+}
 
-    // Collect files to include
-    const { files, excludedCount } = await this.collectFiles(rootPath, excludePatterns);
+export interface ExcludedPath {
+  /** Path relative to the root with `/` separators */
+  name: string;
+  isDirectory: boolean;
+  rule: IgnoreRule;
+}
 
-    onProgress?.(`Found ${files.length} files to package`);
+export interface SourceScan {
+  rootPath: string;
+  files: SourceFile[];
+  /** Top-most excluded paths; nothing below an excluded directory is visited */
+  excluded: ExcludedPath[];
+  excludedCount: number;
+  totalBytes: number;
+}
 
-    // Create zip archive
-    const archiver = await import('archiver');
-    const archive = archiver.default('zip', { zlib: { level: 9 } });
-
-    const chunks: Buffer[] = [];
-
-    return new Promise((resolve, reject) => {
-      archive.on('data', (chunk: Buffer) => chunks.push(chunk));
-      archive.on('error', reject);
-      archive.on('end', () => {
-        const buffer = Buffer.concat(chunks);
-        resolve({
-          buffer,
-          fileCount: files.length,
-          totalSize: buffer.length,
-          excludedCount,
-        });
-      });
+export class SourcePackager {
+  /**
+   * Scan the workspace and return a streaming zip of the files to upload.
+   * Nothing is buffered: the archive is compressed as the caller consumes `stream`.
+   */
+  async package(
+    workspaceFolder: vscode.WorkspaceFolder,
+    options: PackageOptions = {}
+  ): Promise<SourcePackage> {
+    options.onProgress?.('Scanning files...');
 
-      // Add files to archive
-      for (const file of files) {
-        const relativePath = path.relative(rootPath, file);
-        archive.file(file, { name: relativePath });
-      }
+    const scan = await this.scan(workspaceFolder.uri.fsPath, options.maxBytes);
+
+    options.onProgress?.(`Found ${scan.files.length} files to package (${formatMB(scan.totalBytes)} MB)`);
 
-      archive.finalize();
-    });
+    return this.archive(scan);
   }
 
-  private async collectFiles(
-    rootPath: string,
-    excludePatterns: string[]
-  ): Promise<{ files: string[]; excludedCount: number }> {
-    const files: string[] = [];
-    let excludedCount = 0;
+  /**
+   * Collect the files to upload, honouring default excludes and every .gitignore/.lightcloudignore
+   */
+  async scan(rootPath: string, maxBytes?: number): Promise<SourceScan> {
+    const files: SourceFile[] = [];
+    const excluded: ExcludedPath[] = [];
+    let totalBytes = 0;
+    const matcher = new IgnoreMatcher();
 
     const walk = async (dir: string) => {
+      const base = toPosix(path.relative(rootPath, dir));
+
+      // Ignore files apply to their own directory and everything below it
+      for (const ignoreFile of IGNORE_FILES) {
+        const ignorePath = path.join(dir, ignoreFile);
+        if (fs.existsSync(ignorePath)) {
+          matcher.add(fs.readFileSync(ignorePath, 'utf-8'), base, base ? `${base}/${ignoreFile}` : ignoreFile);
+        }
+      }
+
       const entries = fs.readdirSync(dir, { withFileTypes: true });
 
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(rootPath, fullPath);
+        const relativePath = toPosix(path.relative(rootPath, fullPath));
 
         // Check if excluded
-        if (this.shouldExclude(relativePath, entry.name, excludePatterns)) {
-          excludedCount++;
+        const rule = matcher.excludedBy(relativePath, entry.isDirectory());
+        if (rule) {
+          excluded.push({ name: relativePath, isDirectory: entry.isDirectory(), rule });
           continue;
         }
 
         if (entry.isDirectory()) {
           await walk(fullPath);
         } else if (entry.isFile()) {
-          files.push(fullPath);
+          const stats = fs.statSync(fullPath);
+          files.push({ path: fullPath, name: relativePath, size: stats.size, mtimeMs: stats.mtimeMs });
+          totalBytes += stats.size;
+
+          if (maxBytes !== undefined && totalBytes > maxBytes) {
+            throw new PackageTooLargeError(maxBytes);
+          }
         }
       }
     };
 
     await walk(rootPath);
-    return { files, excludedCount };
+    return { rootPath, files, excluded, excludedCount: excluded.length, totalBytes };
+  }
+
+  /**
+   * Content hashes of the scanned files, for incremental uploads
+   */
+  async manifest(scan: SourceScan): Promise<ManifestEntry[]> {
+    const entries: ManifestEntry[] = [];
+
+    for (const file of scan.files) {
+      const hash = crypto.createHash('sha256');
+      for await (const chunk of fs.createReadStream(file.path)) {
+        hash.update(chunk as Buffer);
+      }
+      entries.push({ path: file.name, sha256: hash.digest('hex'), size: file.size });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Look for credentials in the scanned text files, or in those matching `include`
+   */
+  async findSecrets(scan: SourceScan, include?: (file: SourceFile) => boolean): Promise<SecretFinding[]> {
+    const findings: SecretFinding[] = [];
+
+    for (const file of include ? scan.files.filter(include) : scan.files) {
+      if (file.size > MAX_SECRET_SCAN_BYTES) {
+        if (!await isBinary(file.path)) {
+          findings.push(...await scanFileForSecrets(file.name, file.path));
+        }
+        continue;
+      }
+
+      const content = await fs.promises.readFile(file.path);
+      if (content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+        continue;
+      }
+
+      findings.push(...scanForSecrets(file.name, content.toString('utf-8')));
+    }
+
+    return findings;
+  }
+
+  /**
+   * Approximate size of the zip `archive` would produce for the scan, without building it
+   */
+  async estimateCompressedSize(scan: SourceScan): Promise<number> {
+    let estimate = ZIP_END_OVERHEAD;
+    let sampledBytes = 0;
+    let sampledCompressed = 0;
+    let unsampledBytes = 0;
+
+    for (const file of scan.files) {
+      estimate += ZIP_ENTRY_OVERHEAD + 2 * Buffer.byteLength(file.name);
+
+      if (COMPRESSED_EXTENSIONS.has(path.extname(file.name).toLowerCase())) {
+        estimate += file.size;
+      } else if (sampledBytes < ESTIMATE_SAMPLE_BYTES) {
+        const compressed = await deflatedSize(file.path);
+        estimate += compressed;
+        sampledBytes += file.size;
+        sampledCompressed += compressed;
+      } else {
+        unsampledBytes += file.size;
+      }
+    }
+
+    const ratio = sampledBytes > 0 ? sampledCompressed / sampledBytes : 1;
+    return Math.round(estimate + unsampledBytes * ratio);
   }
 
-  private shouldExclude(
-    relativePath: string,
-    name: string,
-    patterns: string[]
-  ): boolean {
-    for (const pattern of patterns) {
-      // Exact match
-      if (pattern === name) return true;
+  /**
+   * Stream a zip of the scanned files, or of those matching `include`
+   */
+  async archive(scan: SourceScan, include?: (file: SourceFile) => boolean): Promise<SourcePackage> {
+    const files = include ? scan.files.filter(include) : scan.files;
+
+    const fingerprint = crypto.createHash('sha256').update(`level:${COMPRESSION_LEVEL}\n`);
+    for (const file of files) {
+      fingerprint.update(`${file.name}\0${file.size}\0${file.mtimeMs}\n`);
+    }
+
+    const archiver = await import('archiver');
+    const archive = archiver.default('zip', { zlib: { level: COMPRESSION_LEVEL } });
+
+    const result: SourcePackage = {
+      stream: archive,
+      fileCount: files.length,
+      totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+      excludedCount: scan.excludedCount,
+      fingerprint: fingerprint.digest('hex'),
+      processedBytes: 0,
+    };
+
+    // Failures surface as an 'error' on the archive stream
+    this.appendFiles(archive, files, bytes => {
+      result.processedBytes += bytes;
+    }).catch(() => {});
 
-      // Path contains pattern
-      if (relativePath.includes(pattern)) return true;
+    return result;
+  }
+
+  /**
+   * Append files one at a time, waiting for each entry to be written so only
+   * one file is open and read progress follows what the consumer has taken.
+   */
+  private async appendFiles(
+    archive: Archiver,
+    files: SourceFile[],
+    onBytes: (bytes: number) => void
+  ): Promise<void> {
+    for (const file of files) {
+      const source = fs.createReadStream(file.path);
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          onBytes(chunk.length);
+          callback(null, chunk);
+        },
+      });
+      source.on('error', error => archive.destroy(error));
 
-      // Glob pattern *.ext
-      if (pattern.startsWith('*') && name.endsWith(pattern.slice(1))) return true;
+      const written = waitForEntry(archive);
+      // A fixed date per entry keeps the archive reproducible for resumed uploads
+      archive.append(source.pipe(counter), { name: file.name, date: new Date(file.mtimeMs) });
 
-      // Directory pattern ending with /
-      if (pattern.endsWith('/') && relativePath.startsWith(pattern.slice(0, -1))) return true;
+      try {
+        await written;
+      } catch (error) {
+        source.destroy();
+        throw error;
+      }
     }
-    return false;
+
+    await archive.finalize();
+  }
+}
+
+/**
+ * Resolve once the archive has written the pending entry; reject if it fails or is destroyed first
+ */
+function waitForEntry(archive: Archiver): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+      archive.off('close', onClose);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => onError(new Error('Archive closed'));
+
+    archive.on('entry', onEntry);
+    archive.on('error', onError);
+    archive.on('close', onClose);
+  });
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+function formatMB(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(2);
+}
+
+async function deflatedSize(filePath: string): Promise<number> {
+  let size = 0;
+  const deflate = zlib.createDeflateRaw({ level: COMPRESSION_LEVEL });
+  deflate.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+  });
+  await pipeline(fs.createReadStream(filePath), deflate);
+  return size;
+}
+
+async function isBinary(filePath: string): Promise<boolean> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(BINARY_SNIFF_BYTES), 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
   }
 }
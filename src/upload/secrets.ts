@@ -0,0 +1,203 @@
+// src/upload/secrets.ts
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { formatMaskedValue } from '../utils/formatting';
+
+const STORAGE_KEY = 'lightcloud.acceptedSecrets';
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  /** Capture group holding the secret itself; the whole match if omitted */
+  group?: number;
+  /** Minimum Shannon entropy (bits per character) of the secret */
+  minEntropy?: number;
+}
+
+/**
+ * High-confidence patterns only: a finding blocks the upload, so false positives are costly
+ */
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: 'aws-access-key',
+    description: 'AWS access key ID',
+    pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g,
+    group: 1,
+  },
+  {
+    id: 'aws-secret-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/g,
+    group: 1,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g,
+    group: 1,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\b(xox[abprs]-[0-9A-Za-z-]{10,})/g,
+    group: 1,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe live key',
+    pattern: /\b((?:sk|rk)_live_[0-9A-Za-z]{24,})/g,
+    group: 1,
+  },
+  {
+    // e.g. `JWT_SECRET = "..."`, `apiKey: '...'`; references like `process.env.X` stop at the dot
+    id: 'generic-secret',
+    description: 'High-entropy value assigned to a secret name',
+    pattern: /[A-Za-z0-9_-]*(?:secret|token|passw(?:or)?d|api_?key|private_?key|access_?key)[A-Za-z0-9_]*["']?\s*[:=]\s*["'`]?([A-Za-z0-9+/_=~-]{16,})/gi,
+    group: 1,
+    minEntropy: 3.5,
+  },
+];
+
+export interface SecretFinding {
+  /** Path relative to the upload root with `/` separators */
+  path: string;
+  line: number;
+  ruleId: string;
+  description: string;
+  /** The secret with all but a few characters masked, safe to show */
+  redacted: string;
+  /** Identifies this secret in this file, so it can be accepted without storing it */
+  fingerprint: string;
+}
+
+/**
+ * Find secrets in the text content of a file
+ */
+export function scanForSecrets(filePath: string, content: string): SecretFinding[] {
+  return content.split('\n').flatMap((line, index) => scanLine(filePath, line, index + 1));
+}
+
+/**
+ * Find secrets in a file too large to read at once, a line at a time
+ */
+export async function scanFileForSecrets(filePath: string, absolutePath: string): Promise<SecretFinding[]> {
+  const findings: SecretFinding[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(absolutePath, 'utf-8'), crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    findings.push(...scanLine(filePath, line, ++lineNumber));
+  }
+  return findings;
+}
+
+function scanLine(filePath: string, line: string, lineNumber: number): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  // A specific rule and the generic one can both match the same value
+  const seen = new Set<string>();
+
+  for (const rule of SECRET_RULES) {
+    for (const match of line.matchAll(rule.pattern)) {
+      const secret = match[rule.group ?? 0];
+      if (seen.has(secret) || (rule.minEntropy !== undefined && !looksRandom(secret, rule.minEntropy))) {
+        continue;
+      }
+      seen.add(secret);
+
+      findings.push({
+        path: filePath,
+        line: lineNumber,
+        ruleId: rule.id,
+        description: rule.description,
+        redacted: formatMaskedValue(secret),
+        fingerprint: crypto.createHash('sha256').update(`${filePath}\0${rule.id}\0${secret}`).digest('hex'),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Mixed letters and digits with enough entropy; placeholders like `your-api-key-here` fail this
+ */
+function looksRandom(value: string, minEntropy: number): boolean {
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= minEntropy;
+}
+
+/**
+ * Secrets the user has chosen to upload anyway, per workspace
+ */
+export class AcceptedSecretStore {
+  constructor(private memento: vscode.Memento) {}
+
+  isAccepted(finding: SecretFinding): boolean {
+    return this.all().includes(finding.fingerprint);
+  }
+
+  async accept(fingerprints: string[]): Promise<void> {
+    await this.memento.update(STORAGE_KEY, [...new Set([...this.all(), ...fingerprints])]);
+  }
+
+  private all(): string[] {
+    return this.memento.get<string[]>(STORAGE_KEY, []);
+  }
+}
+
+/**
+ * Render a findings report in the chat stream, with buttons to exclude or accept the files
+ */
+export function showSecretFindings(
+  stream: vscode.ChatResponseStream,
+  findings: SecretFinding[],
+  workspaceFolder: string
+): void {
+  stream.markdown('## 🔐 Possible Secrets Found\n\n');
+  stream.markdown('The upload was stopped because these files look like they contain credentials:\n\n');
+  stream.markdown('| File | Line | Type | Value |\n');
+  stream.markdown('|------|------|------|-------|\n');
+  for (const finding of findings) {
+    stream.markdown(`| \`${finding.path}\` | ${finding.line} | ${finding.description} | \`${finding.redacted}\` |\n`);
+  }
+  stream.markdown('\nExclude the files from uploads, or accept them if they are safe to upload, then run the command again.\n\n');
+
+  stream.button({
+    command: 'lightcloud.excludeFromUpload',
+    title: '🚫 Exclude Files',
+    arguments: [{ workspaceFolder, paths: [...new Set(findings.map(f => f.path))] }],
+  });
+  stream.button({
+    command: 'lightcloud.acceptSecrets',
+    title: '⚠️ Upload Anyway',
+    arguments: [{ fingerprints: findings.map(f => f.fingerprint) }],
+  });
+}
@@ -0,0 +1,54 @@
+// src/upload/upload-sessions.ts
+
+import * as vscode from 'vscode';
+
+const STORAGE_KEY = 'lightcloud.uploadSessions';
+
+// Storage sessions live for a week; give up a day early
+const SESSION_TTL_MS = 6 * 24 * 60 * 60 * 1000;
+
+/**
+ * A resumable upload in progress, persisted so it can continue after a reload
+ */
+export interface UploadSession {
+  key: string;
+  /** Fingerprint of the packaged files; the archive is only resumable if it is unchanged */
+  fingerprint: string;
+  uploadId: string;
+  sessionUrl: string;
+  /** Archive bytes confirmed by the server */
+  offset: number;
+  /** SHA-256 of the first `offset` archive bytes, checked when resuming */
+  prefixHash: string;
+  createdAt: string;
+}
+
+/**
+ * Persists resumable upload sessions in extension global state
+ */
+export class UploadSessionStore {
+  constructor(private memento: vscode.Memento) {}
+
+  get(key: string): UploadSession | undefined {
+    const session = this.all()[key];
+    if (session && Date.now() - Date.parse(session.createdAt) > SESSION_TTL_MS) {
+      void this.delete(key);
+      return undefined;
+    }
+    return session;
+  }
+
+  async save(session: UploadSession): Promise<void> {
+    await this.memento.update(STORAGE_KEY, { ...this.all(), [session.key]: session });
+  }
+
+  async delete(key: string): Promise<void> {
+    const sessions = this.all();
+    delete sessions[key];
+    await this.memento.update(STORAGE_KEY, sessions);
+  }
+
+  private all(): Record<string, UploadSession> {
+    return { ...this.memento.get<Record<string, UploadSession>>(STORAGE_KEY, {}) };
+  }
+}
@@ -1,82 +1,437 @@
 // src/upload/uploader.ts
 
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { LightCloudApi } from '../api/endpoints';
+import { UploadRequestUrlRequest } from '../api/types';
+import { SourcePackage } from './packager';
+import { UploadSession, UploadSessionStore } from './upload-sessions';
 
-interface UploadProgress {
+// Resumable chunks must be multiples of 256 KiB (except the last)
+const CHUNK_GRANULARITY = 256 * 1024;
+const DEFAULT_CHUNK_SIZE_MB = 8;
+const CHUNK_TIMEOUT_MS = 60000;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface UploadProgress {
+  /** Uncompressed source bytes streamed so far */
   loaded: number;
   total: number;
   percentage: number;
 }
 
+interface HttpResult {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * The resumable session can't be continued; the next attempt starts a new upload
+ */
+class SessionExpiredError extends Error {}
+
 export class SourceUploader {
-  constructor(private api: LightCloudApi) {}
+  constructor(private api: LightCloudApi, private sessions?: UploadSessionStore) {}
 
   async upload(
     organisationId: string,
-    buffer: Buffer,
+    source: SourcePackage,
     fileName: string,
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    incremental: Pick<UploadRequestUrlRequest, 'manifest' | 'baseUploadId'> = {}
   ): Promise<{ uploadId: string } | { error: string }> {
-    // Step 1: Request signed URL
-    const urlResult = await this.api.requestUploadUrl({
-      targetOrganisationId: organisationId,
-      fileName,
-      contentType: 'application/zip',
-      fileSize: buffer.length,
-    });
+    const sessionKey = `${organisationId}:${fileName}`;
+    const report = createReporter(source, onProgress);
 
-    if (!urlResult.success || !urlResult.data) {
-      return { error: urlResult.error?.message || 'Failed to get upload URL' };
-    }
+    // A delta archive is only resumable against the same manifest and base
+    const fingerprint = incremental.manifest
+      ? crypto.createHash('sha256').update(source.fingerprint).update(JSON.stringify(incremental)).digest('hex')
+      : source.fingerprint;
 
-    const { uploadId, signedUrl } = urlResult.data;
-
-    // Step 2: Upload to signed URL
     try {
-      const response = await this.uploadToSignedUrl(signedUrl, buffer, onProgress);
+      // Step 1: Resume a session from an earlier attempt, or request a new signed URL
+      let session = await this.resumableSession(sessionKey, fingerprint);
+
+      if (!session) {
+        // The archive size isn't known until it has been streamed,
+        // so the uncompressed size is sent as an upper bound
+        const urlResult = await this.api.requestUploadUrl({
+          targetOrganisationId: organisationId,
+          fileName,
+          contentType: 'application/zip',
+          fileSize: source.totalBytes,
+          resumable: true,
+          ...incremental,
+        });
+
+        if (!urlResult.success || !urlResult.data) {
+          source.stream.destroy();
+          return { error: urlResult.error?.message || 'Failed to get upload URL' };
+        }
+
+        const { uploadId, signedUrl, resumable } = urlResult.data;
+
+        if (!resumable) {
+          // Step 2 (fallback): a single streamed PUT
+          const status = await this.uploadToSignedUrl(signedUrl, source, report);
+          if (status < 200 || status >= 300) {
+            return { error: `Upload failed: ${status}` };
+          }
+          return await this.complete(organisationId, uploadId);
+        }
 
-      if (!response.ok) {
-        return { error: `Upload failed: ${response.status}` };
+        session = {
+          key: sessionKey,
+          fingerprint,
+          uploadId,
+          sessionUrl: await this.startSession(signedUrl),
+          offset: 0,
+          prefixHash: crypto.createHash('sha256').digest('hex'),
+          createdAt: new Date().toISOString(),
+        };
+        await this.sessions?.save(session);
       }
 
+      // Step 2: Upload in chunks, retrying and resuming from what the server has
+      await this.uploadChunks(session, source, report);
+
       // Step 3: Confirm upload
-      const completeResult = await this.api.completeUpload(organisationId, uploadId);
+      const result = await this.complete(organisationId, session.uploadId);
+      if ('uploadId' in result) {
+        await this.sessions?.delete(sessionKey);
+      }
+      return result;
 
-      if (!completeResult.success) {
-        return { error: completeResult.error?.message || 'Failed to confirm upload' };
+    } catch (error) {
+      source.stream.destroy();
+      if (error instanceof SessionExpiredError) {
+        await this.sessions?.delete(sessionKey);
       }
+      return { error: error instanceof Error ? error.message : 'Upload failed' };
+    }
+  }
+
+  private async complete(organisationId: string, uploadId: string): Promise<{ uploadId: string } | { error: string }> {
+    const completeResult = await this.api.completeUpload(organisationId, uploadId);
+
+    if (!completeResult.success) {
+      return { error: completeResult.error?.message || 'Failed to confirm upload' };
+    }
+
+    return { uploadId };
+  }
+
+  // ============ Resumable Uploads ============
 
-      return { uploadId };
+  /**
+   * A saved session for the same files that the server still knows about
+   */
+  private async resumableSession(key: string, fingerprint: string): Promise<UploadSession | undefined> {
+    const saved = this.sessions?.get(key);
+    if (!saved) {
+      return undefined;
+    }
 
+    try {
+      if (saved.fingerprint !== fingerprint) {
+        throw new SessionExpiredError('Project files changed');
+      }
+      await this.queryOffset(saved.sessionUrl);
+      return saved;
     } catch (error) {
-      return { error: error instanceof Error ? error.message : 'Upload failed' };
+      if (!(error instanceof SessionExpiredError)) {
+        throw error;
+      }
+      await this.sessions?.delete(key);
+      return undefined;
+    }
+  }
+
+  private async startSession(signedUrl: string): Promise<string> {
+    const response = await send(signedUrl, 'POST', {
+      'Content-Type': 'application/zip',
+      'x-goog-resumable': 'start',
+    });
+
+    const location = response.headers.location;
+    if (response.status < 200 || response.status >= 300 || !location) {
+      throw new Error(`Could not start upload session: ${response.status}`);
+    }
+    return new URL(location, signedUrl).toString();
+  }
+
+  /**
+   * Ask the server how many bytes it has. Returns `undefined` once the upload is complete.
+   */
+  private async queryOffset(sessionUrl: string, total?: number): Promise<number | undefined> {
+    const response = await send(sessionUrl, 'PUT', { 'Content-Range': `bytes */${total ?? '*'}` });
+    return this.offsetFrom(response);
+  }
+
+  private offsetFrom(response: HttpResult): number | undefined {
+    if (response.status === 200 || response.status === 201) {
+      return undefined;
+    }
+    if (response.status === 308) {
+      // `Range: bytes=0-N` means N + 1 bytes were persisted; no header means none
+      const match = /bytes=0-(\d+)/.exec(String(response.headers.range || ''));
+      return match ? Number(match[1]) + 1 : 0;
+    }
+    if (response.status === 404 || response.status === 410) {
+      throw new SessionExpiredError('The upload session has expired. Please try again.');
+    }
+    throw new Error(`Upload failed: ${response.status}`);
+  }
+
+  /**
+   * Read the archive and send it in chunks. Bytes the server already has are
+   * skipped (and checked against the saved prefix hash); failed chunks are retried
+   * with backoff from the offset the server reports, using smaller chunks.
+   */
+  private async uploadChunks(
+    session: UploadSession,
+    source: SourcePackage,
+    report: () => void
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration('lightcloud');
+    const maxRetries = config.get<number>('maxRetries') ?? 3;
+    let chunkSize = toChunkSize((config.get<number>('uploadChunkSizeMB') || DEFAULT_CHUNK_SIZE_MB) * 1024 * 1024);
+
+    const serverOffset = await this.queryOffset(session.sessionUrl);
+    if (serverOffset === undefined) {
+      // Finished before the last attempt could confirm it
+      source.stream.destroy();
+      return;
+    }
+
+    // The regenerated archive must match the saved prefix before anything new is sent
+    const verifyAt = session.offset;
+    const prefixHash = crypto.createHash('sha256');
+    let confirmed = serverOffset;
+    let position = 0;
+
+    // Bytes read but not yet confirmed, joined only when a chunk is sent
+    let pendingParts: Buffer[] = [];
+    let pendingLength = 0;
+    const pending = () => {
+      if (pendingParts.length !== 1) {
+        pendingParts = [Buffer.concat(pendingParts)];
+      }
+      return pendingParts[0];
+    };
+
+    const skipPrefix = (data: Buffer) => {
+      if (verifyAt > 0 && position < verifyAt && position + data.length >= verifyAt) {
+        prefixHash.update(data.subarray(0, verifyAt - position));
+        if (prefixHash.copy().digest('hex') !== session.prefixHash) {
+          throw new SessionExpiredError('Project files changed since the upload started. Please try again.');
+        }
+        prefixHash.update(data.subarray(verifyAt - position));
+      } else {
+        prefixHash.update(data);
+      }
+    };
+
+    const confirm = async (offset: number) => {
+      const buffer = pending();
+      prefixHash.update(buffer.subarray(0, offset - confirmed));
+      pendingParts = [buffer.subarray(offset - confirmed)];
+      pendingLength -= offset - confirmed;
+      confirmed = offset;
+      await this.sessions?.save({ ...session, offset, prefixHash: prefixHash.copy().digest('hex') });
+    };
+
+    // Returns true once the server reports the upload complete
+    const sendChunk = async (total?: number): Promise<boolean> => {
+      for (let attempt = 0; ; attempt++) {
+        const body = total === undefined ? pending().subarray(0, chunkSize) : pending();
+        const range = body.length > 0
+          ? `bytes ${confirmed}-${confirmed + body.length - 1}/${total ?? '*'}`
+          : `bytes */${total}`;
+
+        try {
+          const response = await send(session.sessionUrl, 'PUT', { 'Content-Range': range }, body);
+          const offset = this.offsetFrom(response);
+          if (offset === undefined) {
+            await confirm(confirmed + body.length);
+            return true;
+          }
+          if (offset > confirmed) {
+            await confirm(offset);
+            return false;
+          }
+          throw new Error('Upload made no progress');
+        } catch (error) {
+          if (error instanceof SessionExpiredError || attempt >= maxRetries) {
+            throw error;
+          }
+        }
+
+        // Smaller chunks lose less on a flaky connection
+        chunkSize = toChunkSize(chunkSize / 2);
+        await new Promise(resolve => setTimeout(resolve, retryDelay(attempt)));
+
+        try {
+          const offset = await this.queryOffset(session.sessionUrl, total);
+          if (offset === undefined) {
+            await confirm(confirmed + pendingLength);
+            return true;
+          }
+          if (offset > confirmed) {
+            await confirm(offset);
+            return false;
+          }
+        } catch (error) {
+          if (error instanceof SessionExpiredError) {
+            throw error;
+          }
+          // Still offline; the next attempt will tell
+        }
+      }
+    };
+
+    for await (const chunk of source.stream) {
+      const data = chunk as Buffer;
+
+      // Skip what the server already has, hashing it to check it still matches
+      const skip = Math.max(0, Math.min(data.length, confirmed - position));
+      if (skip > 0) {
+        skipPrefix(data.subarray(0, skip));
+      }
+      position += data.length;
+      if (skip < data.length) {
+        pendingParts.push(data.subarray(skip));
+        pendingLength += data.length - skip;
+      }
+      report();
+
+      // Keep at least one byte back so the final chunk is never empty
+      while (pendingLength > chunkSize) {
+        await sendChunk();
+      }
+    }
+
+    if (position < confirmed) {
+      throw new SessionExpiredError('Project files changed since the upload started. Please try again.');
+    }
+
+    // Send the rest with the total size so the server can finalise
+    while (!(await sendChunk(position))) {
+      // Partially accepted; send what's left
     }
+    report();
   }
 
-  private async uploadToSignedUrl(
+  // ============ Single PUT ============
+
+  /**
+   * PUT the archive with chunked transfer encoding, reporting progress as
+   * compressed chunks are handed to the socket. Resolves with the HTTP status.
+   */
+  private uploadToSignedUrl(
     url: string,
-    buffer: Buffer,
-    onProgress?: (progress: UploadProgress) => void
-  ): Promise<Response> {
-    // Simple upload without detailed progress
-    // In a real implementation, you might use XMLHttpRequest for progress events
-
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/zip',
-        'Content-Length': buffer.length.toString(),
+    source: SourcePackage,
+    report: () => void
+  ): Promise<number> {
+    const target = new URL(url);
+    const transport = target.protocol === 'http:' ? http : https;
+
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        report();
+        callback(null, chunk);
       },
-      body: buffer,
     });
 
-    // Report 100% on completion
-    onProgress?.({
-      loaded: buffer.length,
-      total: buffer.length,
-      percentage: 100,
-    });
+    return new Promise((resolve, reject) => {
+      const request = transport.request(target, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/zip',
+          'Transfer-Encoding': 'chunked',
+        },
+      });
 
-    return response;
+      // The server may reject the upload (e.g. too large) before reading all of it
+      let responded = false;
+      request.on('response', response => {
+        responded = true;
+        response.resume();
+        response.on('error', reject);
+        response.on('end', () => {
+          if (response.statusCode && response.statusCode < 300) {
+            report();
+          }
+          resolve(response.statusCode || 0);
+        });
+      });
+
+      pipeline(source.stream, counter, request).catch(error => {
+        source.stream.destroy();
+        if (!responded) {
+          reject(error);
+        }
+      });
+    });
   }
 }
+
+/**
+ * Report progress in uncompressed source bytes, once per percentage point
+ */
+function createReporter(source: SourcePackage, onProgress?: (progress: UploadProgress) => void): () => void {
+  let lastPercentage = -1;
+
+  return () => {
+    const percentage = source.totalBytes > 0
+      ? Math.min(100, Math.floor((source.processedBytes / source.totalBytes) * 100))
+      : 100;
+    if (percentage !== lastPercentage) {
+      lastPercentage = percentage;
+      onProgress?.({ loaded: source.processedBytes, total: source.totalBytes, percentage });
+    }
+  };
+}
+
+/**
+ * Send one request to the storage URL, discarding the response body
+ */
+function send(url: string, method: string, headers: Record<string, string>, body?: Buffer): Promise<HttpResult> {
+  const target = new URL(url);
+  const transport = target.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(target, {
+      method,
+      headers: { ...headers, 'Content-Length': String(body?.length ?? 0) },
+    }, response => {
+      response.resume();
+      response.on('error', reject);
+      response.on('end', () => resolve({ status: response.statusCode || 0, headers: response.headers }));
+    });
+
+    request.setTimeout(CHUNK_TIMEOUT_MS, () => request.destroy(new Error('Upload timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Round down to a multiple of the chunk granularity
+ */
+function toChunkSize(bytes: number): number {
+  return Math.max(CHUNK_GRANULARITY, Math.floor(bytes / CHUNK_GRANULARITY) * CHUNK_GRANULARITY);
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function retryDelay(attempt: number): number {
+  const cap = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
@@ -0,0 +1,88 @@
+// src/utils/args.ts
+
+export interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Split a chat prompt into positional arguments and --flags.
+ * Supports quoted values ("my value") and both `--flag value` and `--flag=value`.
+ * Flags listed in `booleanFlags` never consume the following token.
+ */
+export function parseArgs(prompt: string, booleanFlags: string[] = []): ParsedArgs {
+  const tokens = tokenize(prompt);
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.startsWith('--') && token.length > 2) {
+      const eq = token.indexOf('=');
+      const name = eq !== -1 ? token.slice(2, eq) : token.slice(2);
+      if (eq !== -1) {
+        flags[name] = token.slice(eq + 1);
+      } else if (!booleanFlags.includes(name) && i + 1 < tokens.length && !tokens[i + 1].startsWith('--')) {
+        flags[name] = tokens[++i];
+      } else {
+        flags[name] = true;
+      }
+      continue;
+    }
+
+    positional.push(token);
+  }
+
+  return { positional, flags };
+}
+
+/**
+ * Read a string flag, ignoring boolean (value-less) occurrences
+ */
+export function getStringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | '\'' | null = null;
+  let hasToken = false;
+
+  for (const char of input.trim()) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      quote = char;
+      hasToken = true;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+        current = '';
+        hasToken = false;
+      }
+      continue;
+    }
+
+    current += char;
+    hasToken = true;
+  }
+
+  if (hasToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
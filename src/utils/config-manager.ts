@@ -3,6 +3,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { AsyncLocalStorage } from 'async_hooks';
 
 export interface LightCloudConfig {
   organisationId?: string;
@@ -15,14 +16,118 @@ export interface LightCloudConfig {
   framework?: string;
   runtime?: string;
   lastDeployedAt?: string;
+  /** Preview environments created with `/preview`, by branch */
+  previews?: Record<string, PreviewEnvironment>;
+}
+
+export interface PreviewEnvironment {
+  environmentId: string;
+  environmentName: string;
+  url?: string;
 }
 
 const CONFIG_FILENAME = '.lightcloud';
+export const LOCAL_CONFIG_FILENAME = '.lightcloud.local';
+export const CONFIG_VERSION = 2;
+
+/**
+ * Fields that belong to one user, kept out of the committed `.lightcloud`:
+ * which of their organisations holds the app, and when they last deployed it
+ */
+const LOCAL_KEYS: (keyof LightCloudConfig)[] = ['organisationId', 'organisationName', 'lastDeployedAt'];
+
+type Check = (value: unknown) => string | undefined;
+
+const isString: Check = value => typeof value === 'string' && value ? undefined : 'must be a non-empty string';
+
+const CONFIG_CHECKS: Record<keyof LightCloudConfig, Check> = {
+  organisationId: isString,
+  organisationName: isString,
+  applicationId: isString,
+  applicationName: isString,
+  environmentId: isString,
+  environmentName: isString,
+  deploymentType: value => value === 'static' || value === 'container' ? undefined : 'must be "static" or "container"',
+  framework: isString,
+  runtime: isString,
+  lastDeployedAt: value => typeof value === 'string' && !isNaN(Date.parse(value)) ? undefined : 'must be an ISO date',
+  previews: value => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return 'must be an object of branch names to environments';
+    }
+    const invalid = Object.entries(value).find(([, preview]) =>
+      typeof preview?.environmentId !== 'string' || typeof preview?.environmentName !== 'string'
+    );
+    return invalid ? `has an invalid entry for "${invalid[0]}" (it needs an environmentId and environmentName)` : undefined;
+  },
+};
+
+/**
+ * A `.lightcloud` or `.lightcloud.local` file that can't be used as it is
+ */
+export class InvalidConfigError extends Error {
+  constructor(readonly file: string, readonly errors: string[]) {
+    super(
+      `\`${path.basename(file)}\` in ${path.dirname(file)} is invalid: ${errors.join('; ')}. `
+      + 'Fix the file, or delete it and run `/deploy` to link the app again.'
+    );
+    this.name = 'InvalidConfigError';
+  }
+}
+
+const projectScope = new AsyncLocalStorage<string>();
+
+const changeEmitter = new vscode.EventEmitter<string>();
 
+/**
+ * Fires with the app directory whenever its `.lightcloud` or `.lightcloud.local` is
+ * created, changed or deleted, by this extension or anyone else. Requires `watchConfig`.
+ */
+export const onDidChangeConfig = changeEmitter.event;
+
+/**
+ * Watch every `.lightcloud` and `.lightcloud.local` in the workspace, so views
+ * showing the linked app refresh when a teammate's pull or a manual edit changes it
+ */
+export function watchConfig(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/{${CONFIG_FILENAME},${LOCAL_CONFIG_FILENAME}}`);
+  const fire = (uri: vscode.Uri) => changeEmitter.fire(path.dirname(uri.fsPath));
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(fire),
+    watcher.onDidChange(fire),
+    watcher.onDidDelete(fire)
+  );
+}
+
+/**
+ * Run `fn` with an app directory in scope.
+ * Config managers created without a root read and write that directory's
+ * `.lightcloud` while `fn` runs, so each package of a monorepo has its own link.
+ */
+export function runInProject<T>(rootPath: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return rootPath ? projectScope.run(rootPath, fn) : fn();
+}
+
+/**
+ * Reads and writes an app directory's link to Light Cloud. It is split in two files:
+ * - `.lightcloud`, committed, names the application and environment the directory deploys to
+ * - `.lightcloud.local`, git-ignored, holds the user's organisation and last deploy time
+ *
+ * `read` returns the two merged. Files from before the split are migrated when read.
+ */
 export class ConfigManager {
+  /**
+   * @param rootPath Directory holding the `.lightcloud` file; defaults to the
+   * app directory in scope (see `runInProject`), then the first workspace folder
+   */
+  constructor(private rootPath?: string) {}
+
   // Always get workspace root dynamically to handle folder changes
   private getWorkspaceRoot(): string | undefined {
-    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return this.rootPath
+      ?? projectScope.getStore()
+      ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   }
 
   private getConfigPath(): string | undefined {
@@ -34,7 +139,9 @@ export class ConfigManager {
   }
 
   /**
-   * Read the .lightcloud config file from the workspace root
+   * Read the link for the app directory, or null when it is not linked.
+   * @throws InvalidConfigError when a file is not valid JSON, has unknown or mistyped
+   * fields, or was written by a newer version of the extension
    */
   read(): LightCloudConfig | null {
     const configPath = this.getConfigPath();
@@ -42,63 +149,56 @@ export class ConfigManager {
       return null;
     }
 
-    try {
-      if (fs.existsSync(configPath)) {
-        const content = fs.readFileSync(configPath, 'utf-8');
-        return JSON.parse(content) as LightCloudConfig;
+    const localPath = localPathFor(configPath);
+    const shared = readConfigFile(configPath);
+    const local = readConfigFile(localPath);
+    if (!shared && !local) {
+      return null;
+    }
+
+    // Version 1, usually unversioned, kept everything in `.lightcloud`
+    if (shared && (shared.version ?? 1) < CONFIG_VERSION) {
+      const { version, ...config } = { ...shared, ...local };
+      // Migrate only if no one else is writing the link; otherwise a later read will
+      try {
+        if (tryLock(configPath)) {
+          try {
+            writeSplit(configPath, config);
+          } finally {
+            unlock(configPath);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to migrate .lightcloud config:', error);
       }
-    } catch (error) {
-      console.error('Failed to read .lightcloud config:', error);
+      return config;
     }
 
-    return null;
+    const { version, ...config } = { ...shared, ...local };
+    return config;
   }
 
   /**
-   * Write/update the .lightcloud config file
+   * Write/update the .lightcloud config files.
+   * Changes are merged into the current link under a lock, and each file is replaced atomically,
+   * so concurrent writers and crashes never leave a partial file.
+   * A link that can't be read is replaced, since the caller is writing a fresh one.
    */
-  write(config: Partial<LightCloudConfig>): boolean {
-    const configPath = this.getConfigPath();
-    if (!configPath) {
-      console.error('No workspace folder open - cannot save .lightcloud config');
-      vscode.window.showWarningMessage('No workspace folder open. .lightcloud config was not saved. Open a folder and redeploy to enable /redeploy.');
-      return false;
-    }
-
-    try {
-      // Merge with existing config
-      const existingConfig = this.read() || {};
-      const newConfig: LightCloudConfig = {
-        ...existingConfig,
-        ...config,
-      };
-
-      // Remove undefined values
-      Object.keys(newConfig).forEach((key) => {
-        if (newConfig[key as keyof LightCloudConfig] === undefined) {
-          delete newConfig[key as keyof LightCloudConfig];
-        }
-      });
-
-      fs.writeFileSync(configPath, JSON.stringify(newConfig, null, 2) + '\n', 'utf-8');
-      return true;
-    } catch (error) {
-      console.error('Failed to write .lightcloud config:', error);
-      return false;
-    }
+  write(config: Partial<LightCloudConfig>): Promise<boolean> {
+    return this.modify(() => config);
   }
 
   /**
    * Update specific fields in the config
    */
-  update(updates: Partial<LightCloudConfig>): boolean {
+  update(updates: Partial<LightCloudConfig>): Promise<boolean> {
     return this.write(updates);
   }
 
   /**
    * Save organisation context after login
    */
-  saveOrganisation(organisationId: string, organisationName: string): boolean {
+  saveOrganisation(organisationId: string, organisationName: string): Promise<boolean> {
     return this.write({
       organisationId,
       organisationName,
@@ -118,7 +218,7 @@ export class ConfigManager {
       framework?: string;
       runtime?: string;
     }
-  ): boolean {
+  ): Promise<boolean> {
     return this.write({
       applicationId,
       applicationName,
@@ -132,18 +232,38 @@ export class ConfigManager {
   }
 
   /**
-   * Clear the config file (e.g., after destroy)
+   * Record the preview environment deployed for a branch
+   */
+  savePreview(branch: string, preview: PreviewEnvironment): Promise<boolean> {
+    return this.modify(existing => ({ previews: { ...existing.previews, [branch]: preview } }));
+  }
+
+  /**
+   * Forget a preview environment after it is deleted
+   */
+  removePreview(environmentId: string): Promise<boolean> {
+    return this.modify(existing => {
+      const remaining = Object.fromEntries(
+        Object.entries(existing.previews || {}).filter(([, preview]) => preview.environmentId !== environmentId)
+      );
+      return { previews: Object.keys(remaining).length > 0 ? remaining : undefined };
+    });
+  }
+
+  /**
+   * Clear both config files (e.g., after destroy)
    */
-  clear(): boolean {
+  async clear(): Promise<boolean> {
     const configPath = this.getConfigPath();
     if (!configPath) {
       return false;
     }
 
     try {
-      if (fs.existsSync(configPath)) {
-        fs.unlinkSync(configPath);
-      }
+      await withLock(configPath, () => {
+        fs.rmSync(configPath, { force: true });
+        fs.rmSync(localPathFor(configPath), { force: true });
+      });
       return true;
     } catch (error) {
       console.error('Failed to clear .lightcloud config:', error);
@@ -151,6 +271,14 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Directory the .lightcloud file is read from, e.g. to hand to a button command
+   * that runs outside the chat request
+   */
+  getDirectory(): string | undefined {
+    return this.getWorkspaceRoot();
+  }
+
   /**
    * Check if config exists
    */
@@ -179,12 +307,252 @@ export class ConfigManager {
   getEnvironmentId(): string | null {
     return this.read()?.environmentId || null;
   }
+
+  /**
+   * Merge the changes `updater` derives from the current link, reading and writing under one lock
+   * so a concurrent writer's changes are not lost
+   */
+  private async modify(updater: (existing: LightCloudConfig) => Partial<LightCloudConfig>): Promise<boolean> {
+    const configPath = this.getConfigPath();
+    if (!configPath) {
+      console.error('No workspace folder open - cannot save .lightcloud config');
+      vscode.window.showWarningMessage('No workspace folder open. .lightcloud config was not saved. Open a folder and redeploy to enable /redeploy.');
+      return false;
+    }
+
+    try {
+      await withLock(configPath, () => {
+        let existingConfig: LightCloudConfig = {};
+        try {
+          existingConfig = this.readUnlocked(configPath);
+        } catch (error) {
+          console.error('Replacing invalid .lightcloud config:', error);
+        }
+
+        // Merge with existing config
+        writeSplit(configPath, { ...existingConfig, ...updater(existingConfig) });
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to write .lightcloud config:', error);
+      return false;
+    }
+  }
+
+  private readUnlocked(configPath: string): LightCloudConfig {
+    const { version, ...config } = { ...readConfigFile(configPath), ...readConfigFile(localPathFor(configPath)) };
+    return config;
+  }
+}
+
+/**
+ * Problems with a parsed config file, as `field message` sentences; empty when it is valid
+ */
+export function validateConfig(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['it must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'version') {
+      if (value !== 1 && value !== CONFIG_VERSION) {
+        errors.push(typeof value === 'number' && value > CONFIG_VERSION
+          ? `\`version\` ${value} was written by a newer version of the extension; update it`
+          : `\`version\` must be ${CONFIG_VERSION}`);
+      }
+      continue;
+    }
+    const check = CONFIG_CHECKS[key as keyof LightCloudConfig];
+    const error = check ? check(value) : 'is not a known field';
+    if (error) {
+      errors.push(`\`${key}\` ${error}`);
+    }
+  }
+  return errors;
+}
+
+function localPathFor(configPath: string): string {
+  return path.join(path.dirname(configPath), LOCAL_CONFIG_FILENAME);
+}
+
+function readConfigFile(filePath: string): (LightCloudConfig & { version?: number }) | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidConfigError(filePath, [`it is not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+  }
+
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new InvalidConfigError(filePath, errors);
+  }
+  return config as LightCloudConfig & { version?: number };
+}
+
+/**
+ * Write the shared and per-user fields to their files, and keep the per-user file out of git
+ */
+function writeSplit(configPath: string, config: LightCloudConfig): void {
+  const shared: Record<string, unknown> = { version: CONFIG_VERSION };
+  const local: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    // Remove undefined values
+    if (value !== undefined) {
+      (LOCAL_KEYS.includes(key as keyof LightCloudConfig) ? local : shared)[key] = value;
+    }
+  }
+
+  if (Object.keys(shared).length > 1 || fs.existsSync(configPath)) {
+    writeAtomic(configPath, shared);
+  }
+  if (Object.keys(local).length > 0) {
+    const localPath = localPathFor(configPath);
+    writeAtomic(localPath, local);
+    ignoreInGit(path.dirname(configPath));
+  }
+}
+
+/**
+ * Write to a temporary file and rename it over the target, so readers see the old file or the new one
+ */
+function writeAtomic(filePath: string, content: Record<string, unknown>): void {
+  const text = JSON.stringify(content, null, 2) + '\n';
+  // Leave an unchanged file alone, so the committed link doesn't churn
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === text) {
+    return;
+  }
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, text, 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+// A lock older than this was left by a crashed writer
+const STALE_LOCK_MS = 10000;
+// Longer than STALE_LOCK_MS, so a writer outwaits a lock whose owner can't be checked
+const LOCK_TIMEOUT_MS = STALE_LOCK_MS + 2000;
+
+/**
+ * Run `fn` holding `<config>.lock`, shared with other windows writing the same link.
+ * Waits for the lock between attempts without blocking the extension host.
+ */
+async function withLock<T>(configPath: string, fn: () => T): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!tryLock(configPath)) {
+    if (Date.now() > deadline) {
+      throw new Error(`${path.basename(configPath)} is locked by another window (${configPath}.lock)`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  try {
+    return fn();
+  } finally {
+    unlock(configPath);
+  }
+}
+
+/**
+ * Take `<config>.lock` if it is free or was left by a crashed writer; false when someone else holds it.
+ * The lock file holds its owner's process id, so a lock whose owner has exited is cleared at once.
+ */
+function tryLock(configPath: string): boolean {
+  const lockPath = `${configPath}.lock`;
+  try {
+    fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  const age = Date.now() - (fs.statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs ?? Date.now());
+  if (age > STALE_LOCK_MS || !isOwnerAlive(lockPath)) {
+    fs.rmSync(lockPath, { force: true });
+    return tryLock(configPath);
+  }
+  return false;
+}
+
+/**
+ * Whether the process that wrote a lock file is still running; true when the owner is unknown,
+ * e.g. the file is still being written
+ */
+function isOwnerAlive(lockPath: string): boolean {
+  let pid: number;
+  try {
+    pid = parseInt(fs.readFileSync(lockPath, 'utf-8'), 10);
+  } catch {
+    return true;
+  }
+  if (!(pid > 0)) {
+    return true;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: running, but owned by another user
+    return (error as NodeJS.ErrnoException).code !== 'ESRCH';
+  }
+}
+
+function unlock(configPath: string): void {
+  fs.rmSync(`${configPath}.lock`, { force: true });
+}
+
+/**
+ * Add `.lightcloud.local` to the app directory's `.gitignore` when it is in a git repository
+ * and neither that `.gitignore` nor the repository root's ignores it yet
+ */
+function ignoreInGit(directory: string): void {
+  let gitRoot: string | undefined;
+  for (let dir = directory; ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      gitRoot = dir;
+      break;
+    }
+    if (path.dirname(dir) === dir) {
+      return;
+    }
+  }
+
+  const ignored = (file: string) => fs.existsSync(file) && fs.readFileSync(file, 'utf-8')
+    .split('\n')
+    .some(line => ['.lightcloud.local', '/.lightcloud.local', '.lightcloud.*', '*.local'].includes(line.trim()));
+
+  const ignorePath = path.join(directory, '.gitignore');
+  if (ignored(ignorePath) || ignored(path.join(gitRoot, '.gitignore'))) {
+    return;
+  }
+
+  const existing = fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf-8') : '';
+  const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+  fs.writeFileSync(ignorePath, `${existing}${separator}# Light Cloud per-user link\n${LOCAL_CONFIG_FILENAME}\n`);
 }
 
 // Singleton instance
 let configManagerInstance: ConfigManager | null = null;
 
-export function getConfigManager(): ConfigManager {
+/**
+ * The shared config manager, or one for a specific app directory
+ */
+export function getConfigManager(rootPath?: string): ConfigManager {
+  if (rootPath) {
+    return new ConfigManager(rootPath);
+  }
   if (!configManagerInstance) {
     configManagerInstance = new ConfigManager();
   }
@@ -0,0 +1,109 @@
+// src/utils/environment-resolver.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Environment } from '../api/types';
+import { getConfigManager, InvalidConfigError, runInProject } from './config-manager';
+import { checkLinkedOrganisation } from './organisation-resolver';
+import { resolveProject } from './project-resolver';
+
+export interface ResolvedEnvironment {
+  organisationId: string;
+  applicationId: string;
+  applicationName: string;
+  environment: Environment;
+}
+
+export interface ResolveFailure {
+  status: 'no-config' | 'not-found' | 'cancelled' | 'error';
+  message: string;
+}
+
+/**
+ * Resolve the environment a command should act on.
+ * Uses the environment linked in `.lightcloud`, or looks up `environmentName`
+ * among the linked application's environments when one is given.
+ * An explicit `org` (from `--org`) must match the linked application's organisation.
+ */
+export async function resolveEnvironment(
+  api: LightCloudApi,
+  environmentName?: string,
+  org?: string
+): Promise<ResolvedEnvironment | ResolveFailure> {
+  let savedConfig;
+  try {
+    savedConfig = getConfigManager().read();
+  } catch (error) {
+    if (error instanceof InvalidConfigError) {
+      return { status: 'error', message: error.message };
+    }
+    throw error;
+  }
+
+  if (!savedConfig?.applicationId || !savedConfig?.organisationId) {
+    return { status: 'no-config', message: 'No application found. Deploy first with /deploy.' };
+  }
+
+  const { organisationId, applicationId } = savedConfig;
+  const applicationName = savedConfig.applicationName || 'Unknown';
+
+  const orgFailure = await checkLinkedOrganisation(api, org, organisationId, applicationName);
+  if (orgFailure) {
+    return orgFailure;
+  }
+
+  if (!environmentName && savedConfig.environmentId) {
+    const envResult = await api.getEnvironment(organisationId, savedConfig.environmentId);
+    if (!envResult.success || !envResult.data) {
+      return { status: 'error', message: `Could not load environment: ${envResult.error?.message || 'Unknown error'}` };
+    }
+    return { organisationId, applicationId, applicationName, environment: envResult.data };
+  }
+
+  const envsResult = await api.listEnvironments(organisationId, applicationId);
+  if (!envsResult.success) {
+    return { status: 'error', message: `Could not load environments: ${envsResult.error?.message || 'Unknown error'}` };
+  }
+
+  const environments = envsResult.data || [];
+  const environment = environmentName
+    ? environments.find(e => e.name.toLowerCase() === environmentName.toLowerCase())
+    : environments.find(e => e.is_production) || environments[0];
+
+  if (!environment) {
+    return {
+      status: 'not-found',
+      message: environmentName
+        ? `Environment "${environmentName}" not found in ${applicationName}.`
+        : `No environments found for ${applicationName}.`,
+    };
+  }
+
+  return { organisationId, applicationId, applicationName, environment };
+}
+
+/**
+ * Resolve the environment for a palette command, which has no chat request to name the app:
+ * the linked app directory is asked for when the workspace has several
+ */
+export async function resolvePaletteEnvironment(api: LightCloudApi): Promise<ResolvedEnvironment | ResolveFailure> {
+  const project = await resolveProject(undefined, { linkedOnly: true });
+  if ('status' in project) {
+    return project;
+  }
+  return runInProject(project.folder.uri.fsPath, () => resolveEnvironment(api));
+}
+
+/**
+ * Render a resolve failure in the chat stream
+ */
+export function showResolveFailure(stream: vscode.ChatResponseStream, failure: ResolveFailure): void {
+  if (failure.status === 'no-config') {
+    stream.markdown('## ⚠️ No Application Linked\n\n');
+    stream.markdown('No `.lightcloud` config found in this workspace.\n\n');
+    stream.markdown('Use `/deploy` to deploy your application first.\n');
+    return;
+  }
+
+  stream.markdown(`❌ ${failure.message}\n`);
+}
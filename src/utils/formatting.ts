@@ -1,6 +1,6 @@
 // src/utils/formatting.ts
 
-import { DeploymentStatus } from '../api/types';
+import { Deployment, DeploymentStatus } from '../api/types';
 
 export function formatStatusEmoji(status: string): string {
   const emojis: Record<string, string> = {
@@ -13,6 +13,11 @@ export function formatStatusEmoji(status: string): string {
     degraded: '⚠️',
     failed: '❌',
     deleting: '🗑️',
+    pending_dns: '⏳',
+    verifying: '🔍',
+    provisioning: '🔒',
+    provisioning_certificate: '🔒',
+    active: '✅',
   };
   return emojis[status] || '❓';
 }
@@ -30,6 +35,14 @@ export function formatBytes(bytes: number): string {
   return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
 }
 
+/**
+ * Hide a variable's value; long values keep their last 2 characters, so changes are still visible
+ */
+export function formatMaskedValue(value: string): string {
+  if (value.length < 16) return '••••••••';
+  return `••••••••${value.slice(-2)}`;
+}
+
 export function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
@@ -69,6 +82,26 @@ export function formatDeploymentSummary(config: {
   return lines.join('\n');
 }
 
+export function formatCommit(sha?: string, message?: string, maxLength: number = 50): string {
+  if (!sha) return '-';
+  const shortSha = `\`${sha.slice(0, 7)}\``;
+  if (!message) return shortSha;
+  // Escape pipes so the message can sit inside a markdown table cell
+  const firstLine = message.split('\n')[0].replace(/\|/g, '\\|');
+  const truncated = firstLine.length > maxLength ? `${firstLine.slice(0, maxLength - 1)}…` : firstLine;
+  return `${shortSha} ${truncated}`;
+}
+
+/**
+ * One-line label for a deployment, e.g. `abc1234 Fix header (2 hours ago)`
+ */
+export function formatDeploymentLabel(deployment: Deployment): string {
+  const commit = deployment.commit_sha
+    ? `${deployment.commit_sha.slice(0, 7)}${deployment.commit_message ? ` ${deployment.commit_message.split('\n')[0]}` : ''}`
+    : deployment.id;
+  return `${commit} (${formatRelativeTime(deployment.started_at)})`;
+}
+
 export function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -0,0 +1,105 @@
+// src/utils/log-filter.ts
+
+export type LogSeverity = 'debug' | 'info' | 'warning' | 'error';
+
+const SEVERITY_RANK: Record<LogSeverity, number> = {
+  debug: 0,
+  info: 1,
+  warning: 2,
+  error: 3,
+};
+
+const SEVERITY_ALIASES: Record<string, LogSeverity> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warn: 'warning',
+  warning: 'warning',
+  err: 'error',
+  error: 'error',
+  fatal: 'error',
+  critical: 'error',
+  alert: 'error',
+  emergency: 'error',
+};
+
+export interface LogFilterOptions {
+  /** Plain text or regular expression, matched case-insensitively */
+  grep?: string;
+  /** Minimum severity to keep */
+  level?: LogSeverity;
+}
+
+/**
+ * Parse a duration like `30s`, `10m`, `2h` or `1d` into milliseconds
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+)\s*(s|m|h|d)$/i);
+  if (!match) return undefined;
+
+  const amount = parseInt(match[1], 10);
+  const unitMs: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+  return amount * unitMs[match[2].toLowerCase()];
+}
+
+export function parseSeverity(value: string): LogSeverity | undefined {
+  return SEVERITY_ALIASES[value.trim().toLowerCase()];
+}
+
+/**
+ * Best-effort severity detection for a log line.
+ * Understands structured JSON logs (`severity` / `level` fields) and
+ * plain-text lines containing a level keyword such as `ERROR` or `[warn]`.
+ */
+export function detectSeverity(line: string): LogSeverity | undefined {
+  const trimmed = line.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const entry = JSON.parse(trimmed) as { severity?: unknown; level?: unknown };
+      const level = entry.severity ?? entry.level;
+      if (typeof level === 'string') {
+        return parseSeverity(level);
+      }
+    } catch {
+      // Not JSON - fall through to keyword matching
+    }
+  }
+
+  const keyword = trimmed.match(/\b(trace|debug|info|notice|warn(?:ing)?|err(?:or)?|fatal|critical)\b/i);
+  return keyword ? parseSeverity(keyword[1]) : undefined;
+}
+
+/**
+ * Build a predicate that keeps the log lines matching the given options.
+ * Lines without a recognisable severity are kept when filtering by level.
+ */
+export function createLogFilter(options: LogFilterOptions): (line: string) => boolean {
+  let pattern: RegExp | undefined;
+  if (options.grep) {
+    try {
+      pattern = new RegExp(options.grep, 'i');
+    } catch {
+      // Invalid regex - match it literally
+      pattern = new RegExp(options.grep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+  }
+
+  const minRank = options.level ? SEVERITY_RANK[options.level] : undefined;
+
+  return (line: string) => {
+    if (pattern && !pattern.test(line)) {
+      return false;
+    }
+
+    if (minRank !== undefined) {
+      const severity = detectSeverity(line);
+      if (severity && SEVERITY_RANK[severity] < minRank) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+}
@@ -0,0 +1,304 @@
+// src/utils/manifest.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeploymentSettings, DetectedProject, EnvironmentSettings } from '../api/types';
+import { EnvParser } from '../detection/env-parser';
+
+export const MANIFEST_FILENAME = 'lightcloud.json';
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Settings that can be given at the top level and overridden per environment
+ */
+export interface ManifestSettings {
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand?: string;
+  outputDirectory?: string;
+  port?: number;
+  memory?: string;
+  cpu?: string;
+  region?: string;
+  /** Values may reference `${NAME}` from the app's `.env` file or the editor's environment */
+  env?: Record<string, string>;
+}
+
+/**
+ * `lightcloud.json`: build settings checked into the repository, so every teammate deploys the same way.
+ * Its values take priority over framework detection. See resources/lightcloud.schema.json.
+ */
+export interface LightCloudManifest extends ManifestSettings {
+  version: number;
+  name?: string;
+  environments?: Record<string, ManifestSettings>;
+}
+
+export interface ManifestFailure {
+  status: 'invalid-manifest';
+  message: string;
+  errors: string[];
+}
+
+export interface AppliedManifest {
+  manifest: LightCloudManifest;
+  settings: ManifestSettings;
+  env: ResolvedEnv;
+  /** Detected values the manifest replaced, e.g. `buildCommand` */
+  applied: string[];
+}
+
+export interface ResolvedEnv {
+  variables: Record<string, string>;
+  /** Names of referenced variables that have no value locally */
+  missing: string[];
+}
+
+type Check = (value: unknown) => string | undefined;
+
+const isString: Check = value => typeof value === 'string' ? undefined : 'must be a string';
+
+const SETTING_CHECKS: Record<keyof ManifestSettings, Check> = {
+  installCommand: isString,
+  buildCommand: isString,
+  startCommand: isString,
+  outputDirectory: isString,
+  port: value => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535
+    ? undefined
+    : 'must be an integer from 1 to 65535',
+  memory: value => typeof value === 'string' && /^\d+(Mi|Gi)$/.test(value)
+    ? undefined
+    : 'must be a size like "512Mi" or "1Gi"',
+  cpu: value => (typeof value === 'number' && value > 0) || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value))
+    ? undefined
+    : 'must be a number of vCPUs like "1" or "2"',
+  region: isString,
+  env: value => {
+    if (!isObject(value)) {
+      return 'must be an object of variable names to values';
+    }
+    const invalid = Object.entries(value).find(([key, v]) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) || typeof v !== 'string');
+    return invalid ? `has an invalid entry "${invalid[0]}" (names are letters, digits and _, values are strings)` : undefined;
+  },
+};
+
+/**
+ * Read `lightcloud.json` from an app directory.
+ * Returns undefined when there is none, and a failure listing every problem when it is invalid.
+ */
+export function readManifest(rootPath: string): LightCloudManifest | ManifestFailure | undefined {
+  const manifestPath = path.join(rootPath, MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: 'invalid-manifest', message: `\`${MANIFEST_FILENAME}\` is not valid JSON.`, errors: [message] };
+  }
+
+  const errors = validateManifest(manifest);
+  if (errors.length > 0) {
+    return { status: 'invalid-manifest', message: `\`${MANIFEST_FILENAME}\` has ${errors.length === 1 ? 'an error' : `${errors.length} errors`}.`, errors };
+  }
+
+  const { $schema, ...valid } = manifest as LightCloudManifest & { $schema?: string };
+  const environments = valid.environments && Object.fromEntries(
+    Object.entries(valid.environments).map(([name, settings]) => [name, normaliseCpu(settings)])
+  );
+  return { ...normaliseCpu(valid), environments };
+}
+
+/**
+ * Read the app directory's manifest and let its settings for `environmentName` replace the detected ones
+ */
+export function loadManifest(
+  rootPath: string,
+  detected: DetectedProject,
+  environmentName = 'production'
+): AppliedManifest | ManifestFailure | undefined {
+  const manifest = readManifest(rootPath);
+  if (!manifest || 'status' in manifest) {
+    return manifest;
+  }
+
+  const settings = settingsFor(manifest, environmentName);
+  return {
+    manifest,
+    settings,
+    env: resolveEnv(settings, rootPath),
+    applied: applyManifest(detected, settings),
+  };
+}
+
+/**
+ * Problems with a parsed manifest, as `field message` sentences; empty when it is valid
+ */
+export function validateManifest(manifest: unknown): string[] {
+  if (!isObject(manifest)) {
+    return ['The manifest must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  if (manifest.version === undefined) {
+    errors.push('`version` is required; use 1');
+  } else if (manifest.version !== MANIFEST_VERSION) {
+    errors.push(`\`version\` ${JSON.stringify(manifest.version)} is not supported; this extension reads version ${MANIFEST_VERSION}`);
+  }
+
+  for (const [key, value] of Object.entries(manifest)) {
+    if (key === '$schema' || key === 'version') {
+      continue;
+    }
+    if (key === 'name') {
+      if (typeof value !== 'string' || !value) {
+        errors.push('`name` must be a non-empty string');
+      }
+    } else if (key === 'environments') {
+      if (!isObject(value)) {
+        errors.push('`environments` must be an object of environment names to settings');
+        continue;
+      }
+      for (const [environment, settings] of Object.entries(value)) {
+        errors.push(...validateSettings(settings, `environments.${environment}.`));
+      }
+    } else {
+      errors.push(...validateSettings({ [key]: value }, ''));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Settings for one environment: the top level, with that environment's overrides on top
+ */
+export function settingsFor(manifest: LightCloudManifest, environmentName: string): ManifestSettings {
+  const { version, name, environments, ...base } = manifest;
+  const override = environments?.[environmentName] || {};
+  const env = base.env || override.env ? { ...base.env, ...override.env } : undefined;
+  return { ...base, ...override, env };
+}
+
+/**
+ * Replace detected commands and output directory with the manifest's.
+ * Returns the manifest field names that were applied.
+ */
+export function applyManifest(detected: DetectedProject, settings: ManifestSettings): string[] {
+  const applied: string[] = [];
+  for (const key of ['installCommand', 'buildCommand', 'startCommand', 'outputDirectory'] as const) {
+    if (settings[key] !== undefined) {
+      detected[key] = settings[key];
+      applied.push(key);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Resolve `${NAME}` references in the manifest's `env` from the app's `.env` file, then the editor's
+ * environment. A variable with a missing reference is left out, so its value on Light Cloud is kept.
+ */
+export function resolveEnv(settings: ManifestSettings, rootPath: string): ResolvedEnv {
+  const local = new EnvParser().parseEnvFile({ uri: vscode.Uri.file(rootPath), name: '', index: 0 });
+  const variables: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const [key, value] of Object.entries(settings.env || {})) {
+    const unresolved: string[] = [];
+    const resolved = value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      const found = local[name] ?? process.env[name];
+      if (found === undefined) {
+        unresolved.push(name);
+      }
+      return found ?? '';
+    });
+
+    if (unresolved.length > 0) {
+      missing.push(...unresolved.filter(name => !missing.includes(name)));
+    } else {
+      variables[key] = resolved;
+    }
+  }
+  return { variables, missing };
+}
+
+/**
+ * Resources and variables for creating an application
+ */
+export function deploymentSettings(settings: ManifestSettings, env: ResolvedEnv): DeploymentSettings {
+  return {
+    containerPort: settings.port,
+    memory: settings.memory,
+    cpu: settings.cpu,
+    region: settings.region,
+    environmentVars: Object.keys(env.variables).length > 0 ? env.variables : undefined,
+  };
+}
+
+/**
+ * Settings to apply to an existing environment
+ */
+export function environmentSettings(settings: ManifestSettings): EnvironmentSettings {
+  return {
+    installCommand: settings.installCommand,
+    buildCommand: settings.buildCommand,
+    startCommand: settings.startCommand,
+    outputDirectory: settings.outputDirectory,
+    containerPort: settings.port,
+    memory: settings.memory,
+    cpu: settings.cpu,
+    region: settings.region,
+  };
+}
+
+export function showManifestFailure(stream: vscode.ChatResponseStream, failure: ManifestFailure): void {
+  stream.markdown(`❌ ${failure.message}\n\n`);
+  for (const error of failure.errors) {
+    stream.markdown(`- ${error}\n`);
+  }
+  stream.markdown(`\nFix \`${MANIFEST_FILENAME}\` and try again. VS Code validates it against the schema as you edit.\n`);
+}
+
+/**
+ * Warn about `${NAME}` references without a local value
+ */
+export function showMissingEnvReferences(stream: vscode.ChatResponseStream, env: ResolvedEnv): void {
+  if (env.missing.length === 0) {
+    return;
+  }
+  stream.markdown(`⚠️ **\`${MANIFEST_FILENAME}\` references variables with no local value:** ${env.missing.map(name => `\`${name}\``).join(', ')}. `);
+  stream.markdown('Add them to `.env` or set them with `/env set`; the variables using them are not changed.\n\n');
+}
+
+function validateSettings(settings: unknown, prefix: string): string[] {
+  if (!isObject(settings)) {
+    return [`\`${prefix.replace(/\.$/, '')}\` must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(settings)) {
+    const check = SETTING_CHECKS[key as keyof ManifestSettings];
+    if (!check) {
+      errors.push(`\`${prefix}${key}\` is not a known setting`);
+      continue;
+    }
+    const error = check(value);
+    if (error) {
+      errors.push(`\`${prefix}${key}\` ${error}`);
+    }
+  }
+  return errors;
+}
+
+/** vCPUs may be written as a number, but are sent as a string */
+function normaliseCpu<T extends ManifestSettings>(settings: T): T {
+  return settings.cpu === undefined ? settings : { ...settings, cpu: String(settings.cpu) };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
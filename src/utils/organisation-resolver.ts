@@ -0,0 +1,163 @@
+// src/utils/organisation-resolver.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Organisation } from '../api/types';
+import { getConfigManager } from './config-manager';
+
+export interface OrganisationFailure {
+  status: 'not-found' | 'cancelled' | 'error';
+  message: string;
+}
+
+export interface ResolveOrganisationOptions {
+  /** Quick pick placeholder when the user has to choose */
+  placeHolder?: string;
+}
+
+/**
+ * Resolve the organisation a command should act on, in order of precedence:
+ * an explicit `--org` (ID, slug or name), the organisation linked in `.lightcloud`,
+ * the `lightcloud.defaultOrganisation` setting, the user's only organisation,
+ * or a quick pick when they belong to several.
+ */
+export async function resolveOrganisation(
+  api: LightCloudApi,
+  org?: string,
+  options: ResolveOrganisationOptions = {}
+): Promise<Organisation | OrganisationFailure> {
+  const profileResult = await api.getProfile();
+  if (!profileResult.success || !profileResult.data?.organisations?.length) {
+    return { status: 'error', message: 'Could not fetch your organisations. Please check your login.' };
+  }
+
+  const organisations = profileResult.data.organisations;
+
+  if (org) {
+    const matched = findOrganisation(organisations, org);
+    if (!matched) {
+      return {
+        status: 'not-found',
+        message: `Organisation "${org}" not found. You belong to: ${organisations.map(o => o.name).join(', ')}.`,
+      };
+    }
+    return matched;
+  }
+
+  const current = findCurrentOrganisation(organisations);
+  if (current) {
+    return current;
+  }
+
+  if (organisations.length === 1) {
+    return organisations[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    organisations.map(o => ({ label: o.name, description: o.slug, org: o })),
+    {
+      placeHolder: options.placeHolder || 'Select an organisation',
+      title: 'Choose Organisation',
+    }
+  );
+
+  if (!selected) {
+    return { status: 'cancelled', message: 'No organisation selected.' };
+  }
+  return selected.org;
+}
+
+/**
+ * The organisation used without prompting: the `.lightcloud` link, then the default setting
+ */
+export function findCurrentOrganisation(organisations: Organisation[]): Organisation | undefined {
+  const linkedId = getConfigManager().read()?.organisationId;
+  const defaultId = vscode.workspace.getConfiguration('lightcloud').get<string>('defaultOrganisation');
+
+  return (linkedId && organisations.find(o => o.id === linkedId))
+    || (defaultId && organisations.find(o => o.id === defaultId))
+    || undefined;
+}
+
+/**
+ * Match an organisation by ID, slug or name (case-insensitive)
+ */
+export function findOrganisation(organisations: Organisation[], value: string): Organisation | undefined {
+  const needle = value.toLowerCase();
+  return organisations.find(o => o.id === value)
+    || organisations.find(o => o.slug.toLowerCase() === needle)
+    || organisations.find(o => o.name.toLowerCase() === needle);
+}
+
+/**
+ * Check an explicit `--org` against the organisation of the linked application.
+ * Commands acting on the `.lightcloud` application can't switch organisations,
+ * so a mismatch is reported rather than silently ignored.
+ */
+export async function checkLinkedOrganisation(
+  api: LightCloudApi,
+  org: string | undefined,
+  linkedOrganisationId: string,
+  applicationName = 'The linked application'
+): Promise<OrganisationFailure | undefined> {
+  if (!org) {
+    return undefined;
+  }
+
+  const resolved = await resolveOrganisation(api, org);
+  if ('status' in resolved) {
+    return resolved;
+  }
+
+  if (resolved.id !== linkedOrganisationId) {
+    return {
+      status: 'not-found',
+      message: `${applicationName} belongs to a different organisation than ${resolved.name}. Remove \`--org\` or run the command from another workspace.`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * A `.lightcloud` committed by a teammate names the application but not the organisation,
+ * which is kept per user in `.lightcloud.local`. Find which of the user's organisations
+ * has the application and save it there.
+ */
+export async function restoreLinkedOrganisation(api: LightCloudApi): Promise<OrganisationFailure | undefined> {
+  const configManager = getConfigManager();
+  const savedConfig = configManager.read();
+  if (!savedConfig?.applicationId || savedConfig.organisationId) {
+    return undefined;
+  }
+
+  const profileResult = await api.getProfile();
+  if (!profileResult.success || !profileResult.data?.organisations?.length) {
+    return { status: 'error', message: 'Could not fetch your organisations. Please check your login.' };
+  }
+
+  for (const organisation of profileResult.data.organisations) {
+    const appResult = await api.getApplication(organisation.id, savedConfig.applicationId);
+    if (appResult.success) {
+      await configManager.write({ organisationId: organisation.id, organisationName: organisation.name });
+      return undefined;
+    }
+  }
+
+  return {
+    status: 'not-found',
+    message: `${savedConfig.applicationName || 'The linked application'} is not in any of your organisations. Ask its owner to invite you, or remove \`.lightcloud\` and run \`/deploy\` to create your own.`,
+  };
+}
+
+/**
+ * Render an organisation failure in the chat stream
+ */
+export function showOrganisationFailure(stream: vscode.ChatResponseStream, failure: OrganisationFailure): void {
+  if (failure.status === 'cancelled') {
+    stream.markdown('Cancelled - no organisation selected.\n');
+    return;
+  }
+
+  stream.markdown(`❌ ${failure.message}\n`);
+}
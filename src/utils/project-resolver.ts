@@ -0,0 +1,205 @@
+// src/utils/project-resolver.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WorkspaceDetector, WorkspacePackage } from '../detection/workspace-detector';
+import { getConfigManager } from './config-manager';
+
+/**
+ * The app a command acts on: a workspace folder, or a package inside one
+ */
+export interface Project {
+  /** The workspace folder containing the app; uploads and git detection use it */
+  workspaceFolder: vscode.WorkspaceFolder;
+  /** App directory relative to the workspace folder, `/`-separated; empty for the folder itself */
+  rootDirectory: string;
+  /** Package name, or the folder name for a single-app folder */
+  name: string;
+  /** The app directory as a workspace folder, for detectors that read from one */
+  folder: vscode.WorkspaceFolder;
+}
+
+export interface ProjectFailure {
+  status: 'not-found' | 'cancelled';
+  message: string;
+}
+
+export interface ResolveProjectOptions {
+  /** Only offer app directories with a `.lightcloud` link (commands acting on a deployed app) */
+  linkedOnly?: boolean;
+  /** Quick pick placeholder when the user has to choose */
+  placeHolder?: string;
+}
+
+const detector = new WorkspaceDetector();
+
+/**
+ * Resolve the app directory a command should act on, in order of precedence:
+ * an explicit `--path` (a directory or package name), the only app in the workspace,
+ * or a quick pick across the packages of every workspace folder.
+ * With `linkedOnly`, a workspace without any linked app resolves to its first folder
+ * so commands can report the missing link themselves.
+ */
+export async function resolveProject(
+  appPath?: string,
+  options: ResolveProjectOptions = {}
+): Promise<Project | ProjectFailure> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length === 0) {
+    return { status: 'not-found', message: 'Please open a project folder to use Light Cloud.' };
+  }
+
+  if (appPath) {
+    const matched = await findProject(folders, appPath);
+    if (!matched) {
+      return {
+        status: 'not-found',
+        message: `No app directory or workspace package "${appPath}" found. Use a path relative to the workspace folder or a package name.`,
+      };
+    }
+    return matched;
+  }
+
+  let candidates = await listProjects(folders);
+  if (options.linkedOnly) {
+    candidates = candidates.filter(isLinked);
+    if (candidates.length === 0) {
+      return toProject(folders[0], '');
+    }
+  }
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const multiRoot = folders.length > 1;
+  const selected = await vscode.window.showQuickPick(
+    candidates.map(project => ({
+      label: project.name,
+      description: multiRoot
+        ? path.posix.join(project.workspaceFolder.name, project.rootDirectory)
+        : project.rootDirectory || '.',
+      detail: isLinked(project) ? `Linked to ${linkedName(project)}` : undefined,
+      project,
+    })),
+    {
+      placeHolder: options.placeHolder || 'Select the app directory',
+      title: 'Choose App Directory',
+    }
+  );
+
+  if (!selected) {
+    return { status: 'cancelled', message: 'No app directory selected.' };
+  }
+  return selected.project;
+}
+
+/**
+ * Name for a new application: the repository name for a single-app repository,
+ * the package name without its npm scope for a package of a monorepo
+ */
+export function defaultAppName(project: Project, repo?: string): string {
+  if (!project.rootDirectory && repo) {
+    return repo;
+  }
+  return project.name.replace(/^@[^/]+\//, '');
+}
+
+/**
+ * Render a project failure in the chat stream
+ */
+export function showProjectFailure(stream: vscode.ChatResponseStream, failure: ProjectFailure): void {
+  if (failure.status === 'cancelled') {
+    stream.markdown('Cancelled - no app directory selected.\n');
+    return;
+  }
+
+  stream.markdown(`❌ ${failure.message}\n`);
+}
+
+/**
+ * Every app in the workspace: the packages of each folder, plus the folder itself
+ * when it is a single app, an app alongside its packages, or already linked
+ */
+async function listProjects(folders: readonly vscode.WorkspaceFolder[]): Promise<Project[]> {
+  const projects: Project[] = [];
+
+  for (const folder of folders) {
+    const packages = await detector.detect(folder.uri.fsPath);
+    const root = toProject(folder, '');
+    if (packages.length === 0 || isLinked(root) || detector.isApp(folder.uri.fsPath)) {
+      projects.push(root);
+    }
+    projects.push(...packages.map(pkg => toProject(folder, pkg.rootDirectory, pkg)));
+  }
+
+  return projects;
+}
+
+/**
+ * Match `--path` as an absolute path, a path relative to a workspace folder,
+ * `<folder name>/<path>` in a multi-root workspace, or a package name
+ */
+async function findProject(
+  folders: readonly vscode.WorkspaceFolder[],
+  appPath: string
+): Promise<Project | undefined> {
+  for (const folder of folders) {
+    const absolute = path.resolve(folder.uri.fsPath, appPath);
+    const relative = path.relative(folder.uri.fsPath, absolute);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative) && isDirectory(absolute)) {
+      const rootDirectory = relative.split(path.sep).join('/');
+      const pkg = (await detector.detect(folder.uri.fsPath)).find(p => p.rootDirectory === rootDirectory);
+      return toProject(folder, rootDirectory, pkg);
+    }
+  }
+
+  const [folderName, ...rest] = appPath.split(/[\\/]/);
+  const namedFolder = folders.find(folder => folder.name === folderName);
+  if (namedFolder && isDirectory(path.join(namedFolder.uri.fsPath, ...rest))) {
+    return toProject(namedFolder, rest.filter(Boolean).join('/'));
+  }
+
+  for (const folder of folders) {
+    const pkg = (await detector.detect(folder.uri.fsPath)).find(p => p.name === appPath);
+    if (pkg) {
+      return toProject(folder, pkg.rootDirectory, pkg);
+    }
+  }
+
+  return undefined;
+}
+
+function toProject(workspaceFolder: vscode.WorkspaceFolder, rootDirectory: string, pkg?: WorkspacePackage): Project {
+  const rootPath = path.join(workspaceFolder.uri.fsPath, rootDirectory);
+  return {
+    workspaceFolder,
+    rootDirectory,
+    name: pkg?.name || (rootDirectory ? path.posix.basename(rootDirectory) : workspaceFolder.name),
+    folder: rootDirectory
+      ? { uri: vscode.Uri.file(rootPath), name: path.basename(rootPath), index: workspaceFolder.index }
+      : workspaceFolder,
+  };
+}
+
+function isLinked(project: Project): boolean {
+  return getConfigManager(project.folder.uri.fsPath).exists();
+}
+
+function linkedName(project: Project): string {
+  try {
+    return getConfigManager(project.folder.uri.fsPath).read()?.applicationName || 'an application';
+  } catch {
+    // Reported when the command reads the link
+    return 'an invalid link';
+  }
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
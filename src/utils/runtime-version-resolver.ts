@@ -0,0 +1,64 @@
+// src/utils/runtime-version-resolver.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { DetectedProject } from '../api/types';
+import { matchVersion, versionLine } from '../detection/runtime-version';
+
+export interface RuntimeVersion {
+  runtime: 'nodejs' | 'python';
+  /** As the project asks for it, e.g. `>=18 <21` */
+  requested: string;
+  source: string;
+  /** Release line to build with; undefined when no supported version matches */
+  version?: string;
+  /** Release lines the platform supports; undefined when the platform config is unavailable */
+  supported?: string[];
+}
+
+const RUNTIME_NAMES = { nodejs: 'Node.js', python: 'Python' };
+
+/**
+ * Resolve the project's Node.js or Python version against the platform's
+ * supported versions, and record the release line to build with on `detected`.
+ * Without the platform config, an exact version is used as it is and a range is left to the platform.
+ */
+export async function resolveRuntimeVersion(
+  api: LightCloudApi,
+  detected: DetectedProject
+): Promise<RuntimeVersion | undefined> {
+  const [runtime, requested] = detected.pythonVersion
+    ? ['python' as const, detected.pythonVersion]
+    : ['nodejs' as const, detected.nodeVersion];
+  if (!requested) {
+    return undefined;
+  }
+
+  const config = await api.getPlatformConfig();
+  const runtimes = config.data?.runtimes as Record<string, unknown> | undefined;
+  const supported = Array.isArray(runtimes?.[runtime]) ? (runtimes![runtime] as unknown[]).map(String) : undefined;
+
+  const version = supported
+    ? matchVersion(requested, supported)
+    : versionLine(requested, runtime === 'python' ? 2 : 1);
+
+  detected.runtimeVersion = version;
+  return { runtime, requested, source: detected.versionSource || 'project', version, supported };
+}
+
+/**
+ * Warn that the platform would build with a different version than the project asks for
+ */
+export function showRuntimeVersionWarning(stream: vscode.ChatResponseStream, resolved: RuntimeVersion | undefined): void {
+  if (!resolved?.supported || resolved.version) {
+    return;
+  }
+
+  const name = RUNTIME_NAMES[resolved.runtime];
+  const supported = resolved.supported.length > 1
+    ? `${resolved.supported.slice(0, -1).join(', ')} or ${resolved.supported[resolved.supported.length - 1]}`
+    : resolved.supported.join('');
+  stream.markdown(`⚠️ **${name} \`${resolved.requested}\` is not supported.** `);
+  stream.markdown(`Light Cloud builds with ${name} ${supported}, so the build would not use the version \`${resolved.source}\` asks for. `);
+  stream.markdown('Update it to a supported version.\n\n');
+}
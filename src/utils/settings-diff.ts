@@ -0,0 +1,251 @@
+// src/utils/settings-diff.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { Application, DetectedProject, Environment, EnvironmentSettings, EnvironmentVariable } from '../api/types';
+import { AppliedManifest, readManifest, resolveEnv, settingsFor } from './manifest';
+import { formatMaskedValue } from './formatting';
+
+/**
+ * One field whose live value differs from what the project asks for
+ */
+export interface SettingChange {
+  /** As the API names it, e.g. `build_command` */
+  field: string;
+  /** Live value; undefined when the field is not set yet */
+  current?: string;
+  desired: string;
+}
+
+/**
+ * What `/sync` would change on a linked environment, like `terraform plan`
+ */
+export interface SettingsDiff {
+  applicationName: string;
+  environmentName: string;
+  /** Set when the application is created, so `/sync` cannot change them */
+  fixed: SettingChange[];
+  settings: SettingChange[];
+  /** Values are masked */
+  variables: SettingChange[];
+  /** Only the changed settings, ready for `updateEnvironmentSettings` */
+  update: EnvironmentSettings;
+  /** Only the added or changed variables, ready for `setEnvironmentVariables` */
+  setVariables: Record<string, string>;
+}
+
+export interface SettingsDiffFailure {
+  status: 'error';
+  message: string;
+}
+
+export interface LinkedEnvironment {
+  organisationId: string;
+  applicationId: string;
+  environmentId: string;
+}
+
+// Environment settings in the order they are shown, with the API field each is stored in
+const ENVIRONMENT_FIELDS: [keyof EnvironmentSettings, keyof Environment][] = [
+  ['installCommand', 'install_command'],
+  ['buildCommand', 'build_command'],
+  ['startCommand', 'start_command'],
+  ['outputDirectory', 'output_directory'],
+  ['containerPort', 'container_port'],
+  ['memory', 'memory'],
+  ['cpu', 'cpu'],
+  ['region', 'region'],
+];
+
+/**
+ * Fetch the linked application, environment and variables, and compare them with
+ * the local detection and `lightcloud.json`. Settings the project does not specify are left alone.
+ */
+export async function diffLinkedEnvironment(
+  api: LightCloudApi,
+  link: LinkedEnvironment,
+  detected: DetectedProject,
+  manifest?: AppliedManifest
+): Promise<SettingsDiff | SettingsDiffFailure> {
+  const [appResult, envResult, varsResult] = await Promise.all([
+    api.getApplication(link.organisationId, link.applicationId),
+    api.getEnvironment(link.organisationId, link.environmentId),
+    api.listEnvironmentVariables(link.organisationId, link.environmentId),
+  ]);
+  const failed = [appResult, envResult, varsResult].find(result => !result.success);
+  if (failed || !appResult.data || !envResult.data) {
+    return { status: 'error', message: failed?.error?.message || 'The linked application was not found' };
+  }
+
+  return diffSettings(
+    appResult.data,
+    envResult.data,
+    varsResult.data || [],
+    detected,
+    desiredSettings(detected, manifest),
+    manifest?.env.variables || {}
+  );
+}
+
+/**
+ * Compare live settings with the desired ones; an undefined desired value means no change
+ */
+export function diffSettings(
+  app: Application,
+  environment: Environment,
+  variables: EnvironmentVariable[],
+  detected: DetectedProject,
+  desired: EnvironmentSettings,
+  desiredVariables: Record<string, string>
+): SettingsDiff {
+  const fixed: SettingChange[] = [];
+  for (const [field, value] of [['framework', detected.framework], ['runtime', detected.runtime], ['deployment_type', detected.deploymentType]] as const) {
+    const current = app[field];
+    if (value && current && value !== current) {
+      fixed.push({ field, current, desired: value });
+    }
+  }
+
+  const settings: SettingChange[] = [];
+  const update: EnvironmentSettings = {};
+  for (const [key, field] of ENVIRONMENT_FIELDS) {
+    const value = desired[key];
+    const current = environment[field];
+    if (value === undefined || String(value) === (current === undefined ? undefined : String(current))) {
+      continue;
+    }
+    settings.push({ field, current: current === undefined ? undefined : String(current), desired: String(value) });
+    (update as Record<string, unknown>)[key] = value;
+  }
+
+  const live = new Map(variables.map(variable => [variable.key, variable.value]));
+  const variableChanges: SettingChange[] = [];
+  const setVariables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(desiredVariables)) {
+    const current = live.get(key);
+    if (current === value) {
+      continue;
+    }
+    variableChanges.push({
+      field: key,
+      current: current === undefined ? undefined : formatMaskedValue(current),
+      desired: formatMaskedValue(value),
+    });
+    setVariables[key] = value;
+  }
+
+  return {
+    applicationName: app.name,
+    environmentName: environment.name,
+    fixed,
+    settings,
+    variables: variableChanges,
+    update,
+    setVariables,
+  };
+}
+
+/**
+ * Whether `/sync` has anything to apply
+ */
+export function hasChanges(diff: SettingsDiff): boolean {
+  return diff.settings.length > 0 || diff.variables.length > 0;
+}
+
+/**
+ * Push a diff's settings and variables to the environment; resolves to an error message if either fails
+ */
+export async function applySettingsDiff(
+  api: LightCloudApi,
+  organisationId: string,
+  environmentId: string,
+  diff: Pick<SettingsDiff, 'update' | 'setVariables'>
+): Promise<string | undefined> {
+  if (Object.keys(diff.update).length > 0) {
+    const result = await api.updateEnvironmentSettings(organisationId, environmentId, diff.update);
+    if (!result.success) {
+      return `Could not update settings: ${result.error?.message || 'Unknown error'}`;
+    }
+  }
+
+  if (Object.keys(diff.setVariables).length > 0) {
+    const result = await api.setEnvironmentVariables(organisationId, environmentId, diff.setVariables);
+    if (!result.success) {
+      return `Could not set variables: ${result.error?.message || 'Unknown error'}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read again the values of variables a confirmed `/sync` sets, from `lightcloud.json` and the local env,
+ * so the values themselves are never kept in a button's arguments
+ */
+export function resolveSyncVariables(
+  rootPath: string,
+  environmentName: string,
+  keys: string[]
+): { variables: Record<string, string> } | SettingsDiffFailure {
+  const manifest = readManifest(rootPath);
+  if (!manifest || 'status' in manifest) {
+    return { status: 'error', message: manifest?.message || 'lightcloud.json was removed' };
+  }
+
+  const { variables } = resolveEnv(settingsFor(manifest, environmentName), rootPath);
+  const missing = keys.filter(key => variables[key] === undefined);
+  if (missing.length > 0) {
+    return { status: 'error', message: `${missing.join(', ')} no longer ${missing.length === 1 ? 'has a value' : 'have values'}` };
+  }
+  return { variables: Object.fromEntries(keys.map(key => [key, variables[key]])) };
+}
+
+/**
+ * Render the diff as a `diff` block: `+` for a new value, `-`/`+` for a changed one
+ */
+export function showSettingsDiff(stream: vscode.ChatResponseStream, diff: SettingsDiff): void {
+  if (!hasChanges(diff) && diff.fixed.length === 0) {
+    stream.markdown(`✅ **${diff.applicationName}** (${diff.environmentName}) already matches this project.\n\n`);
+    return;
+  }
+
+  stream.markdown('```diff\n');
+  for (const change of diff.settings) {
+    writeChange(stream, change.field, change);
+  }
+  for (const change of diff.variables) {
+    writeChange(stream, `env.${change.field}`, change);
+  }
+  for (const change of diff.fixed) {
+    stream.markdown(`! ${change.field}: ${change.current} → ${change.desired} (set when the application was created)\n`);
+  }
+  stream.markdown('```\n\n');
+
+  if (diff.fixed.length > 0) {
+    stream.markdown('⚠️ The framework, runtime and type cannot be changed on an existing application. Create a new one with `/deploy` if they are wrong.\n\n');
+  }
+}
+
+/**
+ * Settings the project asks for: detected commands, with `lightcloud.json` already applied to them,
+ * and the manifest's resources
+ */
+function desiredSettings(detected: DetectedProject, manifest?: AppliedManifest): EnvironmentSettings {
+  return {
+    installCommand: detected.installCommand,
+    buildCommand: detected.buildCommand,
+    startCommand: detected.startCommand,
+    outputDirectory: detected.outputDirectory,
+    containerPort: manifest?.settings.port,
+    memory: manifest?.settings.memory,
+    cpu: manifest?.settings.cpu,
+    region: manifest?.settings.region,
+  };
+}
+
+function writeChange(stream: vscode.ChatResponseStream, label: string, change: SettingChange): void {
+  if (change.current !== undefined) {
+    stream.markdown(`- ${label}: ${change.current}\n`);
+  }
+  stream.markdown(`+ ${label}: ${change.desired}\n`);
+}
@@ -0,0 +1,68 @@
+// src/views/deployment-logs-provider.ts
+
+import * as vscode from 'vscode';
+import { LightCloudApi } from '../api/endpoints';
+import { formatCommit, formatDuration } from '../utils/formatting';
+
+/**
+ * Serves deployment logs as read-only virtual documents.
+ * URIs look like: lightcloud-deployment:/<deploymentId>.log?organisationId=<id>
+ */
+export class DeploymentLogsProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = 'lightcloud-deployment';
+
+  constructor(private api: LightCloudApi) {}
+
+  static uriFor(organisationId: string, deploymentId: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: DeploymentLogsProvider.scheme,
+      path: `/${deploymentId}.log`,
+      query: new URLSearchParams({ organisationId }).toString(),
+    });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const organisationId = new URLSearchParams(uri.query).get('organisationId');
+    const deploymentId = uri.path.replace(/^\//, '').replace(/\.log$/, '');
+
+    if (!organisationId || !deploymentId) {
+      return 'Invalid deployment log URI.';
+    }
+
+    const result = await this.api.getDeployment(organisationId, deploymentId);
+    if (!result.success || !result.data) {
+      return `Could not load deployment ${deploymentId}: ${result.error?.message || 'Unknown error'}`;
+    }
+
+    const deployment = result.data;
+    const header = [
+      `Deployment: ${deployment.id}`,
+      `Status:     ${deployment.status}${deployment.deployment_stage ? ` (${deployment.deployment_stage})` : ''}`,
+      `Commit:     ${formatCommit(deployment.commit_sha, deployment.commit_message, 72).replace(/`/g, '')}`,
+      `Started:    ${deployment.started_at}`,
+    ];
+    if (deployment.completed_at) {
+      const durationMs = new Date(deployment.completed_at).getTime() - new Date(deployment.started_at).getTime();
+      header.push(`Completed:  ${deployment.completed_at} (${formatDuration(durationMs)})`);
+    }
+    header.push('', '─'.repeat(72), '');
+
+    if (deployment.deployment_logs?.length) {
+      return [...header, ...deployment.deployment_logs].join('\n');
+    }
+
+    if (deployment.logs_url) {
+      try {
+        const response = await fetch(deployment.logs_url, { headers: { 'Accept': 'text/plain' } });
+        if (response.ok) {
+          return [...header, await response.text()].join('\n');
+        }
+      } catch {
+        // Fall through to the link below
+      }
+      return [...header, `Logs are available at: ${deployment.logs_url}`].join('\n');
+    }
+
+    return [...header, 'No logs recorded for this deployment.'].join('\n');
+  }
+}